@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { createAgentGraph } from '@/lib/agents/registry';
+import { JournalEntry, MemoryJournalStore, MessageJournal } from '@/lib/agents/journal';
+import { FileJournalStore } from '@/lib/agents/journal-file-store';
+import { replayJournal } from '@/lib/agents/replay';
+import type { Candle } from '@/lib/types';
+
+function genCandles(count: number): Candle[] {
+  const start = Date.UTC(2024, 0, 1);
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 + i * 0.5 - (i % 10 === 9 ? 1.5 : 0);
+    return {
+      time: start + i * 300000,
+      open: close - 0.2,
+      high: close + 0.6,
+      low: close - 0.6,
+      close,
+      volume: 100,
+      closeTime: start + i * 300000 + 299999,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+}
+
+async function recordSession(candles: Candle[], warmup: number) {
+  const { bus } = createAgentGraph();
+  const store = new MemoryJournalStore();
+  const journal = new MessageJournal(bus, store, 'session-1');
+  journal.start();
+
+  bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: candles.slice(0, warmup), timestamp: 1 });
+  for (let i = warmup; i < candles.length; i++) {
+    bus.send({
+      from: 'DataCollector',
+      type: 'NEW_CLOSED_CANDLE_5M',
+      payload: { ...candles[i], isClosed: true },
+      timestamp: 1 + i,
+    });
+  }
+  journal.stop();
+  await journal.flush();
+  return store.readSession('session-1');
+}
+
+const signalsOf = (messages: { type: string; payload: unknown }[]) =>
+  messages.filter(m => m.type === 'NEW_SIGNAL_5M').map(m => m.payload);
+
+describe('agent message journal', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records every message in send order', async () => {
+    const entries = await recordSession(genCandles(70), 50);
+
+    expect(entries.map(e => e.seq)).toEqual(entries.map((_, i) => i));
+    expect(entries[0].message.type).toBe('INITIAL_CANDLES_5M');
+    expect(entries.filter(e => e.message.type === 'NEW_CLOSED_CANDLE_5M')).toHaveLength(20);
+    expect(signalsOf(entries.map(e => e.message)).length).toBeGreaterThanOrEqual(21);
+  });
+
+  it('stops recording once stopped', async () => {
+    const bus = new OrchestratorService();
+    const store = new MemoryJournalStore();
+    const journal = new MessageJournal(bus, store, 's');
+    journal.start();
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 0 });
+    journal.stop();
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 0 });
+    await journal.flush();
+
+    expect(await store.readSession('s')).toHaveLength(1);
+  });
+
+  it('round-trips entries through JSONL files', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'));
+    try {
+      const store = new FileJournalStore(dir);
+      const entry: JournalEntry = {
+        sessionId: 'a',
+        seq: 0,
+        recordedAt: 5,
+        message: { from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 5 },
+      };
+      await store.append({ ...entry, seq: 1, recordedAt: 6 });
+      await store.append(entry);
+
+      expect(await store.listSessions()).toEqual(['a']);
+      expect((await store.readSession('a')).map(e => e.seq)).toEqual([0, 1]);
+      expect((await store.readSession('a'))[0]).toEqual(entry);
+      expect(await store.readSession('missing')).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('batches file appends that arrive while a write is in flight', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'));
+    const appendFile = jest.spyOn(fs.promises, 'appendFile');
+    try {
+      const bus = new OrchestratorService();
+      const journal = new MessageJournal(bus, new FileJournalStore(dir), 'busy');
+      journal.start();
+      for (let i = 0; i < 50; i++) {
+        bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: i });
+      }
+      journal.stop();
+      await journal.flush();
+
+      expect(appendFile).toHaveBeenCalledTimes(1);
+      const store = new FileJournalStore(dir);
+      expect((await store.readSession('busy')).map(e => e.message.timestamp)).toEqual(Array.from({ length: 50 }, (_, i) => i));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('replays a session into fresh agents and reproduces its signals', async () => {
+    const entries = await recordSession(genCandles(90), 50);
+    const replay = replayJournal(entries);
+    await replay.done;
+
+    expect(signalsOf(replay.messages)).toEqual(signalsOf(entries.map(e => e.message)));
+    // recorded inputs are re-emitted untouched
+    const candles = replay.messages.filter(m => m.type === 'NEW_CLOSED_CANDLE_5M');
+    expect(candles.map(m => m.timestamp)).toEqual(
+      entries.filter(e => e.message.type === 'NEW_CLOSED_CANDLE_5M').map(e => e.message.timestamp)
+    );
+  });
+
+  it('keeps the recorded spacing scaled by speed', async () => {
+    const message = { from: 'UI' as const, type: 'MANUAL_DATA_REFRESH_REQUEST' as const, payload: null, timestamp: 0 };
+    const entries: JournalEntry[] = [0, 1000, 4000].map((recordedAt, seq) => ({
+      sessionId: 's',
+      seq,
+      recordedAt,
+      message,
+    }));
+    const sleep = jest.fn(() => Promise.resolve());
+
+    await replayJournal(entries, { speed: 10, sleep, createAgents: () => undefined }).done;
+
+    expect(sleep.mock.calls).toEqual([[100], [300]]);
+  });
+});
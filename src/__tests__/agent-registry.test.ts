@@ -0,0 +1,129 @@
+import { Agent, AgentHealth } from '@/lib/agents/BaseAgent';
+import { orchestrator, OrchestratorService } from '@/lib/agents/Orchestrator';
+import { IndicatorEngineAgent } from '@/lib/agents/IndicatorEngine';
+import { AgentDefinition, AgentRegistry, createAgentGraph, LEADER_AGENTS, orderAgents } from '@/lib/agents/registry';
+import { DEFAULT_SYMBOL, WATCHLIST_SYMBOLS } from '@/lib/agents/symbols';
+import type { AgentName } from '@/lib/agents/types';
+import { getBinanceCandles } from '@/lib/binance';
+
+jest.mock('@/lib/binance', () => ({ ...jest.requireActual('@/lib/binance'), getBinanceCandles: jest.fn(async () => []) }));
+jest.mock('@/lib/binance-websocket', () => ({ subscribeToSymbolCandleUpdates: jest.fn(() => () => undefined) }));
+
+function fakeAgent(name: AgentName, log: string[], failOnStart = false): AgentDefinition {
+  return {
+    name,
+    create: (): Agent => ({
+      name,
+      start: () => {
+        if (failOnStart) throw new Error(`${name} failed`);
+        log.push(`start ${name}`);
+      },
+      stop: () => {
+        log.push(`stop ${name}`);
+      },
+      health: (): AgentHealth => ({ status: 'running', healthy: true, lastActivity: null }),
+    }),
+  };
+}
+
+describe('agent registry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('orders agents after their dependencies', () => {
+    const log: string[] = [];
+    const ui = { ...fakeAgent('UI', log), dependsOn: ['SignalGenerator'] as AgentName[] };
+    const signals = { ...fakeAgent('SignalGenerator', log), dependsOn: ['IndicatorEngine'] as AgentName[] };
+    const indicators = { ...fakeAgent('IndicatorEngine', log), dependsOn: ['DataCollector'] as AgentName[] };
+    const collector = fakeAgent('DataCollector', log);
+
+    expect(orderAgents([ui, signals, indicators, collector]).map(d => d.name)).toEqual([
+      'DataCollector',
+      'IndicatorEngine',
+      'SignalGenerator',
+      'UI',
+    ]);
+    // dependencies missing from the list are ignored
+    expect(orderAgents([signals, indicators]).map(d => d.name)).toEqual(['IndicatorEngine', 'SignalGenerator']);
+  });
+
+  it('rejects dependency cycles and duplicates', () => {
+    const log: string[] = [];
+    const a = { ...fakeAgent('UI', log), dependsOn: ['SignalGenerator'] as AgentName[] };
+    const b = { ...fakeAgent('SignalGenerator', log), dependsOn: ['UI'] as AgentName[] };
+
+    expect(() => orderAgents([a, b])).toThrow('Agent dependency cycle: UI -> SignalGenerator -> UI');
+    expect(() => orderAgents([a, a])).toThrow('Duplicate agent "UI"');
+  });
+
+  it('starts in order, stops in reverse and rolls back a failed start', () => {
+    const log: string[] = [];
+    const registry = new AgentRegistry(createAgentGraph([]).bus, [
+      fakeAgent('DataCollector', log),
+      { ...fakeAgent('IndicatorEngine', log), dependsOn: ['DataCollector'] },
+    ]);
+    registry.start();
+    registry.start();
+    registry.stop();
+    expect(log).toEqual(['start DataCollector', 'start IndicatorEngine', 'stop IndicatorEngine', 'stop DataCollector']);
+
+    log.length = 0;
+    const failing = new AgentRegistry(registry.bus, [
+      fakeAgent('DataCollector', log),
+      { ...fakeAgent('IndicatorEngine', log, true), dependsOn: ['DataCollector'] },
+    ]);
+    expect(() => failing.start()).toThrow('IndicatorEngine failed');
+    expect(log).toEqual(['start DataCollector', 'stop DataCollector']);
+  });
+
+  it('subscribes on start and unsubscribes on stop', () => {
+    const { bus, registry } = createAgentGraph();
+    expect(bus.getSubscriberMap().INDICATORS_READY_5M).toEqual(['SignalGenerator']);
+
+    registry.stop();
+    expect(bus.getSubscriberMap()).toEqual({});
+
+    registry.start();
+    expect(bus.getSubscriberMap().NEW_CLOSED_CANDLE_5M).toEqual(['IndicatorEngine', 'SignalGenerator']);
+  });
+
+  it('reports agent health', () => {
+    const { registry } = createAgentGraph();
+    const health = registry.health();
+
+    expect(health.IndicatorEngine).toMatchObject({ status: 'running', healthy: false });
+    expect(health.IndicatorEngine?.detail).toMatch(/^0 candles/);
+    expect(health.SignalGenerator?.detail).toBe('waiting for indicators');
+
+    registry.stop();
+    expect(registry.health().IndicatorEngine?.status).toBe('stopped');
+  });
+
+  it('keeps isolated graphs off the app-wide orchestrator', () => {
+    const send = jest.spyOn(orchestrator, 'send');
+    new IndicatorEngineAgent();
+    createAgentGraph();
+
+    expect(orchestrator.getSubscriberMap()).toEqual({});
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('collects every watchlist symbol, DEFAULT_SYMBOL included, in the leader tab', async () => {
+    const bus = new OrchestratorService();
+    const collector = LEADER_AGENTS.find(definition => definition.name === 'DataCollector')!.create(bus);
+    collector.start();
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 0 });
+    await bus.idle();
+
+    const symbols = (getBinanceCandles as jest.Mock).mock.calls.map(([, , symbol]) => symbol);
+    expect(symbols).toContain(DEFAULT_SYMBOL);
+    expect(new Set(symbols)).toEqual(new Set(WATCHLIST_SYMBOLS));
+    collector.stop();
+  });
+});
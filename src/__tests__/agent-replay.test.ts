@@ -0,0 +1,57 @@
+import { createAgentReplay, runAgentBacktest } from '@/lib/backtesting/agent-replay';
+import { orchestrator } from '@/lib/agents/Orchestrator';
+import type { Candle } from '@/lib/types';
+
+function genCandles(count: number): Candle[] {
+  const start = Date.UTC(2024, 0, 1);
+  return Array.from({ length: count }, (_, i) => {
+    // steady uptrend with a pullback every 10 bars so RSI stays below 100
+    const close = 100 + i * 0.5 - (i % 10 === 9 ? 1.5 : 0);
+    return {
+      time: start + i * 300000,
+      open: close - 0.2,
+      high: close + 0.6,
+      low: close - 0.6,
+      close,
+      volume: 100,
+      closeTime: start + i * 300000 + 299999,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+}
+
+describe('agent replay backtest', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('feeds every candle through an isolated pipeline', () => {
+    const candles = genCandles(80);
+    const globalSend = jest.spyOn(orchestrator, 'send');
+    const replay = createAgentReplay(candles, 50);
+
+    replay.signalSource(candles, 79);
+
+    // one signal for the warmup batch plus at least one per closed candle
+    expect(replay.signals.length).toBeGreaterThanOrEqual(31);
+    expect(replay.signals[replay.signals.length - 1].timestamp).toBe(candles[79].time);
+    expect(globalSend).not.toHaveBeenCalled();
+  });
+
+  it('turns agent BUY signals into trades with agent stop/target levels', () => {
+    const candles = genCandles(120);
+    const result = runAgentBacktest({ candles });
+
+    expect(result.signals.some(s => s.action === 'BUY')).toBe(true);
+    expect(result.trades.length).toBeGreaterThan(0);
+    expect(result.trades.every(t => t.direction === 'long')).toBe(true);
+  });
+});
@@ -1,5 +1,8 @@
-import { computeMetrics } from '@/lib/backtesting/engine';
-import type { Trade } from '@/lib/backtesting/engine';
+import { computeMetrics, runBacktest } from '@/lib/backtesting/engine';
+import { fundingPeriods } from '@/lib/backtesting/costs';
+import { fetchSubCandles, resolveIntrabarExit, subCandleExit } from '@/lib/backtesting/intrabar';
+import type { SignalSource, Trade } from '@/lib/backtesting/engine';
+import type { Candle } from '@/lib/types';
 
 describe('computeMetrics', () => {
   it('calculates metrics correctly', () => {
@@ -17,4 +20,302 @@ describe('computeMetrics', () => {
     expect(metrics.netProfit).toBeCloseTo(7.11, 1);
     expect(metrics.maxDrawdown).toBeGreaterThan(0);
   });
+
+  it('derives risk statistics and return tables from trade timestamps', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const start = Date.UTC(2024, 0, 30);
+    const trade = (d: number, profit: number): Trade => ({
+      entryTime: start + d * day,
+      exitTime: start + d * day + 2 * 60 * 60 * 1000,
+      entryPrice: 100,
+      exitPrice: 100 * (1 + profit),
+      direction: 'long',
+      profit,
+      risk: 0.01,
+    });
+    const trades = [trade(0, 0.02), trade(1, 0.01), trade(2, -0.01), trade(3, -0.01), trade(4, -0.005)];
+    const equity = [1000, 1020, 1030.2, 1019.9, 1009.7, 1004.65];
+    const metrics = computeMetrics(trades, equity, 1000);
+
+    expect(metrics.expectancyR).toBeCloseTo(0.1, 5);
+    expect(metrics.avgHoldingTime).toBe(2 * 60 * 60 * 1000);
+    expect(metrics.maxConsecutiveWins).toBe(2);
+    expect(metrics.maxConsecutiveLosses).toBe(3);
+    expect(metrics.timeUnderWater).toBeCloseTo(50, 5);
+    expect(metrics.sharpeRatio).toBeGreaterThan(0);
+    expect(metrics.sortinoRatio).toBeGreaterThan(metrics.sharpeRatio);
+    expect(metrics.calmarRatio).toBeGreaterThan(0);
+    // 5 x 2h held over the 98h between first entry and last exit
+    expect(metrics.exposurePct).toBeCloseTo((10 / 98) * 100, 5);
+    expect(metrics.dailyReturns).toHaveLength(5);
+    expect(metrics.dailyReturns[0]).toEqual({ period: '2024-01-30', return: expect.closeTo(2, 5) });
+    expect(metrics.monthlyReturns.map(r => r.period)).toEqual(['2024-01', '2024-02']);
+    expect(metrics.monthlyReturns[0].return).toBeCloseTo(3.02, 5);
+  });
+
+  it('uses the exposure series when one is provided', () => {
+    const exposure = [0, 1, 1, 0].map((open, i) => ({ time: i, openPositions: open, notional: 0, exposurePct: 0 }));
+    const metrics = computeMetrics([], [1000], 1000, exposure);
+    expect(metrics.exposurePct).toBe(50);
+    expect(metrics.sharpeRatio).toBe(0);
+    expect(metrics.dailyReturns).toEqual([]);
+  });
+});
+
+describe('runBacktest cost model', () => {
+  const start = Date.UTC(2024, 0, 1);
+  const candles: Candle[] = Array.from({ length: 80 }, (_, i) => {
+    const close = 100 + i;
+    return {
+      time: start + i * 3600 * 1000,
+      open: close,
+      high: close + 3,
+      low: close - 0.5,
+      close,
+      volume: 100,
+      closeTime: start + i * 3600 * 1000 + 3599999,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps net equal to gross when no costs are configured', () => {
+    const { trades } = runBacktest({ candles });
+    expect(trades.length).toBeGreaterThan(0);
+    for (const t of trades) {
+      expect(t.profit).toBeCloseTo(t.grossProfit!, 10);
+    }
+  });
+
+  it('deducts fees and slippage from net profit', () => {
+    const gross = runBacktest({ candles });
+    const net = runBacktest({
+      candles,
+      costs: { makerFeeBps: 2, takerFeeBps: 5, slippage: { type: 'fixed', bps: 3 } },
+    });
+    expect(net.trades[0].grossProfit).toBeCloseTo(gross.trades[0].profit, 10);
+    expect(net.trades[0].profit).toBeLessThan(net.trades[0].grossProfit!);
+    expect(net.trades[0].costs!.fees).toBeCloseTo(0.0007, 4);
+    expect(net.trades[0].costs!.slippage).toBeGreaterThan(0);
+    expect(net.metrics.netProfit).toBeLessThan(gross.metrics.netProfit);
+  });
+
+  it('counts funding periods crossed while holding', () => {
+    const midnight = Date.UTC(2024, 0, 1);
+    const eightHours = 8 * 3600 * 1000;
+    expect(fundingPeriods(midnight, midnight + eightHours - 1)).toBe(0);
+    expect(fundingPeriods(midnight + eightHours - 1, midnight + eightHours * 3)).toBe(3);
+    // second-based timestamps are normalised
+    expect(fundingPeriods(midnight / 1000, (midnight + eightHours) / 1000)).toBe(1);
+  });
+});
+
+describe('resolveIntrabarExit', () => {
+  const bar = (time: number, high: number, low: number, closeTime = time + 59): Candle => ({
+    time,
+    open: 100,
+    high,
+    low,
+    close: 100,
+    volume: 1,
+    closeTime,
+    quoteAssetVolume: 100,
+    trades: 1,
+    takerBuyBaseAssetVolume: 0.5,
+    takerBuyQuoteAssetVolume: 50,
+  });
+  const fiveMinute = bar(0, 110, 90, 299);
+
+  it('applies the fixed policies', () => {
+    expect(resolveIntrabarExit(fiveMinute, 'long', 95, 105, 'pessimistic')).toBe('stop');
+    expect(resolveIntrabarExit(fiveMinute, 'long', 95, 105, 'optimistic')).toBe('limit');
+  });
+
+  it('uses the first 1m candle that touches an exit', () => {
+    const subCandles = [bar(0, 101, 99), bar(60, 106, 100), bar(120, 100, 90)];
+    expect(resolveIntrabarExit(fiveMinute, 'long', 95, 105, 'subcandles', subCandles)).toBe('limit');
+    expect(resolveIntrabarExit(fiveMinute, 'short', 105, 95, 'subcandles', subCandles)).toBe('stop');
+  });
+
+  it('falls back to the stop without covering sub-candles', () => {
+    expect(resolveIntrabarExit(fiveMinute, 'long', 95, 105, 'subcandles', [bar(600, 120, 80)])).toBe('stop');
+    expect(subCandleExit(fiveMinute, 'long', 95, 105, [bar(600, 120, 80)])).toBeNull();
+  });
+});
+
+describe('fetchSubCandles', () => {
+  const MINUTE = 60 * 1000;
+  const start = Date.UTC(2023, 5, 1);
+  const fiveMinuteBar = (time: number): Candle => ({
+    time,
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100,
+    volume: 1,
+    closeTime: time + 5 * MINUTE - 1,
+    quoteAssetVolume: 100,
+    trades: 1,
+    takerBuyBaseAssetVolume: 0.5,
+    takerBuyQuoteAssetVolume: 50,
+  });
+
+  it('pages 1m candles for the requested bars only', async () => {
+    // Serves up to 1000 klines opening in [startTime, endTime]
+    const fetchMock = jest.fn(async (url: string) => {
+      const params = new URLSearchParams(url.split('?')[1]);
+      const from = Number(params.get('startTime'));
+      const to = Number(params.get('endTime'));
+      const count = Math.min(1000, Math.floor((to - from) / MINUTE) + 1);
+      const klines = Array.from({ length: count }, (_, i) => {
+        const time = from + i * MINUTE;
+        return [time, '100', '101', '99', '100', '1', time + MINUTE - 1, '100', 1, '0.5', '50'];
+      });
+      return { ok: true, json: async () => klines };
+    });
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    // 201 touching bars (1005 minutes, two pages) and one bar a day later
+    const bars = [...Array.from({ length: 201 }, (_, i) => fiveMinuteBar(start + i * 5 * MINUTE)), fiveMinuteBar(start + 1440 * MINUTE)];
+    const subCandles = await fetchSubCandles(bars, 'ETHUSDT');
+    global.fetch = originalFetch;
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      `/api/binance-proxy/klines?symbol=ETHUSDT&interval=1m&limit=1000&startTime=${start}&endTime=${start + 1005 * MINUTE - 1}`,
+      `/api/binance-proxy/klines?symbol=ETHUSDT&interval=1m&limit=1000&startTime=${start + 1000 * MINUTE}&endTime=${start + 1005 * MINUTE - 1}`,
+      `/api/binance-proxy/klines?symbol=ETHUSDT&interval=1m&limit=1000&startTime=${start + 1440 * MINUTE}&endTime=${start + 1445 * MINUTE - 1}`,
+    ]);
+    expect(subCandles).toHaveLength(1010);
+    expect(subCandles[subCandles.length - 1].time).toBe(start + 1444 * MINUTE);
+  });
+});
+
+describe('runBacktest positions', () => {
+  const start = Date.UTC(2024, 0, 1);
+  // slow grind up: targets are far away so positions stay open
+  const candles: Candle[] = Array.from({ length: 80 }, (_, i) => {
+    const close = 100 + i * 0.1;
+    return {
+      time: start + i * 300000,
+      open: close,
+      high: close + 0.05,
+      low: close - 0.05,
+      close,
+      volume: 100,
+      closeTime: start + i * 300000 + 299999,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('holds a single position by default and reports exposure per candle', () => {
+    const result = runBacktest({ candles });
+    expect(result.exposure).toHaveLength(30);
+    expect(Math.max(...result.exposure.map(e => e.openPositions))).toBe(1);
+    expect(result.exposure[0].exposurePct).toBeCloseTo(100, 0);
+  });
+
+  it('scales in on repeated signals when pyramiding is enabled', () => {
+    const result = runBacktest({ candles, maxPositions: 3, pyramiding: true });
+    expect(Math.max(...result.exposure.map(e => e.openPositions))).toBe(3);
+
+    const blocked = runBacktest({ candles, maxPositions: 3 });
+    expect(Math.max(...blocked.exposure.map(e => e.openPositions))).toBe(1);
+  });
+
+  it('takes partial profits and keeps per-position accounting', () => {
+    const result = runBacktest({
+      candles,
+      stopLossPct: 0.001,
+      takeProfitPct: 0.004,
+      partialTakeProfits: [{ rMultiple: 1, fraction: 0.5 }],
+    });
+    const partial = result.trades.find(t => t.exitReason === 'partial')!;
+    expect(partial).toBeDefined();
+    const siblings = result.trades.filter(t => t.positionId === partial.positionId);
+    expect(siblings.length).toBe(2);
+    expect(siblings[0].quantity).toBeCloseTo(siblings[1].quantity!, 8);
+    const pnl = result.trades.reduce((sum, t) => sum + t.pnl!, 0);
+    expect(result.metrics.netProfit).toBeCloseTo(pnl, 6);
+    // The partial and the rest of its position count as one trade
+    expect(result.metrics.totalTrades).toBe(new Set(result.trades.map(t => t.positionId)).size);
+    expect(result.metrics.totalTrades).toBeLessThan(result.trades.length);
+  });
+
+  // Goes long on every candle with a stop one unit below the close
+  const longWithStop: SignalSource = (history, i) => ({ direction: 'long', confidence: 70, stopLoss: history[i].close - 1 });
+
+  it('sizes positions in risk mode from the stop the backtest uses', () => {
+    const result = runBacktest({ candles, sizing: 'risk', signalSource: longWithStop });
+    // PositionSizer risks 0.5% of 1000 at 70% confidence in a ranging market: 5 / 1 per unit
+    expect(result.exposure[0].notional / candles[50].close).toBeCloseTo(5, 8);
+    expect(result.skippedEntries).toBe(0);
+  });
+
+  it('reports ambiguous bars that sub-candles did not resolve', () => {
+    // Every bar spans both the stop and the target of a position opened on the bar before
+    const wide = candles.map(c => ({ ...c, high: c.close + 2, low: c.close - 2 }));
+    const signalSource: SignalSource = (history, i) => ({
+      direction: 'long',
+      confidence: 70,
+      stopLoss: history[i].close - 1,
+      takeProfit: history[i].close + 1,
+    });
+    const result = runBacktest({ candles: wide, signalSource, fillPolicy: 'subcandles', cooldownCandles: 0 });
+    expect(result.ambiguousBars).toBeGreaterThan(0);
+    expect(result.ambiguousBarTimes).toContain(wide[51].time);
+    expect(result.subCandleFallbacks).toBe(result.ambiguousBars);
+
+    const pessimistic = runBacktest({ candles: wide, signalSource, cooldownCandles: 0 });
+    expect(pessimistic.subCandleFallbacks).toBe(0);
+  });
+
+  it('stops out the rest of a position in the bar where a partial filled first', () => {
+    // The bar after entry spans the 1R partial and the stop but not the final target
+    const wide = candles.map(c => ({ ...c, high: c.close + 2, low: c.close - 2 }));
+    const signalSource: SignalSource = (history, i) => ({
+      direction: 'long',
+      confidence: 70,
+      stopLoss: history[i].close - 1,
+      takeProfit: history[i].close + 3,
+    });
+    const result = runBacktest({
+      candles: wide,
+      signalSource,
+      fillPolicy: 'optimistic',
+      partialTakeProfits: [{ rMultiple: 1, fraction: 0.5 }],
+    });
+    const first = result.trades.filter(t => t.positionId === result.trades[0].positionId);
+    expect(first.map(t => t.exitReason)).toEqual(['partial', 'stop']);
+    expect(first[1].exitTime).toBe(first[0].exitTime);
+    expect(first[1].exitPrice).toBeCloseTo(wide[50].close - 1, 8);
+    expect(first[1].quantity).toBeCloseTo(first[0].quantity!, 8);
+  });
+
+  it('skips and reports entries below the minimum quantity', () => {
+    const result = runBacktest({ candles, sizing: 'risk', signalSource: longWithStop, minQuantity: 10 });
+    expect(result.trades).toHaveLength(0);
+    expect(result.skippedEntries).toBeGreaterThan(0);
+  });
 });
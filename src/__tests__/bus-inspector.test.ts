@@ -0,0 +1,109 @@
+import { DeliveryReport, OrchestratorService } from '@/lib/agents/Orchestrator';
+import { BusInspector, diffPayload } from '@/lib/agents/inspector';
+
+const status = (connected: boolean, message: string) => ({
+  from: 'DataCollector' as const,
+  type: 'WEBSOCKET_STATUS' as const,
+  payload: { connected, message, timestamp: 0 },
+  timestamp: 0,
+});
+
+describe('bus inspector', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps message types to named subscribers', () => {
+    const bus = new OrchestratorService();
+    const unsubscribe = bus.register('DATA_READY', () => undefined, 'UI');
+    bus.register('DATA_READY', () => undefined);
+    bus.register('WEBSOCKET_STATUS', () => undefined, 'useCandleData');
+
+    expect(bus.getSubscriberMap()).toEqual({
+      DATA_READY: ['UI', 'anonymous'],
+      WEBSOCKET_STATUS: ['useCandleData'],
+    });
+
+    unsubscribe();
+    expect(bus.getSubscriberMap().DATA_READY).toEqual(['anonymous']);
+  });
+
+  it('reports handler timings and failures after delivery', () => {
+    const bus = new OrchestratorService();
+    bus.register('WEBSOCKET_STATUS', () => undefined, 'UI');
+    bus.register(
+      'WEBSOCKET_STATUS',
+      () => {
+        throw new Error('boom');
+      },
+      'SimpleCandleChart'
+    );
+    const reports: DeliveryReport[] = [];
+    bus.onDelivered(report => reports.push(report));
+
+    bus.send(status(true, 'ok'));
+
+    // the failure is also published as AGENT_ERROR, delivered before the failing message finishes
+    expect(reports.map(r => r.message.type)).toEqual(['AGENT_ERROR', 'WEBSOCKET_STATUS']);
+    expect(reports[1].handlers.map(h => [h.subscriber, h.error])).toEqual([
+      ['UI', undefined],
+      ['SimpleCandleChart', 'boom'],
+    ]);
+    expect(reports[1].totalMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('records messages with diffs, timings and filters', () => {
+    const bus = new OrchestratorService();
+    bus.register('WEBSOCKET_STATUS', () => undefined, 'UI');
+    const inspector = new BusInspector(bus);
+    inspector.start();
+
+    bus.send(status(true, 'connected'));
+    bus.send(status(false, 'connected'));
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 0 });
+
+    const [latest, second, first] = inspector.getMessages();
+    expect(latest.message.type).toBe('MANUAL_DATA_REFRESH_REQUEST');
+    expect(first.diff).toBeNull();
+    expect(second.diff).toEqual([{ path: 'connected', before: true, after: false }]);
+    expect(second.handlers?.map(h => h.subscriber)).toEqual(['UI']);
+    expect(inspector.getMessages({ from: 'UI' })).toEqual([latest]);
+    expect(inspector.getMessages({ type: 'WEBSOCKET_STATUS' })).toHaveLength(2);
+
+    inspector.stop();
+    bus.send(status(true, 'again'));
+    expect(inspector.getMessages()).toHaveLength(3);
+  });
+
+  it('computes per-type throughput over the window', () => {
+    let clock = 0;
+    const bus = new OrchestratorService();
+    const inspector = new BusInspector(bus, { throughputWindowMs: 30000, now: () => clock });
+    inspector.start();
+
+    bus.send(status(true, 'a'));
+    clock = 40000;
+    bus.send(status(true, 'b'));
+    bus.send(status(true, 'c'));
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 0 });
+
+    expect(inspector.getThroughput().map(t => [t.type, t.count, t.perMinute])).toEqual([
+      ['WEBSOCKET_STATUS', 2, 4],
+      ['MANUAL_DATA_REFRESH_REQUEST', 1, 2],
+    ]);
+  });
+
+  it('diffs nested payloads and array lengths', () => {
+    expect(diffPayload({ a: [1, 2], b: { c: 1 } }, { a: [1, 3, 4], b: { c: 1 } })).toEqual([
+      { path: 'a.length', before: 2, after: 3 },
+      { path: 'a.1', before: 2, after: 3 },
+    ]);
+    expect(diffPayload('x', 'y')).toEqual([{ path: '', before: 'x', after: 'y' }]);
+    expect(diffPayload(Array.from({ length: 100 }, () => 0), Array.from({ length: 100 }, () => 1))).toHaveLength(50);
+  });
+});
@@ -0,0 +1,151 @@
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { IndicatorEngineAgent } from '@/lib/agents/IndicatorEngine';
+import { timeframeOf } from '@/lib/agents/timeframes';
+import type { AgentMessage } from '@/lib/agents/types';
+import { fetchCandleHistory } from '@/lib/backtesting/history';
+import { aggregateCandles, canAggregate, CandleAggregator, intervalMs } from '@/lib/candle-aggregator';
+import type { Candle } from '@/lib/types';
+
+const DAY = Date.UTC(2024, 0, 1);
+const MINUTE = 60 * 1000;
+
+function minuteCandle(minute: number, close = 100 + minute, volume = 1): Candle {
+  const time = DAY + minute * MINUTE;
+  return {
+    time,
+    open: close - 0.5,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume,
+    closeTime: time + MINUTE - 1,
+    quoteAssetVolume: close * volume,
+    trades: 2,
+    takerBuyBaseAssetVolume: volume / 4,
+    takerBuyQuoteAssetVolume: (close * volume) / 4,
+  };
+}
+
+const minutes = (from: number, count: number) => Array.from({ length: count }, (_, i) => minuteCandle(from + i));
+
+describe('candle aggregator', () => {
+  it('parses intervals and checks which ones can be built', () => {
+    expect(['3m', '10m', '4h', '1d'].map(interval => intervalMs(interval as '3m'))).toEqual([
+      3 * MINUTE,
+      10 * MINUTE,
+      240 * MINUTE,
+      1440 * MINUTE,
+    ]);
+    expect(() => intervalMs('0m' as '1m')).toThrow('Invalid candle interval');
+    expect(canAggregate('1m', '3m')).toBe(true);
+    expect(canAggregate('5m', '3m')).toBe(false);
+    expect(canAggregate('5m', '4h')).toBe(true);
+    expect(canAggregate('15m', '10m')).toBe(false);
+  });
+
+  it('sums every volume field and aligns bars to UTC', () => {
+    const bars = aggregateCandles(minutes(0, 24 * 60), '4h');
+
+    expect(bars).toHaveLength(6);
+    expect(bars.map(bar => new Date(bar.time).getUTCHours())).toEqual([0, 4, 8, 12, 16, 20]);
+    expect(bars[1]).toMatchObject({
+      open: 339.5,
+      close: 579,
+      high: 580,
+      low: 339,
+      volume: 240,
+      trades: 480,
+      takerBuyBaseAssetVolume: 60,
+      closeTime: DAY + 8 * 60 * MINUTE - 1,
+    });
+    expect(bars[1].quoteAssetVolume).toBeCloseTo(minutes(240, 240).reduce((sum, c) => sum + c.quoteAssetVolume, 0));
+    expect(aggregateCandles(minutes(0, 1440), '1d')).toHaveLength(1);
+  });
+
+  it('drops an unfinished last bar on request', () => {
+    expect(aggregateCandles(minutes(0, 8), '3m').map(bar => bar.volume)).toEqual([3, 3, 2]);
+    expect(aggregateCandles(minutes(0, 8), '3m', { closedOnly: true }).map(bar => bar.volume)).toEqual([3, 3]);
+    expect(aggregateCandles(minutes(0, 9), '3m', { closedOnly: true })).toHaveLength(3);
+  });
+
+  it('streams the bar in progress without double counting updates', () => {
+    const aggregator = new CandleAggregator('3m');
+
+    expect(aggregator.update(minuteCandle(0, 100, 1), true)).toEqual([
+      { bar: expect.objectContaining({ volume: 1 }), isClosed: false },
+    ]);
+    aggregator.update(minuteCandle(1, 101, 1), false);
+    const [{ bar: updated }] = aggregator.update(minuteCandle(1, 103, 2), false);
+    expect(updated).toMatchObject({ volume: 3, close: 103, high: 104 });
+
+    aggregator.update(minuteCandle(1, 103, 2), true);
+    const [closed] = aggregator.update(minuteCandle(2, 102, 1), true);
+    expect(closed).toEqual({ bar: expect.objectContaining({ time: DAY, volume: 4, close: 102 }), isClosed: true });
+    expect(aggregator.current()).toBeNull();
+
+    // A repeated candle of the closed bar is ignored
+    expect(aggregator.update(minuteCandle(2, 102, 1), true)).toEqual([]);
+
+    // Skipping straight to a later bar closes the one in progress
+    aggregator.update(minuteCandle(3), true);
+    const changed = aggregator.update(minuteCandle(7), false);
+    expect(changed.map(({ bar, isClosed }) => [(bar.time - DAY) / MINUTE, isClosed])).toEqual([
+      [3, true],
+      [6, false],
+    ]);
+    expect(() => new CandleAggregator('3m', '5m')).toThrow('Cannot build 3m candles from 5m candles');
+  });
+
+  it('seeds from history and keeps the newest bar in progress', () => {
+    const aggregator = new CandleAggregator('10m');
+    const bars = aggregator.seed(minutes(0, 20));
+
+    expect(bars.map(bar => bar.volume)).toEqual([10]);
+    expect(aggregator.current()).toMatchObject({ time: DAY + 10 * MINUTE, volume: 10 });
+    expect(aggregator.update(minuteCandle(19), true)).toEqual([
+      { bar: expect.objectContaining({ volume: 10 }), isClosed: true },
+    ]);
+  });
+
+  it('builds backtest history for intervals the archive does not store', async () => {
+    const fetchMock = jest.fn(async (url: string) => ({
+      ok: true,
+      json: async () => ({ timeframe: '15m', candles: aggregateCandles(minutes(0, 95), '15m'), gaps: [] }),
+      url,
+    }));
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const history = await fetchCandleHistory('30m', DAY + 7 * MINUTE, DAY + 95 * MINUTE);
+
+    expect(fetchMock.mock.calls[0][0]).toBe(`/api/candles/history?timeframe=15m&from=${DAY}&to=${DAY + 95 * MINUTE}`);
+    expect(history.timeframe).toBe('30m');
+    expect(history.candles.map(bar => bar.volume)).toEqual([30, 30, 30]);
+
+    await fetchCandleHistory('7m', DAY, DAY + MINUTE);
+    expect(fetchMock.mock.calls[1][0]).toContain('timeframe=1m');
+    global.fetch = originalFetch;
+  });
+
+  it('lets the indicator engine publish indicators for aggregated intervals', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const bus = new OrchestratorService();
+    const engine = new IndicatorEngineAgent(bus, ['30m']);
+    engine.start();
+    const ready: AgentMessage[] = [];
+    bus.register('INDICATORS_READY_HTF', message => {
+      ready.push(message);
+    });
+
+    const fiveMinute = aggregateCandles(minutes(0, 31 * 30), '5m');
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: fiveMinute.slice(0, -1), timestamp: 1 });
+    expect(ready).toHaveLength(1);
+    expect(timeframeOf(ready[0])).toBe('30m');
+    expect(ready[0].payload.timestamp).toBe(DAY + 29 * 30 * MINUTE);
+
+    bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: fiveMinute[fiveMinute.length - 1], timestamp: 2 });
+    expect(ready.map(message => message.payload.timestamp)).toEqual([DAY + 29 * 30 * MINUTE, DAY + 30 * 30 * MINUTE]);
+    engine.stop();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  fetchKlinesRange,
+  findGaps,
+  getArchivedCandles,
+  loadArchive,
+  mergeCandles,
+  saveArchive,
+} from '@/lib/candle-archive';
+import type { Candle } from '@/lib/types';
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2024, 0, 1);
+
+function candleAt(time: number, close = 100): Candle {
+  return {
+    time,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 10,
+    closeTime: time + MINUTE - 1,
+    quoteAssetVolume: close * 10,
+    trades: 5,
+    takerBuyBaseAssetVolume: 5,
+    takerBuyQuoteAssetVolume: close * 5,
+  };
+}
+
+function kline(time: number): (string | number)[] {
+  return [time, '100', '101', '99', '100', '10', time + MINUTE - 1, '1000', 5, '5', '500', '0'];
+}
+
+// Fake /api/v3/klines that serves 1m klines from startTime to endTime, capped at `limit`
+function fakeBinance(missing: Set<number> = new Set()) {
+  const calls: string[] = [];
+  const fetcher = jest.fn(async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    calls.push(url.search);
+    const from = Number(url.searchParams.get('startTime'));
+    const to = Number(url.searchParams.get('endTime'));
+    const limit = Number(url.searchParams.get('limit'));
+    const rows: (string | number)[][] = [];
+    for (let t = from; t <= to && rows.length < limit; t += MINUTE) {
+      if (!missing.has(t)) rows.push(kline(t));
+    }
+    return { ok: true, status: 200, json: async () => rows } as unknown as Response;
+  });
+  return { fetcher: fetcher as unknown as typeof fetch, calls };
+}
+
+describe('candle archive', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candle-archive-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds gaps inside and at the edges of a range', () => {
+    const candles = [2, 3, 6].map(i => candleAt(start + i * MINUTE));
+    expect(findGaps(candles, '1m', start, start + 8 * MINUTE)).toEqual([
+      { from: start, to: start + MINUTE },
+      { from: start + 4 * MINUTE, to: start + 5 * MINUTE },
+      { from: start + 7 * MINUTE, to: start + 8 * MINUTE },
+    ]);
+    expect(findGaps(candles, '1m', start + 2 * MINUTE, start + 3 * MINUTE)).toEqual([]);
+  });
+
+  it('merges candles by open time, preferring incoming data', () => {
+    const merged = mergeCandles([candleAt(start + MINUTE), candleAt(start, 1)], [candleAt(start, 2)]);
+    expect(merged.map(c => c.time)).toEqual([start, start + MINUTE]);
+    expect(merged[0].close).toBe(2);
+  });
+
+  it('pages through klines until the range is covered', async () => {
+    const { fetcher, calls } = fakeBinance();
+    const candles = await fetchKlinesRange('1m', start, start + 2499 * MINUTE, { fetcher });
+    expect(candles).toHaveLength(2500);
+    expect(calls).toHaveLength(3);
+    expect(candles[1000].time).toBe(start + 1000 * MINUTE);
+  });
+
+  it('backfills only the missing ranges and persists them', async () => {
+    saveArchive([0, 1, 2, 5].map(i => candleAt(start + i * MINUTE)), '1m', { dir });
+    const { fetcher, calls } = fakeBinance();
+
+    const result = await getArchivedCandles('1m', start, start + 6 * MINUTE, { dir, fetcher });
+
+    expect(result.candles.map(c => (c.time - start) / MINUTE)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(result.gaps).toEqual([]);
+    expect(calls).toHaveLength(2);
+    expect(loadArchive('1m', { dir })).toHaveLength(7);
+
+    // a second request for the same range is served from disk
+    await getArchivedCandles('1m', start, start + 6 * MINUTE, { dir, fetcher });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('reports gaps the exchange cannot fill', async () => {
+    const { fetcher } = fakeBinance(new Set([start + 2 * MINUTE]));
+    const result = await getArchivedCandles('1m', start, start + 4 * MINUTE, { dir, fetcher });
+    expect(result.candles).toHaveLength(4);
+    expect(result.gaps).toEqual([{ from: start + 2 * MINUTE, to: start + 2 * MINUTE }]);
+  });
+});
@@ -0,0 +1,45 @@
+/** @jest-environment jsdom */
+import { act, renderHook } from '@testing-library/react';
+import { useCandleData } from '@/hooks/useCandleData';
+import { orchestrator } from '@/lib/agents/Orchestrator';
+import type { Candle } from '@/lib/types';
+
+const MINUTE = 60 * 1000;
+
+const candle = (i: number): Candle => ({
+  time: i * 5 * MINUTE,
+  open: 100 + i,
+  high: 101 + i,
+  low: 99 + i,
+  close: 100 + i,
+  volume: 10,
+  closeTime: (i + 1) * 5 * MINUTE - 1,
+  quoteAssetVolume: 0,
+  trades: 0,
+  takerBuyBaseAssetVolume: 0,
+  takerBuyQuoteAssetVolume: 0,
+});
+
+describe('useCandleData', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ignores candles for other symbols', () => {
+    const { result, unmount } = renderHook(() => useCandleData());
+
+    act(() => {
+      orchestrator.send({ from: 'DataCollector', symbol: 'BTCUSDT', type: 'INITIAL_CANDLES_5M', payload: [candle(0), candle(1)], timestamp: 1 });
+      orchestrator.send({ from: 'DataCollector', symbol: 'ETHUSDT', type: 'INITIAL_CANDLES_5M', payload: [candle(50)], timestamp: 2 });
+      orchestrator.send({ from: 'DataCollector', symbol: 'ETHUSDT', type: 'NEW_CLOSED_CANDLE_5M', payload: candle(51), timestamp: 3 });
+      orchestrator.send({ from: 'DataCollector', symbol: 'ETHUSDT', type: 'LIVE_CANDLE_UPDATE_5M', payload: candle(1), timestamp: 4 });
+    });
+
+    expect(result.current.candles).toEqual([candle(0), candle(1)]);
+    unmount();
+  });
+});
@@ -0,0 +1,66 @@
+import { importCandlesCsv, parseBinanceKlineCsv, parseOhlcvCsv, validateCandles } from '@/lib/backtesting/csv-import';
+
+const t0 = Date.UTC(2024, 0, 1);
+
+describe('CSV candle import', () => {
+  it('parses Binance kline dumps with and without a header', () => {
+    const rows = [
+      `${t0},100,101,99,100.5,12,${t0 + 59999},1206,30,6,603,0`,
+      `${t0 + 60000},100.5,102,100,101,8,${t0 + 119999},808,20,4,404,0`,
+    ];
+    const header = 'open_time,open,high,low,close,volume,close_time,quote_volume,count,taker_buy_volume,taker_buy_quote_volume,ignore';
+
+    const plain = parseBinanceKlineCsv(rows.join('\n'));
+    const withHeader = parseBinanceKlineCsv([header, ...rows].join('\r\n'));
+
+    expect(plain).toEqual(withHeader);
+    expect(plain).toHaveLength(2);
+    expect(plain[0]).toMatchObject({ time: t0, close: 100.5, closeTime: t0 + 59999, trades: 30 });
+  });
+
+  it('converts microsecond timestamps from newer Binance dumps', () => {
+    const [candle] = parseBinanceKlineCsv(`${t0 * 1000},100,101,99,100,1,${(t0 + 59999) * 1000 + 999},100,1,0,0,0`);
+    expect(candle.time).toBe(t0);
+    expect(candle.closeTime).toBe(t0 + 59999);
+  });
+
+  it('maps generic OHLCV columns and derives close times', () => {
+    const csv = [
+      'Date;Close;High;Low;Open;Vol',
+      '2024-01-01T00:00:00Z;101;102;99;100;5',
+      '2024-01-01T01:00:00Z;103;104;100;101;7',
+    ].join('\n');
+    const candles = parseOhlcvCsv(
+      csv,
+      { time: 'date', open: 'open', high: 'high', low: 'low', close: 'close', volume: 'vol' },
+      ';'
+    );
+    expect(candles[1]).toMatchObject({ time: t0 + 3600000, open: 101, close: 103, volume: 7 });
+    expect(candles[0].closeTime).toBe(t0 + 3599999);
+  });
+
+  it('rejects a mapping that does not match the header', () => {
+    expect(() => parseOhlcvCsv('time,open,high,low,close\n1,1,1,1,1')).toThrow(/volume/);
+  });
+
+  it('flags out-of-order timestamps and inconsistent OHLC values', () => {
+    const { candles, issues } = importCandlesCsv(
+      [
+        'time,open,high,low,close,volume',
+        `${t0 + 60000},100,101,99,100,1`,
+        `${t0},100,101,99,100,1`,
+        `${t0 + 120000},100,99,98,100,1`,
+      ].join('\n'),
+      { format: 'ohlcv' }
+    );
+    expect(candles).toHaveLength(3);
+    expect(issues.map(i => i.index)).toEqual([1, 2]);
+    expect(issues[0].message).toMatch(/not after/);
+    expect(issues[1].message).toMatch(/high-low/);
+  });
+
+  it('accepts a clean series', () => {
+    const candles = parseBinanceKlineCsv(`${t0},100,101,99,100,1,${t0 + 59999},100,1,0,0,0`);
+    expect(validateCandles(candles)).toEqual([]);
+  });
+});
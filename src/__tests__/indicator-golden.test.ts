@@ -0,0 +1,113 @@
+import {
+  atrSeries,
+  bollingerBandsSeries,
+  emaSeries,
+  macdSeries,
+  rsiSeries,
+  smaSeries,
+  trueRangeSeries,
+} from '@/lib/indicators';
+import type { Candle } from '@/lib/types';
+
+/**
+ * Reference values from the worked examples in StockCharts' ChartSchool (moving averages, RSI,
+ * ATR), published rounded to cents, plus small series worked out by hand.
+ */
+
+const candle = (close: number, high = close, low = close): Candle => ({
+  time: 0,
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1,
+  closeTime: 0,
+  quoteAssetVolume: 0,
+  trades: 0,
+  takerBuyBaseAssetVolume: 0,
+  takerBuyQuoteAssetVolume: 0,
+});
+
+/** Published tables are rounded to cents, and the EMA one compounds the rounding */
+function expectRounded(actual: number[], expected: number[]) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(0.01));
+}
+
+const MA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61, 23.36,
+  24.05, 23.75, 23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17,
+];
+
+const RSI_CLOSES = [
+  44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826, 45.8931, 46.0328,
+  45.614, 46.282, 46.282, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439, 46.2122, 46.2521, 45.7137, 46.4515,
+  45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672, 43.4205, 42.6628, 43.1314,
+];
+
+const ATR_CANDLES = [
+  [48.7, 47.79, 48.16], [48.72, 48.14, 48.61], [48.9, 48.39, 48.75], [48.87, 48.37, 48.63], [48.82, 48.24, 48.74],
+  [49.05, 48.64, 49.03], [49.2, 48.94, 49.07], [49.35, 48.86, 49.32], [49.92, 49.5, 49.91], [50.19, 49.87, 50.13],
+  [50.12, 49.2, 49.53], [49.66, 48.9, 49.5], [49.88, 49.43, 49.75], [50.19, 49.73, 50.03], [50.36, 49.26, 50.31],
+  [50.57, 50.09, 50.52], [50.65, 50.3, 50.41],
+].map(([high, low, close]) => candle(close, high, low));
+
+describe('indicator golden values', () => {
+  it('matches the published 10-day SMA and EMA', () => {
+    expect(smaSeries(MA_CLOSES, 10).slice(0, 9).every(isNaN)).toBe(true);
+    expectRounded(smaSeries(MA_CLOSES, 10).slice(9), [
+      22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21, 23.38, 23.53, 23.65, 23.71,
+      23.69, 23.61, 23.51, 23.43, 23.28, 23.13,
+    ]);
+    expectRounded(emaSeries(MA_CLOSES, 10).slice(9), [
+      22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.8, 22.97, 23.13, 23.28, 23.34, 23.43, 23.51, 23.54, 23.47,
+      23.4, 23.39, 23.26, 23.23, 23.08, 22.92,
+    ]);
+  });
+
+  it('matches the published 14-day Wilder RSI', () => {
+    const series = rsiSeries(RSI_CLOSES.map(close => candle(close)), 14);
+    expect(series.slice(0, 14).every(isNaN)).toBe(true);
+    expectRounded(series.slice(14), [
+      70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+      45.46, 37.3, 33.08, 37.77,
+    ]);
+  });
+
+  it('matches the published true ranges and 14-day ATR', () => {
+    expectRounded(trueRangeSeries(ATR_CANDLES).slice(0, 5), [0.91, 0.58, 0.51, 0.5, 0.58]);
+    const series = atrSeries(ATR_CANDLES, 14);
+    expect(series.slice(0, 13).every(isNaN)).toBe(true);
+    expectRounded(series.slice(13), [0.55, 0.59, 0.59, 0.57]);
+  });
+
+  it('smooths RSI the Wilder or the simple way', () => {
+    // Changes +1, -1, +1, +1
+    const candles = [1, 2, 1, 2, 3].map(close => candle(close));
+    expect(rsiSeries(candles, 2)).toEqual([NaN, NaN, 50, 75, 87.5]);
+    expect(rsiSeries(candles, 2, 'simple')).toEqual([NaN, NaN, 50, 50, 100]);
+    expect(rsiSeries([5, 5, 5].map(close => candle(close)), 2)[2]).toBe(50);
+  });
+
+  it('smooths ATR the Wilder or the simple way', () => {
+    // True ranges 2, 3, 1, 4 around an unchanged close
+    const candles = [1, 1.5, 0.5, 2].map(half => candle(10, 10 + half, 10 - half));
+    expect(atrSeries(candles, 2)).toEqual([NaN, 2.5, 1.75, 2.875]);
+    expect(atrSeries(candles, 2, 'simple')).toEqual([NaN, 2.5, 2, 2.5]);
+  });
+
+  it('calculates Bollinger Bands and MACD for every candle', () => {
+    const closes = [1, 2, 3, 4, 5];
+    const bands = bollingerBandsSeries(closes.map(close => candle(close)), 5, 2);
+    expect(bands[3]).toEqual({ upper: NaN, middle: NaN, lower: NaN });
+    expect(bands[4].middle).toBe(3);
+    expect(bands[4].upper).toBeCloseTo(3 + 2 * Math.sqrt(2), 10);
+
+    // On a linear series every SMA-seeded EMA lags by (period - 1) / 2, so MACD is constant
+    const series = macdSeries(Array.from({ length: 40 }, (_, i) => candle(i + 1)), 12, 26, 9);
+    expect(isNaN(series[24].macd)).toBe(true);
+    expect(series[25].macd).toBeCloseTo(7, 10);
+    expect(isNaN(series[32].signal)).toBe(true);
+    expect(series[33]).toEqual({ macd: expect.closeTo(7, 10), signal: expect.closeTo(7, 10), histogram: expect.closeTo(0, 10) });
+  });
+});
@@ -0,0 +1,130 @@
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { IndicatorEngineAgent, PREVIEW_THROTTLE_MS } from '@/lib/agents/IndicatorEngine';
+import { validateMessage } from '@/lib/agents/messages';
+import { UIAdapterService } from '@/lib/agents/UIAdapter';
+import type { AgentMessage, IndicatorDataSet, IndicatorPreview } from '@/lib/agents/types';
+import { candleEMA } from '@/lib/indicators/moving-averages';
+import { rsi } from '@/lib/indicators/oscillators';
+import { bollingerBands } from '@/lib/indicators/volatility';
+import type { Candle } from '@/lib/types';
+
+const MINUTE = 60 * 1000;
+
+const candles: Candle[] = Array.from({ length: 60 }, (_, i) => {
+  const close = 100 + Math.sin(i / 3) * 4 + i * 0.1;
+  return {
+    time: i * 5 * MINUTE,
+    open: close - 0.5,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 10 + (i % 5),
+    closeTime: (i + 1) * 5 * MINUTE - 1,
+    quoteAssetVolume: 0,
+    trades: 0,
+    takerBuyBaseAssetVolume: 0,
+    takerBuyQuoteAssetVolume: 0,
+  };
+});
+
+const history = candles.slice(0, 59);
+const forming = (close: number): Candle => ({ ...candles[59], close, high: Math.max(candles[59].high, close) });
+
+describe('indicator previews', () => {
+  let bus: OrchestratorService;
+  let engine: IndicatorEngineAgent;
+  let ready: AgentMessage<IndicatorDataSet>[];
+  let previews: AgentMessage<IndicatorPreview>[];
+
+  const live = (candle: Candle, isClosed = false) =>
+    bus.send({ from: 'DataCollector', type: 'LIVE_CANDLE_UPDATE_5M', payload: { ...candle, isClosed }, timestamp: Date.now() });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    bus = new OrchestratorService();
+    engine = new IndicatorEngineAgent(bus);
+    engine.start();
+    ready = [];
+    previews = [];
+    bus.register('INDICATORS_READY_5M', message => {
+      ready.push(message);
+    });
+    bus.register('INDICATORS_PREVIEW_5M', message => {
+      previews.push(message);
+    });
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: history, timestamp: 1 });
+  });
+
+  afterEach(() => {
+    engine.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('calculates the forming bar as if it closed now without changing the confirmed series', () => {
+    const candle = forming(110);
+    live(candle);
+
+    const withForming = [...history, candle];
+    const bands = bollingerBands(withForming, 20, 2);
+    expect(previews).toHaveLength(1);
+    expect(previews[0].payload).toMatchObject({
+      provisional: true,
+      emaFast: candleEMA(withForming, 9),
+      rsi: rsi(withForming, 14),
+      bbUpper: bands.upper,
+      currentPrice: 110,
+      timestamp: candle.time,
+    });
+    expect(validateMessage('INDICATORS_PREVIEW_5M', previews[0].payload)).toBeNull();
+    expect(validateMessage('INDICATORS_PREVIEW_5M', ready[0].payload)).not.toBeNull();
+
+    bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: candles[59], timestamp: 2 });
+    expect(ready[ready.length - 1].payload).toMatchObject({
+      emaFast: candleEMA(candles, 9),
+      rsi: rsi(candles, 14),
+    });
+  });
+
+  it('throttles previews and sends the newest update when the next slot opens', () => {
+    live(forming(101));
+    live(forming(102));
+    live(forming(103));
+    expect(previews.map(({ payload }) => payload.currentPrice)).toEqual([101]);
+
+    jest.advanceTimersByTime(PREVIEW_THROTTLE_MS);
+    expect(previews.map(({ payload }) => payload.currentPrice)).toEqual([101, 103]);
+
+    jest.advanceTimersByTime(PREVIEW_THROTTLE_MS * 2);
+    expect(previews).toHaveLength(2);
+  });
+
+  it('drops a pending preview when the bar closes and ignores updates for closed bars', () => {
+    live(forming(101));
+    live(forming(102));
+    bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: candles[59], timestamp: 2 });
+    jest.advanceTimersByTime(PREVIEW_THROTTLE_MS);
+    live(forming(104));
+    live(candles[59], true);
+
+    expect(previews.map(({ payload }) => payload.currentPrice)).toEqual([101]);
+  });
+
+  it('shows the preview in the UI until confirmed values for its bar arrive', () => {
+    const ui = new UIAdapterService(bus);
+    ui.start();
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: history, timestamp: 1 });
+    live(forming(110));
+    expect(ui.getState().indicatorPreview).toMatchObject({ provisional: true, currentPrice: 110 });
+
+    bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: candles[59], timestamp: 2 });
+    expect(ui.getState().indicatorPreview).toBeNull();
+    expect(ui.getState().latestIndicators?.timestamp).toBe(candles[59].time);
+
+    // A stale preview (e.g. replayed to a tab that joins late) does not come back
+    bus.send({ from: 'IndicatorEngine', type: 'INDICATORS_PREVIEW_5M', payload: previews[0].payload, timestamp: 3 });
+    expect(ui.getState().indicatorPreview).toBeNull();
+    ui.stop();
+  });
+});
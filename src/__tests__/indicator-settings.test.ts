@@ -0,0 +1,133 @@
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { IndicatorEngineAgent } from '@/lib/agents/IndicatorEngine';
+import { validateMessage } from '@/lib/agents/messages';
+import { ServerAgentRuntime } from '@/lib/agents/server-runtime';
+import type { AgentMessage } from '@/lib/agents/types';
+import { DEFAULT_INDICATOR_SETTINGS, IndicatorSetting, normalizeIndicatorSettings } from '@/lib/indicators/catalog';
+import { candleEMA, vwap } from '@/lib/indicators/moving-averages';
+import { macd } from '@/lib/indicators/oscillators';
+import type { Candle } from '@/lib/types';
+
+const MINUTE = 60 * 1000;
+
+const candles: Candle[] = Array.from({ length: 80 }, (_, i) => {
+  const close = 100 + Math.sin(i / 4) * 5 + i * 0.2;
+  return {
+    time: i * 5 * MINUTE,
+    open: close - 0.5,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 10 + (i % 7),
+    closeTime: (i + 1) * 5 * MINUTE - 1,
+    quoteAssetVolume: 0,
+    trades: 0,
+    takerBuyBaseAssetVolume: 0,
+    takerBuyQuoteAssetVolume: 0,
+  };
+});
+
+const withSettings = (changes: Record<string, Partial<IndicatorSetting>>): IndicatorSetting[] =>
+  DEFAULT_INDICATOR_SETTINGS.map(setting => ({ ...setting, ...changes[setting.id] }));
+
+describe('indicator settings', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fills in defaults, keeps core indicators on and drops invalid entries', () => {
+    const settings = normalizeIndicatorSettings([
+      { id: 'emaFast', kind: 'ema', params: { period: 5 }, enabled: false },
+      { id: 'rsi', kind: 'rsi', params: { period: 0 }, enabled: true },
+      { id: 'bb', kind: 'bollinger', params: { stdDev: 2.5 }, enabled: true },
+      { id: 'macd', kind: 'macd', params: { fast: 8, slow: 17.5 }, enabled: true },
+      { id: 'ema50', kind: 'ema', params: { period: 50 }, enabled: true },
+      { id: 'broken', kind: 'nope', params: {}, enabled: true },
+    ]);
+    const byId = Object.fromEntries(settings.map(setting => [setting.id, setting]));
+
+    expect(settings).toHaveLength(DEFAULT_INDICATOR_SETTINGS.length + 1);
+    expect(byId.emaFast).toEqual({ id: 'emaFast', kind: 'ema', params: { period: 5 }, enabled: true });
+    expect(byId.rsi.params).toEqual({ period: 14 });
+    expect(byId.bb.params).toEqual({ period: 20, stdDev: 2.5 });
+    expect(byId.macd).toMatchObject({ params: { fast: 8, slow: 26, signal: 9 }, enabled: true });
+    expect(byId.ema50).toEqual({ id: 'ema50', kind: 'ema', params: { period: 50 }, enabled: true });
+    expect(byId.broken).toBeUndefined();
+    expect(normalizeIndicatorSettings('garbage')).toEqual(DEFAULT_INDICATOR_SETTINGS);
+  });
+
+  it('publishes the configured indicators under their ids', () => {
+    const bus = new OrchestratorService();
+    const settings = withSettings({ emaFast: { params: { period: 5 } }, macd: { enabled: true }, vwap: { enabled: true } });
+    const engine = new IndicatorEngineAgent(bus, [], settings);
+    engine.start();
+    const ready: AgentMessage[] = [];
+    bus.register('INDICATORS_READY_5M', message => {
+      ready.push(message);
+    });
+
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: candles, timestamp: 1 });
+
+    const { payload } = ready[0];
+    const expectedMacd = macd(candles, 12, 26, 9);
+    expect(payload.emaFast).toBe(candleEMA(candles, 5));
+    expect(payload.values).toMatchObject({
+      emaFast: candleEMA(candles, 5),
+      'macd.macd': expectedMacd.macd,
+      'macd.signal': expectedMacd.signal,
+      'macd.histogram': expectedMacd.histogram,
+      vwap: vwap(candles.slice(-20)),
+    });
+    expect(payload.values['bb.upper']).toBe(payload.bbUpper);
+    expect(Object.keys(payload.values).some(key => key.startsWith('stochastic'))).toBe(false);
+    expect(validateMessage('INDICATORS_READY_5M', payload)).toBeNull();
+    engine.stop();
+  });
+
+  it('recalculates and republishes when the settings change', () => {
+    const bus = new OrchestratorService();
+    const engine = new IndicatorEngineAgent(bus);
+    engine.start();
+    const ready: AgentMessage[] = [];
+    bus.register('INDICATORS_READY_5M', message => {
+      ready.push(message);
+    });
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: candles.slice(0, 30), timestamp: 1 });
+    expect(ready).toHaveLength(1);
+
+    // A slower core EMA needs more history before anything is published
+    const settings = withSettings({ emaSlow: { params: { period: 50 } }, obv: { enabled: true } });
+    bus.send({ from: 'UI', type: 'INDICATOR_SETTINGS_UPDATED', payload: settings, timestamp: 2 });
+    expect(ready).toHaveLength(1);
+    expect(engine.health().detail).toContain('need 55 for indicators');
+
+    candles.slice(30, 55).forEach(candle =>
+      bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: candle, timestamp: 3 })
+    );
+    expect(ready).toHaveLength(2);
+    expect(ready[1].payload.emaSlow).toBe(candleEMA(candles.slice(0, 55), 50));
+    expect(ready[1].payload.values.obv).toEqual(expect.any(Number));
+
+    bus.send({ from: 'UI', type: 'INDICATOR_SETTINGS_UPDATED', payload: DEFAULT_INDICATOR_SETTINGS, timestamp: 4 });
+    expect(ready).toHaveLength(3);
+    expect(ready[2].payload.emaSlow).toBe(candleEMA(candles.slice(0, 55), 21));
+    expect(ready[2].payload.values.obv).toBeUndefined();
+    engine.stop();
+  });
+
+  it('lets server runtime clients change the settings', () => {
+    const runtime = new ServerAgentRuntime({ definitions: [] });
+    const received: AgentMessage[] = [];
+    runtime.bus.register('INDICATOR_SETTINGS_UPDATED', message => {
+      received.push(message);
+    });
+
+    expect(runtime.request('INDICATOR_SETTINGS_UPDATED', [{ id: 'rsi', kind: 'rsi', params: {}, enabled: 'yes' }])).toBe(false);
+    expect(runtime.request('INDICATOR_SETTINGS_UPDATED', DEFAULT_INDICATOR_SETTINGS)).toBe(true);
+    expect(received.map(message => message.payload)).toEqual([DEFAULT_INDICATOR_SETTINGS]);
+  });
+});
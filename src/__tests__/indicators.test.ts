@@ -1,4 +1,4 @@
-import { ema, rsi14, vwap, volumeSMA } from '@/lib/indicators';
+import { candleEMA, rsi, vwap, volumeSMA } from '@/lib/indicators';
 import originalConfig from '@/config/signals.json';
 
 function loadSignal(cfg = originalConfig) {
@@ -26,17 +26,18 @@ describe('indicators', () => {
   const candles = genCandles(Array.from({ length: 30 }, (_, i) => i + 1));
   
   it('calculates ema correctly', () => {
-    expect(ema(12)(candles)).toBeCloseTo(25.38, 1);
-    expect(ema(26)(candles)).toBeCloseTo(19.33, 1);
+    // Seeded with the SMA, an EMA of a linear series lags it by (period - 1) / 2
+    expect(candleEMA(candles, 12)).toBeCloseTo(24.5, 1);
+    expect(candleEMA(candles, 26)).toBeCloseTo(17.5, 1);
   });
   
   it('calculates rsi correctly', () => {
-    expect(rsi14(candles)).toBeCloseTo(100, 0); // All prices rising = RSI 100
+    expect(rsi(candles, 14)).toBeCloseTo(100, 0); // All prices rising = RSI 100
   });
 
   it('returns NaN for short datasets', () => {
     const shortCandles = genCandles(Array.from({ length: 10 }, (_, i) => i + 1));
-    expect(rsi14(shortCandles)).toBeNaN();
+    expect(rsi(shortCandles, 14)).toBeNaN();
   });
   
   it('calculates vwap correctly', () => {
@@ -0,0 +1,88 @@
+/** @jest-environment jsdom */
+import { act, renderHook } from '@testing-library/react';
+import { useMarketData } from '@/hooks/useMarketData';
+import { BinanceWebSocket } from '@/lib/market/websocket';
+import { orchestrator, OrchestratorService } from '@/lib/agents/Orchestrator';
+import { BridgeChannel, TabBridge } from '@/lib/agents/tab-bridge';
+import type { AgentMessage } from '@/lib/agents/types';
+import type { Candle } from '@/lib/types';
+
+jest.mock('@/lib/market/websocket', () => ({ BinanceWebSocket: jest.fn() }));
+
+// Synchronous stand-in for BroadcastChannel: delivers to every other channel on the hub
+function createHub() {
+  const channels = new Set<BridgeChannel>();
+  return () => {
+    const channel: BridgeChannel = {
+      onmessage: null,
+      postMessage: data => {
+        channels.forEach(other => {
+          if (other !== channel) other.onmessage?.({ data: JSON.parse(JSON.stringify(data)) } as MessageEvent);
+        });
+      },
+      close: () => {
+        channels.delete(channel);
+      },
+    };
+    channels.add(channel);
+    return channel;
+  };
+}
+
+const MINUTE = 60 * 1000;
+
+const candle = (i: number): Candle => ({
+  time: i * 5 * MINUTE,
+  open: 100 + i,
+  high: 101 + i,
+  low: 99 + i,
+  close: 100 + i,
+  volume: 10,
+  closeTime: (i + 1) * 5 * MINUTE - 1,
+  quoteAssetVolume: 0,
+  trades: 0,
+  takerBuyBaseAssetVolume: 0,
+  takerBuyQuoteAssetVolume: 0,
+});
+
+describe('useMarketData in a follower tab', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads the candles the leader relays and opens no socket of its own', () => {
+    const open = createHub();
+    const leaderBus = new OrchestratorService();
+    const leaderSeen: AgentMessage[] = [];
+    leaderBus.observe(message => leaderSeen.push(message));
+    const leader = new TabBridge(leaderBus, { channel: open(), tabId: 'leader' });
+    const follower = new TabBridge(orchestrator, { channel: open(), tabId: 'follower' });
+    leader.setRole('leader');
+    follower.setRole('follower');
+
+    const { result, unmount } = renderHook(() => useMarketData({ symbol: 'BTCUSDT', interval: '5m' }));
+
+    // The hook's history request reaches the leader
+    expect(leaderSeen.map(message => message.type)).toContain('REQUEST_INITIAL_DATA');
+
+    const history = Array.from({ length: 30 }, (_, i) => candle(i));
+    act(() => {
+      leaderBus.send({ from: 'DataCollector', symbol: 'BTCUSDT', type: 'INITIAL_CANDLES_5M', payload: history, timestamp: 1 });
+      leaderBus.send({ from: 'DataCollector', symbol: 'ETHUSDT', type: 'NEW_CLOSED_CANDLE_5M', payload: candle(40), timestamp: 2 });
+      leaderBus.send({ from: 'DataCollector', symbol: 'BTCUSDT', type: 'NEW_CLOSED_CANDLE_5M', payload: candle(30), timestamp: 3 });
+    });
+
+    expect(BinanceWebSocket).not.toHaveBeenCalled();
+    // Each candle arrives once, and other symbols' candles are ignored
+    expect(result.current.candles.map(c => c.time)).toEqual([...history, candle(30)].map(c => c.time));
+    expect(result.current).toMatchObject({ currentPrice: 130, isConnected: true });
+
+    unmount();
+    leader.close();
+    follower.close();
+  });
+});
@@ -0,0 +1,70 @@
+import { percentile, runMonteCarlo } from '@/lib/backtesting/monte-carlo';
+import type { Trade } from '@/lib/backtesting/engine';
+
+const trade = (profit: number): Trade => ({
+  entryTime: 0,
+  exitTime: 1,
+  entryPrice: 100,
+  exitPrice: 100 * (1 + profit),
+  direction: 'long',
+  profit,
+});
+
+describe('percentile', () => {
+  it('interpolates between ranks', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 25)).toBeCloseTo(2.5, 6);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  const trades = [0.05, -0.02, 0.01, -0.03, 0.04, -0.01].map(trade);
+
+  it('keeps final equity constant when shuffling', () => {
+    const result = runMonteCarlo(trades, { iterations: 200 });
+    const expected = trades.reduce((b, t) => b * (1 + t.profit), 1000);
+    expect(result.finalEquity.p5).toBeCloseTo(expected, 6);
+    expect(result.finalEquity.p95).toBeCloseTo(expected, 6);
+    expect(result.maxDrawdown.p95).toBeGreaterThanOrEqual(result.maxDrawdown.p5);
+    expect(result.equityFan.p50).toHaveLength(trades.length + 1);
+  });
+
+  it('spreads outcomes when bootstrapping', () => {
+    const result = runMonteCarlo(trades, { iterations: 500, method: 'bootstrap' });
+    expect(result.finalEquity.p95).toBeGreaterThan(result.finalEquity.p5);
+    for (let i = 0; i < result.equityFan.p5.length; i++) {
+      expect(result.equityFan.p5[i]).toBeLessThanOrEqual(result.equityFan.p95[i]);
+    }
+  });
+
+  it('reports risk of ruin', () => {
+    const losing = [-0.2, -0.2, -0.2, -0.2].map(trade);
+    expect(runMonteCarlo(losing, { iterations: 10 }).riskOfRuin).toBe(100);
+    expect(runMonteCarlo(trades, { iterations: 10 }).riskOfRuin).toBe(0);
+  });
+});
+
+describe('runMonteCarlo position sizing', () => {
+  // Two chunks of one position that used a tenth of the account, then a full-size loser
+  const chunk = (profit: number, pnl: number, exitTime: number): Trade => ({
+    ...trade(profit),
+    exitTime,
+    positionId: 1,
+    quantity: 0.5,
+    pnl,
+  });
+  const trades: Trade[] = [
+    chunk(0.1, 5, 1),
+    chunk(0.2, 10, 2),
+    { ...trade(-0.05), exitTime: 3, positionId: 2, quantity: 10, pnl: -50.75 },
+  ];
+
+  it('resamples each position once at its share of the balance', () => {
+    const result = runMonteCarlo(trades, { iterations: 50 });
+    expect(result.equityFan.p50).toHaveLength(3);
+    // +15 on 1000 (1.5%), then -50.75 on 1015 (-5%)
+    expect(result.finalEquity.p5).toBeCloseTo(1000 * 1.015 * 0.95, 6);
+    expect(result.finalEquity.p95).toBeCloseTo(1000 * 1.015 * 0.95, 6);
+    expect(result.longestLosingStreak.p95).toBe(1);
+  });
+});
@@ -0,0 +1,148 @@
+import { CandleSource, DataCollectorAgent } from '@/lib/agents/DataCollector';
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { createAgentGraph } from '@/lib/agents/registry';
+import { baseAsset, symbolOf } from '@/lib/agents/symbols';
+import { UIAdapterService } from '@/lib/agents/UIAdapter';
+import type { AgentMessage, TradingSignal } from '@/lib/agents/types';
+import type { Candle } from '@/lib/types';
+
+function genCandles(count: number, base: number): Candle[] {
+  const start = Date.UTC(2024, 0, 1);
+  return Array.from({ length: count }, (_, i) => {
+    const close = base + i * 0.5 - (i % 10 === 9 ? 1.5 : 0);
+    return {
+      time: start + i * 300000,
+      open: close - 0.2,
+      high: close + 0.6,
+      low: close - 0.6,
+      close,
+      volume: 100,
+      closeTime: start + i * 300000 + 299999,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+}
+
+const signal = (symbol: string, action: TradingSignal['action']): TradingSignal => ({
+  symbol,
+  action,
+  confidence: 75,
+  reason: 'test',
+  marketRegime: 'ranging',
+  timestamp: 1,
+});
+
+describe('multi-symbol pipeline', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps indicators and signals separate per symbol', () => {
+    const { bus, registry } = createAgentGraph();
+    const seen: AgentMessage[] = [];
+    bus.observe(message => seen.push(message));
+
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: genCandles(60, 100), timestamp: 1 });
+    bus.send({
+      from: 'DataCollector',
+      symbol: 'ETHUSDT',
+      type: 'INITIAL_CANDLES_5M',
+      payload: genCandles(60, 3000),
+      timestamp: 2,
+    });
+
+    const indicators = seen.filter(m => m.type === 'INDICATORS_READY_5M');
+    expect(indicators.map(symbolOf)).toEqual(['BTCUSDT', 'ETHUSDT']);
+    expect(indicators.map(m => m.payload.currentPrice)).toEqual([128, 3028]);
+
+    const signals = seen.filter(m => m.type === 'NEW_SIGNAL_5M');
+    expect(new Set(signals.map(m => m.symbol))).toEqual(new Set(['BTCUSDT', 'ETHUSDT']));
+    expect(signals.every(m => m.payload.symbol === m.symbol)).toBe(true);
+    registry.stop();
+  });
+
+  it('collects every configured symbol and answers requests for one', async () => {
+    const bus = new OrchestratorService();
+    const fetched: string[] = [];
+    const source: CandleSource = {
+      fetchCandles: async (symbol, interval, limit) => {
+        if (interval === '5m') fetched.push(symbol);
+        return genCandles(limit, symbol === 'SOLUSDT' ? 20 : 3000);
+      },
+      subscribe: () => () => undefined,
+    };
+    const collector = new DataCollectorAgent(bus, source, ['ETHUSDT', 'SOLUSDT']);
+    collector.start();
+    const initial: AgentMessage[] = [];
+    bus.register('INITIAL_CANDLES_5M', message => {
+      initial.push(message);
+    });
+
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 1 });
+    await bus.idle();
+    expect(fetched.sort()).toEqual(['ETHUSDT', 'SOLUSDT']);
+    expect(initial.map(symbolOf).sort()).toEqual(['ETHUSDT', 'SOLUSDT']);
+
+    initial.length = 0;
+    bus.send({ from: 'UI', symbol: 'SOLUSDT', type: 'REQUEST_INITIAL_DATA', payload: {}, timestamp: 2 });
+    bus.send({ from: 'UI', symbol: 'BTCUSDT', type: 'REQUEST_INITIAL_DATA', payload: {}, timestamp: 3 });
+    await bus.idle();
+    expect(initial.map(symbolOf)).toEqual(['SOLUSDT']);
+    expect(collector.health().detail).toMatch(/ETHUSDT: 100 candles.*SOLUSDT: 100 candles/);
+    collector.stop();
+  });
+
+  it('coalesces pending live updates per symbol', async () => {
+    const bus = new OrchestratorService();
+    let release: () => void = () => undefined;
+    const handled: string[] = [];
+    bus.register('LIVE_CANDLE_UPDATE_5M', message => {
+      handled.push(`${symbolOf(message)}@${message.payload.close}`);
+      if (handled.length === 1) return new Promise<void>(resolve => (release = resolve)) as unknown as void;
+    });
+    const [candle] = genCandles(1, 100);
+    const tick = (symbol: string, close: number) =>
+      bus.send({ from: 'DataCollector', symbol, type: 'LIVE_CANDLE_UPDATE_5M', payload: { ...candle, close }, timestamp: close });
+
+    tick('BTCUSDT', 1);
+    tick('BTCUSDT', 2);
+    tick('ETHUSDT', 3);
+    tick('BTCUSDT', 4);
+    release();
+    await bus.idle();
+
+    expect(handled).toEqual(['BTCUSDT@1', 'ETHUSDT@3', 'BTCUSDT@4']);
+    expect(bus.getQueueStats().LIVE_CANDLE_UPDATE_5M?.dropped).toBe(1);
+  });
+
+  it('keeps UI state per symbol and mirrors the selected one', () => {
+    const bus = new OrchestratorService();
+    const ui = new UIAdapterService(bus);
+    ui.start();
+
+    bus.send({ from: 'SignalGenerator', symbol: 'ETHUSDT', type: 'NEW_SIGNAL_5M', payload: signal('ETHUSDT', 'SELL'), timestamp: 1 });
+    bus.send({ from: 'SignalGenerator', type: 'NEW_SIGNAL_5M', payload: signal('BTCUSDT', 'BUY'), timestamp: 2 });
+
+    expect(ui.getState().selectedSymbol).toBe('BTCUSDT');
+    expect(ui.getState().latestSignal?.action).toBe('BUY');
+    expect(ui.getState().symbols.ETHUSDT.latestSignal?.action).toBe('SELL');
+    expect(ui.getState().symbols.SOLUSDT.latestSignal).toBeNull();
+
+    ui.selectSymbol('ETHUSDT');
+    expect(ui.getState().latestSignal?.action).toBe('SELL');
+    expect(ui.getState().signalHistory).toHaveLength(1);
+    ui.stop();
+  });
+
+  it('derives base assets for labels', () => {
+    expect(['BTCUSDT', 'ETHUSDC', 'SOLUSD', 'XYZ'].map(baseAsset)).toEqual(['BTC', 'ETH', 'SOL', 'XYZ']);
+  });
+});
@@ -0,0 +1,226 @@
+import { CandleSource, DataCollectorAgent } from '@/lib/agents/DataCollector';
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { createAgentGraph } from '@/lib/agents/registry';
+import { timeframeOf } from '@/lib/agents/timeframes';
+import type { AgentMessage, IndicatorDataSet } from '@/lib/agents/types';
+import { aggregateCandles, completesBar } from '@/lib/candle-aggregator';
+import { applyTimeframeAlignment } from '@/lib/signals/timeframe-alignment';
+import type { Candle } from '@/lib/types';
+
+const HOUR = Date.UTC(2024, 0, 1, 10);
+const MINUTE = 60 * 1000;
+
+function candle(time: number, close: number, volume = 100): Candle {
+  return {
+    time,
+    open: close - 1,
+    high: close + 2,
+    low: close - 2,
+    close,
+    volume,
+    closeTime: time + 5 * MINUTE - 1,
+    quoteAssetVolume: close * volume,
+    trades: 10,
+    takerBuyBaseAssetVolume: volume / 2,
+    takerBuyQuoteAssetVolume: (close * volume) / 2,
+  };
+}
+
+/** `count` candles every `stepMs`, closing `slope` higher each time with a small dip every 10th */
+function trend(count: number, stepMs: number, base: number, slope: number): Candle[] {
+  return Array.from({ length: count }, (_, i) =>
+    candle(HOUR - (count - i) * stepMs, base + i * slope - (i % 10 === 9 ? slope * 3 : 0))
+  );
+}
+
+const indicators = (emaFast: number | null, emaSlow: number | null): IndicatorDataSet => ({
+  emaFast,
+  emaSlow,
+  rsi: 60,
+  bbUpper: null,
+  bbMiddle: null,
+  bbLower: null,
+  atr: null,
+  values: { emaFast, emaSlow, rsi: 60 },
+  currentPrice: 100,
+  timestamp: 1,
+});
+
+describe('multi-timeframe confirmation', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('aggregates 5m candles into aligned higher-timeframe bars', () => {
+    const fiveMinute = [0, 5, 10, 15].map((minutes, i) => candle(HOUR + minutes * MINUTE, 100 + i));
+    const [first, second] = aggregateCandles([...fiveMinute].reverse(), '15m');
+
+    expect(first).toMatchObject({ time: HOUR, open: 99, close: 102, high: 104, low: 98, volume: 300, trades: 30 });
+    expect(first.closeTime).toBe(HOUR + 15 * MINUTE - 1);
+    expect(second).toMatchObject({ time: HOUR + 15 * MINUTE, open: 102, close: 103, volume: 100 });
+    expect(completesBar(fiveMinute[2], '5m', '15m')).toBe(true);
+    expect(completesBar(fiveMinute[3], '5m', '15m')).toBe(false);
+  });
+
+  it('builds 15m and 1h series from history and closed 5m candles', async () => {
+    const bus = new OrchestratorService();
+    const source: CandleSource = {
+      fetchCandles: async (_symbol, interval) => {
+        if (interval === '15m') throw new Error('rate limited');
+        return [HOUR - 2 * 60 * MINUTE, HOUR - 60 * MINUTE, HOUR].map(time => candle(time, 50));
+      },
+      subscribe: () => () => undefined,
+    };
+    const collector = new DataCollectorAgent(bus, source, []);
+    collector.start();
+    const seen: AgentMessage[] = [];
+    bus.observe(message => {
+      if (message.type.endsWith('_HTF')) seen.push(message);
+    });
+
+    const history = Array.from({ length: 10 }, (_, i) => candle(HOUR + i * 5 * MINUTE, 100 + i));
+    bus.send({ from: 'UI', symbol: 'ETHUSDT', type: 'INITIAL_CANDLES_5M', payload: history, timestamp: 1 });
+    await bus.idle();
+
+    const initial = new Map(seen.map(message => [timeframeOf(message), message.payload as Candle[]]));
+    expect(seen.every(message => message.symbol === 'ETHUSDT')).toBe(true);
+    // 15m fell back to aggregating 5m history; the 45-minute bar is still forming
+    expect(initial.get('15m')?.map(bar => (bar.time - HOUR) / MINUTE)).toEqual([0, 15, 30]);
+    // 1h history came from the source, minus the bar still forming
+    expect(initial.get('1h')).toHaveLength(2);
+
+    seen.length = 0;
+    [10, 11].forEach(i =>
+      bus.send({
+        from: 'UI',
+        symbol: 'ETHUSDT',
+        type: 'NEW_CLOSED_CANDLE_5M',
+        payload: { ...candle(HOUR + i * 5 * MINUTE, 100 + i), isClosed: true },
+        timestamp: 2,
+      })
+    );
+    await bus.idle();
+
+    expect(seen.map(message => [message.type, timeframeOf(message)])).toEqual([
+      ['NEW_CLOSED_CANDLE_HTF', '15m'],
+      ['NEW_CLOSED_CANDLE_HTF', '1h'],
+    ]);
+    expect(seen[0].payload).toMatchObject({ time: HOUR + 45 * MINUTE, open: 108, close: 111, volume: 300 });
+    expect(seen[1].payload).toMatchObject({ time: HOUR, open: 99, close: 111, volume: 1200 });
+    collector.stop();
+  });
+
+  it('fetches higher timeframes once and keeps bars that close while fetching', async () => {
+    const bus = new OrchestratorService();
+    let release: () => void = () => undefined;
+    const fetched = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const fetchCandles = jest.fn(async (_symbol: string, interval: string) => {
+      await fetched;
+      const step = interval === '15m' ? 15 * MINUTE : 60 * MINUTE;
+      return [-2, -1, 0, 1, 2, 3].map(i => candle(HOUR + i * step, 50));
+    });
+    const collector = new DataCollectorAgent(bus, { fetchCandles, subscribe: () => () => undefined }, []);
+    collector.start();
+    const seen: AgentMessage[] = [];
+    bus.observe(message => {
+      if (message.type.endsWith('_HTF') && timeframeOf(message) === '15m') seen.push(message);
+    });
+    const fiveMinute = (i: number) => ({ ...candle(HOUR + i * 5 * MINUTE, 100 + i), isClosed: true });
+    const history = Array.from({ length: 10 }, (_, i) => fiveMinute(i));
+
+    bus.send({ from: 'UI', symbol: 'ETHUSDT', type: 'INITIAL_CANDLES_5M', payload: history, timestamp: 1 });
+    // 50 and 55 complete the 45-minute bar before the history arrives
+    [10, 11].forEach(i =>
+      bus.send({ from: 'UI', symbol: 'ETHUSDT', type: 'NEW_CLOSED_CANDLE_5M', payload: fiveMinute(i), timestamp: 2 })
+    );
+    release();
+    await bus.idle();
+
+    expect(seen.map(message => message.type)).toEqual(['INITIAL_CANDLES_HTF']);
+    expect((seen[0].payload as Candle[]).map(bar => (bar.time - HOUR) / MINUTE)).toEqual([-30, -15, 0, 15, 30, 45]);
+    expect(seen[0].payload).toContainEqual(expect.objectContaining({ time: HOUR + 45 * MINUTE, open: 108, close: 111 }));
+
+    // The same history again (e.g. another hook asking) is answered from the series
+    seen.length = 0;
+    const repeated = [...history, fiveMinute(10), fiveMinute(11)];
+    bus.send({ from: 'UI', symbol: 'ETHUSDT', type: 'INITIAL_CANDLES_5M', payload: repeated, timestamp: 3 });
+    await bus.idle();
+    expect(fetchCandles).toHaveBeenCalledTimes(2);
+    expect(seen.map(message => (message.payload as Candle[]).length)).toEqual([6]);
+
+    // History that has moved past the series' forming bar is refetched
+    const later = Array.from({ length: 20 }, (_, i) => fiveMinute(i));
+    bus.send({ from: 'UI', symbol: 'ETHUSDT', type: 'INITIAL_CANDLES_5M', payload: later, timestamp: 4 });
+    await bus.idle();
+    expect(fetchCandles).toHaveBeenCalledTimes(4);
+    collector.stop();
+  });
+
+  it('weights signals by higher-timeframe trend', () => {
+    const buy = { action: 'BUY' as const, confidence: 70, reason: 'EMA fast above slow' };
+    const up = indicators(110, 100);
+    const down = indicators(90, 100);
+
+    expect(applyTimeframeAlignment(buy, [])).toEqual(buy);
+    expect(applyTimeframeAlignment(buy, [{ timeframe: '15m', indicators: indicators(null, 100) }])).toEqual(buy);
+    expect(
+      applyTimeframeAlignment(buy, [
+        { timeframe: '15m', indicators: up },
+        { timeframe: '1h', indicators: up },
+      ])
+    ).toEqual({ action: 'BUY', confidence: 90, reason: 'EMA fast above slow; 15m up (aligned), 1h up (aligned)' });
+    expect(
+      applyTimeframeAlignment(buy, [
+        { timeframe: '15m', indicators: up },
+        { timeframe: '1h', indicators: down },
+      ])
+    ).toMatchObject({ action: 'BUY', confidence: 60 });
+    expect(
+      applyTimeframeAlignment(buy, [
+        { timeframe: '15m', indicators: down },
+        { timeframe: '1h', indicators: indicators(100, 100) },
+      ])
+    ).toMatchObject({ action: 'BUY', confidence: 50, reason: expect.stringContaining('1h flat (neutral)') });
+    expect(applyTimeframeAlignment(buy, [{ timeframe: '1h', indicators: down }])).toEqual({
+      action: 'HOLD',
+      confidence: 50,
+      reason: 'EMA fast above slow; held, higher timeframes disagree: 1h down (opposed)',
+    });
+  });
+
+  it('publishes higher-timeframe indicators and shows alignment in signal reasons', () => {
+    const { bus, registry } = createAgentGraph();
+    const seen: AgentMessage[] = [];
+    bus.observe(message => seen.push(message));
+
+    bus.send({
+      from: 'DataCollector',
+      timeframe: '15m',
+      type: 'INITIAL_CANDLES_HTF',
+      payload: trend(60, 15 * MINUTE, 100, 1),
+      timestamp: 1,
+    });
+    bus.send({
+      from: 'DataCollector',
+      timeframe: '1h',
+      type: 'INITIAL_CANDLES_HTF',
+      payload: trend(60, 60 * MINUTE, 100, -1),
+      timestamp: 2,
+    });
+    expect(seen.filter(m => m.type === 'INDICATORS_READY_HTF').map(timeframeOf)).toEqual(['15m', '1h']);
+
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: trend(60, 5 * MINUTE, 100, 0.5), timestamp: 3 });
+    const [signal] = seen.filter(m => m.type === 'NEW_SIGNAL_5M').map(m => m.payload);
+    expect(signal.action).toBe('BUY');
+    expect(signal.confidence).toBe(60);
+    expect(signal.reason).toContain('15m up (aligned), 1h down (opposed)');
+    registry.stop();
+  });
+});
@@ -0,0 +1,174 @@
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import type { HandlerErrorPayload, StreamedCandle } from '@/lib/agents/types';
+
+const tick = (close: number): StreamedCandle => ({
+  time: Date.UTC(2024, 0, 1),
+  open: 100,
+  high: 110,
+  low: 90,
+  close,
+  volume: 1,
+  closeTime: Date.UTC(2024, 0, 1) + 299999,
+  quoteAssetVolume: 100,
+  trades: 1,
+  takerBuyBaseAssetVolume: 1,
+  takerBuyQuoteAssetVolume: 100,
+});
+
+const liveUpdate = (close: number) => ({
+  from: 'DataCollector' as const,
+  type: 'LIVE_CANDLE_UPDATE_5M' as const,
+  payload: tick(close),
+  timestamp: close,
+});
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('orchestrator async delivery', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('publishes AGENT_ERROR for thrown and rejected handlers', async () => {
+    const bus = new OrchestratorService();
+    const errors: HandlerErrorPayload[] = [];
+    bus.register('AGENT_ERROR', msg => {
+      errors.push(msg.payload);
+    });
+    bus.register(
+      'DATA_READY',
+      () => {
+        throw new Error('sync failure');
+      },
+      'UI'
+    );
+    bus.register('DATA_READY', async () => Promise.reject(new Error('async failure')), 'DataCollector');
+
+    bus.send({ from: 'DataCollector', type: 'DATA_READY', payload: { candleCount: 1, lastUpdate: 0 }, timestamp: 7 });
+    expect(errors.map(e => e.error)).toEqual(['sync failure']);
+    await bus.idle();
+
+    expect(errors).toEqual([
+      {
+        subscriber: 'UI',
+        failedMessage: { from: 'DataCollector', type: 'DATA_READY', timestamp: 7 },
+        error: 'sync failure',
+        timedOut: false,
+      },
+      {
+        subscriber: 'DataCollector',
+        failedMessage: { from: 'DataCollector', type: 'DATA_READY', timestamp: 7 },
+        error: 'async failure',
+        timedOut: false,
+      },
+    ]);
+  });
+
+  it('times out slow async handlers', async () => {
+    jest.useFakeTimers();
+    const bus = new OrchestratorService({ handlerTimeoutMs: 1000 });
+    const errors: HandlerErrorPayload[] = [];
+    bus.register('AGENT_ERROR', msg => {
+      errors.push(msg.payload);
+    });
+    bus.register('MANUAL_DATA_REFRESH_REQUEST', () => new Promise<void>(() => undefined), 'DataCollector');
+    bus.register('MANUAL_DATA_REFRESH_REQUEST', () => new Promise<void>(() => undefined), 'UI', { timeoutMs: 5000 });
+
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 0 });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(errors.map(e => [e.subscriber, e.timedOut])).toEqual([['DataCollector', true]]);
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(errors.map(e => e.subscriber)).toEqual(['DataCollector', 'UI']);
+    expect(errors[1].error).toBe('Handler timed out after 5000ms');
+  });
+
+  it('does not report failures of AGENT_ERROR handlers as AGENT_ERROR', () => {
+    const bus = new OrchestratorService();
+    const handler = jest.fn(() => {
+      throw new Error('nope');
+    });
+    bus.register('AGENT_ERROR', handler);
+    bus.register('DATA_READY', () => {
+      throw new Error('first');
+    });
+
+    bus.send({ from: 'DataCollector', type: 'DATA_READY', payload: { candleCount: 1, lastUpdate: 0 }, timestamp: 0 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('coalesces live updates while a slow handler is busy', async () => {
+    const bus = new OrchestratorService();
+    const seen: number[] = [];
+    let gate = deferred();
+    bus.register('LIVE_CANDLE_UPDATE_5M', async msg => {
+      seen.push(msg.payload.close);
+      await gate.promise;
+    });
+
+    bus.send(liveUpdate(1));
+    bus.send(liveUpdate(2));
+    bus.send(liveUpdate(3));
+    expect(seen).toEqual([1]);
+    expect(bus.getQueueStats().LIVE_CANDLE_UPDATE_5M).toEqual({ busy: true, pending: 1, dropped: 1 });
+
+    const first = gate;
+    gate = deferred();
+    first.resolve();
+    gate.resolve();
+    await bus.idle();
+
+    expect(seen).toEqual([1, 3]);
+    expect(bus.getQueueStats().LIVE_CANDLE_UPDATE_5M).toEqual({ busy: false, pending: 0, dropped: 1 });
+  });
+
+  it('bounds queues with drop-oldest and drop-newest policies', async () => {
+    for (const [strategy, expected] of [
+      ['drop-oldest', [1, 3, 4]],
+      ['drop-newest', [1, 2, 3]],
+    ] as const) {
+      const bus = new OrchestratorService({ backpressure: { LIVE_CANDLE_UPDATE_5M: { strategy, maxQueue: 2 } } });
+      const seen: number[] = [];
+      const gate = deferred();
+      bus.register('LIVE_CANDLE_UPDATE_5M', async msg => {
+        seen.push(msg.payload.close);
+        await gate.promise;
+      });
+
+      [1, 2, 3, 4].forEach(close => bus.send(liveUpdate(close)));
+      gate.resolve();
+      await bus.idle();
+
+      expect(seen).toEqual(expected);
+      expect(bus.getQueueStats().LIVE_CANDLE_UPDATE_5M?.dropped).toBe(1);
+    }
+  });
+
+  it('delivers unqueued types immediately even while handlers are pending', async () => {
+    const bus = new OrchestratorService();
+    const seen: number[] = [];
+    const gate = deferred();
+    bus.register('DATA_READY', async msg => {
+      seen.push(msg.payload.candleCount);
+      await gate.promise;
+    });
+
+    bus.send({ from: 'DataCollector', type: 'DATA_READY', payload: { candleCount: 1, lastUpdate: 0 }, timestamp: 0 });
+    bus.send({ from: 'DataCollector', type: 'DATA_READY', payload: { candleCount: 2, lastUpdate: 0 }, timestamp: 0 });
+
+    expect(seen).toEqual([1, 2]);
+    gate.resolve();
+    await bus.idle();
+  });
+});
@@ -0,0 +1,78 @@
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { isMessageType, validateMessage } from '@/lib/agents/messages';
+import type { Candle } from '@/lib/types';
+
+const candle: Candle = {
+  time: Date.UTC(2024, 0, 1),
+  open: 100,
+  high: 101,
+  low: 99,
+  close: 100.5,
+  volume: 10,
+  closeTime: Date.UTC(2024, 0, 1) + 299999,
+  quoteAssetVolume: 1005,
+  trades: 5,
+  takerBuyBaseAssetVolume: 5,
+  takerBuyQuoteAssetVolume: 502,
+};
+
+describe('orchestrator message catalog', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('types register and send by message type', () => {
+    const bus = new OrchestratorService();
+    const received: number[] = [];
+    bus.register('INITIAL_CANDLES_5M', msg => received.push(msg.payload.length));
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: [candle], timestamp: 0 });
+
+    // @ts-expect-error unknown message types are rejected at compile time
+    bus.register('NEW_CANDLE_5M', () => undefined);
+    // @ts-expect-error payload must match the catalog entry
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: candle, timestamp: 0 });
+
+    expect(received).toEqual([1]);
+  });
+
+  it('validates payloads against the catalog', () => {
+    expect(validateMessage('NEW_CLOSED_CANDLE_5M', { ...candle, isClosed: true })).toBeNull();
+    expect(validateMessage('NEW_CLOSED_CANDLE_5M', { ...candle, close: '100' })).toMatch(/Invalid payload/);
+    expect(validateMessage('MARKET_REGIME_UPDATED', 'sideways')).toMatch(/Invalid payload/);
+    expect(validateMessage('MANUAL_DATA_REFRESH_REQUEST', null)).toBeNull();
+    expect(isMessageType('NEW_CANDLE_5M')).toBe(false);
+  });
+
+  it('drops invalid messages when validation is enabled', () => {
+    const bus = new OrchestratorService({ validate: true });
+    const handler = jest.fn();
+    bus.register('NEW_CLOSED_CANDLE_5M', handler);
+
+    bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: candle, timestamp: 0 });
+    bus.send({
+      from: 'DataCollector',
+      type: 'NEW_CLOSED_CANDLE_5M',
+      payload: JSON.parse('{"time": 1}'),
+      timestamp: 0,
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid payload for NEW_CLOSED_CANDLE_5M'),
+      { time: 1 }
+    );
+  });
+
+  it('skips validation outside development by default', () => {
+    const bus = new OrchestratorService();
+    const handler = jest.fn();
+    bus.register('DATA_READY', handler);
+    bus.send({ from: 'DataCollector', type: 'DATA_READY', payload: JSON.parse('{}'), timestamp: 0 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,177 @@
+import { CandleSource, DataCollectorAgent } from '@/lib/agents/DataCollector';
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { DATA_COLLECTOR, INDICATOR_ENGINE, SIGNAL_GENERATOR } from '@/lib/agents/registry';
+import { ServerBridge, ServerEventSource } from '@/lib/agents/server-bridge';
+import { formatSseEvent, RuntimeEvent, ServerAgentRuntime } from '@/lib/agents/server-runtime';
+import type { AgentMessage, MessageType } from '@/lib/agents/types';
+import type { Candle } from '@/lib/types';
+
+function genCandles(count: number): Candle[] {
+  const start = Date.UTC(2024, 0, 1);
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 + i * 0.5 - (i % 10 === 9 ? 1.5 : 0);
+    return {
+      time: start + i * 300000,
+      open: close - 0.2,
+      high: close + 0.6,
+      low: close - 0.6,
+      close,
+      volume: 100,
+      closeTime: start + i * 300000 + 299999,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+}
+
+function fakeSource(history: Candle[]) {
+  let emit: ((candle: Candle, isClosed: boolean) => void) | null = null;
+  const source: CandleSource = {
+    fetchCandles: async (_symbol, _interval, limit) => history.slice(-limit),
+    subscribe: (_symbol, callback) => {
+      emit = callback;
+      return () => {
+        emit = null;
+      };
+    },
+  };
+  return { source, push: (candle: Candle) => emit?.(candle, true), isOpen: () => emit !== null };
+}
+
+function createRuntime(history: Candle[]) {
+  const feed = fakeSource(history);
+  const runtime = new ServerAgentRuntime({
+    definitions: [
+      { ...DATA_COLLECTOR, create: bus => new DataCollectorAgent(bus, feed.source) },
+      INDICATOR_ENGINE,
+      SIGNAL_GENERATOR,
+    ],
+    runtimeId: 'r1',
+  });
+  return { runtime, feed };
+}
+
+const typesOf = (events: RuntimeEvent[]) => events.map(e => e.message.type);
+
+describe('server agent runtime', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('loads history, follows the live stream and generates signals without a client', async () => {
+    const candles = genCandles(80);
+    const { runtime, feed } = createRuntime(candles.slice(0, 60));
+    runtime.start();
+    await runtime.bus.idle();
+    expect(feed.isOpen()).toBe(true);
+
+    const events: RuntimeEvent[] = [];
+    runtime.subscribe(event => events.push(event), 'r1:0');
+    candles.slice(60).forEach(feed.push);
+    await runtime.bus.idle();
+
+    expect(typesOf(events)).toContain('INITIAL_CANDLES_5M');
+    expect(typesOf(events).filter(t => t === 'NEW_CLOSED_CANDLE_5M')).toHaveLength(20);
+    expect(typesOf(events).filter(t => t === 'NEW_SIGNAL_5M').length).toBeGreaterThan(20);
+    expect(events.map(e => e.id)).toEqual(events.map((_, i) => `r1:${i + 1}`));
+
+    runtime.stop();
+    expect(feed.isOpen()).toBe(false);
+    expect(runtime.isRunning()).toBe(false);
+  });
+
+  it('resumes after Last-Event-ID and falls back to a per-type snapshot', () => {
+    const runtime = new ServerAgentRuntime({ definitions: [], historySize: 3, runtimeId: 'r1' });
+    runtime.start();
+    runtime.bus.send({ from: 'SignalGenerator', type: 'MARKET_REGIME_UPDATED', payload: 'ranging', timestamp: 1 });
+    runtime.bus.send({ from: 'DataCollector', type: 'DATA_READY', payload: { candleCount: 1, lastUpdate: 0 }, timestamp: 2 });
+    runtime.bus.send({ from: 'SignalGenerator', type: 'MARKET_REGIME_UPDATED', payload: 'volatile', timestamp: 3 });
+
+    const replayed = (lastEventId?: string) => {
+      const events: RuntimeEvent[] = [];
+      runtime.subscribe(event => events.push(event), lastEventId)();
+      return events.map(e => e.id);
+    };
+
+    // r1:1 is the refresh request sent on start; only the newest three events are kept
+    expect(replayed('r1:1')).toEqual(['r1:2', 'r1:3', 'r1:4']);
+    expect(replayed('r1:3')).toEqual(['r1:4']);
+    expect(replayed('r1:4')).toEqual([]);
+    // evicted, from another process, or a fresh client: latest event per type
+    expect(replayed('r1:0')).toEqual(['r1:3', 'r1:4']);
+    expect(replayed('old:3')).toEqual(['r1:3', 'r1:4']);
+    expect(replayed()).toEqual(['r1:3', 'r1:4']);
+    runtime.stop();
+  });
+
+  it('keeps only the newest tick per symbol in the resume log', () => {
+    const runtime = new ServerAgentRuntime({ definitions: [], historySize: 3, runtimeId: 'r1' });
+    runtime.start();
+    const tick = (symbol: string, close: number) => runtime.bus.send({
+      from: 'DataCollector',
+      symbol,
+      type: 'LIVE_CANDLE_UPDATE_5M',
+      payload: { ...genCandles(1)[0], close, isClosed: false },
+      timestamp: close,
+    });
+    runtime.bus.send({ from: 'SignalGenerator', type: 'MARKET_REGIME_UPDATED', payload: 'ranging', timestamp: 1 });
+    for (let i = 0; i < 10; i++) {
+      tick('BTCUSDT', 100 + i);
+      tick('ETHUSDT', 200 + i);
+    }
+
+    const events: RuntimeEvent[] = [];
+    runtime.subscribe(event => events.push(event), 'r1:1')();
+    // The regime update is still there after 20 ticks, followed by the last tick of each symbol
+    expect(typesOf(events)).toEqual(['MARKET_REGIME_UPDATED', 'LIVE_CANDLE_UPDATE_5M', 'LIVE_CANDLE_UPDATE_5M']);
+    expect(events.slice(1).map(e => e.id)).toEqual(['r1:21', 'r1:22']);
+    runtime.stop();
+  });
+
+  it('only accepts request types from clients', () => {
+    const runtime = new ServerAgentRuntime({ definitions: [] });
+    expect(runtime.request('MANUAL_DATA_REFRESH_REQUEST')).toBe(true);
+    expect(runtime.request('NEW_SIGNAL_5M')).toBe(false);
+  });
+
+  it('formats events as SSE frames', () => {
+    const message: AgentMessage = { from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 1 };
+    expect(formatSseEvent({ id: 'r1:7', message })).toBe(`id: r1:7\ndata: ${JSON.stringify(message)}\n\n`);
+  });
+});
+
+describe('server bridge', () => {
+  it('re-emits streamed messages and posts local requests', () => {
+    const source: ServerEventSource = { onmessage: null, onerror: null, close: jest.fn() };
+    const posted: MessageType[] = [];
+    const bus = new OrchestratorService();
+    const seen: AgentMessage[] = [];
+    bus.observe(message => seen.push(message));
+    const bridge = new ServerBridge(bus, {
+      source,
+      post: async type => {
+        posted.push(type);
+      },
+    });
+
+    const stream = (message: AgentMessage) => source.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+    stream({ from: 'SignalGenerator', type: 'MARKET_REGIME_UPDATED', payload: 'volatile', timestamp: 1 });
+    stream({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 2 });
+    bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 3 });
+    bus.send({ from: 'UI', type: 'DATA_READY', payload: { candleCount: 1, lastUpdate: 0 }, timestamp: 4 });
+
+    expect(seen.map(m => m.timestamp)).toEqual([1, 3, 4]);
+    expect(posted).toEqual(['MANUAL_DATA_REFRESH_REQUEST']);
+
+    bridge.close();
+    expect(source.close).toHaveBeenCalled();
+    expect(source.onmessage).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { buyAndHoldEquity, equityByCandle, runStrategyComparison } from '@/lib/backtesting/compare';
+import { STRATEGIES } from '@/lib/backtesting/strategies';
+import type { Trade } from '@/lib/backtesting/engine';
+import type { Candle } from '@/lib/types';
+
+function genCandles(count: number): Candle[] {
+  const start = Date.UTC(2024, 0, 1);
+  return Array.from({ length: count }, (_, i) => {
+    // oscillating trend so EMA crossovers happen in both directions
+    const close = 100 + 5 * Math.sin(i / 8) + i * 0.05;
+    return {
+      time: start + i * 300000,
+      open: close - 0.1,
+      high: close + 0.8,
+      low: close - 0.8,
+      close,
+      volume: 100 + (i % 7) * 20,
+      closeTime: start + i * 300000 + 299999,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+}
+
+describe('strategy comparison', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds a buy-and-hold benchmark from closes', () => {
+    const candles = genCandles(5);
+    const equity = buyAndHoldEquity(candles, 1, 3, 1000);
+    expect(equity).toHaveLength(3);
+    expect(equity[0]).toBe(1000);
+    expect(equity[2]).toBeCloseTo(1000 * (candles[3].close / candles[1].close), 10);
+  });
+
+  it('steps per-candle equity when trades close', () => {
+    const candles = genCandles(6);
+    const trades: Trade[] = [
+      { entryTime: candles[1].time, exitTime: candles[2].time, entryPrice: 1, exitPrice: 1, direction: 'long', profit: 0.1 },
+      { entryTime: candles[3].time, exitTime: candles[4].time, entryPrice: 1, exitPrice: 1, direction: 'long', profit: -0.5 },
+    ];
+    const equity = equityByCandle(trades, candles, 0, 5, 100);
+    expect(equity.map(v => Number(v.toFixed(6)))).toEqual([100, 100, 110, 110, 55, 55]);
+  });
+
+  it('runs every selected strategy over the same range', () => {
+    const candles = genCandles(200);
+    const comparison = runStrategyComparison({ candles, strategies: ['legacy', 'ema-crossover'] });
+
+    expect(comparison.runs.map(r => r.id)).toEqual(['legacy', 'ema-crossover']);
+    expect(comparison.times).toHaveLength(150);
+    expect(comparison.benchmark).toHaveLength(150);
+    for (const run of comparison.runs) {
+      expect(run.equityByCandle).toHaveLength(150);
+      expect(run.equityByCandle[149]).toBeCloseTo(run.result.equity[run.result.equity.length - 1], 6);
+    }
+    expect(comparison.runs[1].result.trades.length).toBeGreaterThan(0);
+    expect(comparison.benchmarkReturn).toBeCloseTo((candles[199].close / candles[50].close - 1) * 100, 6);
+  });
+
+  it('creates independent sources for stateful strategies', () => {
+    const candles = genCandles(120);
+    const pipeline = STRATEGIES.find(s => s.id === 'signal-pipeline')!;
+    const a = pipeline.createSource(candles, 50);
+    const b = pipeline.createSource(candles, 50);
+    expect(a(candles, 119)).toEqual(b(candles, 119));
+  });
+});
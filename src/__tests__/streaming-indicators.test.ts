@@ -0,0 +1,127 @@
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { IndicatorEngineAgent } from '@/lib/agents/IndicatorEngine';
+import type { AgentMessage } from '@/lib/agents/types';
+import { candleEMA } from '@/lib/indicators/moving-averages';
+import { macd, rsi } from '@/lib/indicators/oscillators';
+import {
+  StreamingATR,
+  StreamingBollingerBands,
+  StreamingCMF,
+  StreamingEMA,
+  StreamingIndicator,
+  StreamingMACD,
+  StreamingOBV,
+  StreamingRSI,
+} from '@/lib/indicators/streaming';
+import { atr, bollingerBands } from '@/lib/indicators/volatility';
+import { cmf, obv } from '@/lib/indicators/volume';
+import type { Candle } from '@/lib/types';
+
+const MINUTE = 60 * 1000;
+
+/** Deterministic random walk with some flat candles and unchanged closes */
+function randomCandles(count: number, seed = 7): Candle[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  let close = 30000;
+  return Array.from({ length: count }, (_, i) => {
+    const open = close;
+    close = i % 17 === 5 ? open : open + (random() - 0.5) * 200;
+    const flat = i % 23 === 11;
+    const high = flat ? open : Math.max(open, close) + random() * 50;
+    const low = flat ? open : Math.min(open, close) - random() * 50;
+    return {
+      time: i * MINUTE,
+      open,
+      high,
+      low,
+      close: flat ? open : close,
+      volume: 1 + random() * 10,
+      closeTime: (i + 1) * MINUTE - 1,
+      quoteAssetVolume: 0,
+      trades: 0,
+      takerBuyBaseAssetVolume: 0,
+      takerBuyQuoteAssetVolume: 0,
+    };
+  });
+}
+
+const CASES: Array<[string, () => StreamingIndicator<unknown, unknown>, (candles: Candle[]) => unknown]> = [
+  ['EMA', () => new StreamingEMA(9), candles => candleEMA(candles, 9)],
+  ['RSI', () => new StreamingRSI(14), candles => rsi(candles, 14)],
+  ['ATR', () => new StreamingATR(14), candles => atr(candles, 14)],
+  ['Bollinger Bands', () => new StreamingBollingerBands(20, 2), candles => bollingerBands(candles, 20, 2)],
+  ['MACD', () => new StreamingMACD(12, 26, 9), candles => macd(candles, 12, 26, 9)],
+  ['OBV', () => new StreamingOBV(), candles => obv(candles)],
+  ['CMF', () => new StreamingCMF(20), candles => cmf(candles, 20)],
+];
+
+describe('streaming indicators', () => {
+  const candles = randomCandles(150);
+
+  it.each(CASES)('%s matches the batch version after every candle', (_, create, batch) => {
+    const indicator = create();
+    candles.forEach((candle, i) => {
+      const history = candles.slice(0, i + 1);
+      expect(indicator.peek(candle)).toEqual(batch(history));
+      expect(indicator.update(candle)).toEqual(batch(history));
+      expect(indicator.snapshot()).toEqual(batch(history));
+    });
+  });
+
+  it.each(CASES)('%s replaces the last candle when it is sent again', (_, create, batch) => {
+    const indicator = create();
+    candles.slice(0, 60).forEach(candle => indicator.update(candle));
+    const revised = { ...candles[59], close: candles[59].close + 75, high: candles[59].high + 80 };
+
+    expect(indicator.peek(revised)).toEqual(batch([...candles.slice(0, 59), revised]));
+    expect(indicator.snapshot()).toEqual(batch(candles.slice(0, 60)));
+    indicator.update(revised);
+    indicator.update(candles[59]);
+    expect(indicator.snapshot()).toEqual(batch(candles.slice(0, 60)));
+    expect(indicator.update(candles[60])).toEqual(batch(candles.slice(0, 61)));
+  });
+
+  it('rejects candles older than the last update', () => {
+    const ema = new StreamingEMA(3);
+    ema.update(candles[1]);
+    expect(() => ema.update(candles[0])).toThrow('older than the last update');
+  });
+
+  it('keeps the indicator engine in step with the batch indicators', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const bus = new OrchestratorService();
+    const engine = new IndicatorEngineAgent(bus);
+    engine.start();
+    const ready: AgentMessage[] = [];
+    bus.register('INDICATORS_READY_5M', message => {
+      ready.push(message);
+    });
+
+    bus.send({ from: 'DataCollector', type: 'INITIAL_CANDLES_5M', payload: candles.slice(0, 100), timestamp: 1 });
+    candles.slice(100).forEach(candle => bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: candle, timestamp: 2 }));
+    // A late candle for an earlier bar rebuilds the indicators from the stored history
+    const late = { ...candles[120], close: candles[120].close - 300 };
+    bus.send({ from: 'DataCollector', type: 'NEW_CLOSED_CANDLE_5M', payload: late, timestamp: 3 });
+
+    const bands = bollingerBands(candles, 20, 2);
+    expect(ready[ready.length - 2].payload).toMatchObject({
+      emaFast: candleEMA(candles, 9),
+      emaSlow: candleEMA(candles, 21),
+      rsi: rsi(candles, 14),
+      bbUpper: bands.upper,
+      bbLower: bands.lower,
+      atr: atr(candles, 14),
+    });
+    const revised = candles.map((candle, i) => (i === 120 ? late : candle));
+    expect(ready[ready.length - 1].payload).toMatchObject({
+      emaSlow: candleEMA(revised, 21),
+      rsi: rsi(revised, 14),
+    });
+    engine.stop();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,150 @@
+import { OrchestratorService } from '@/lib/agents/Orchestrator';
+import { BridgeChannel, electLeader, LeaderLocks, TabBridge } from '@/lib/agents/tab-bridge';
+import type { AgentMessage, TradingSignal } from '@/lib/agents/types';
+
+// Synchronous stand-in for BroadcastChannel: delivers to every other channel on the hub
+function createHub() {
+  const channels = new Set<BridgeChannel>();
+  return () => {
+    const channel: BridgeChannel = {
+      onmessage: null,
+      postMessage: data => {
+        channels.forEach(other => {
+          if (other !== channel) other.onmessage?.({ data: JSON.parse(JSON.stringify(data)) } as MessageEvent);
+        });
+      },
+      close: () => {
+        channels.delete(channel);
+      },
+    };
+    channels.add(channel);
+    return channel;
+  };
+}
+
+const signal: TradingSignal = {
+  action: 'BUY',
+  confidence: 80,
+  reason: 'test',
+  timestamp: 1,
+  marketRegime: 'ranging',
+};
+
+function createTab(openChannel: () => BridgeChannel, tabId: string) {
+  const bus = new OrchestratorService();
+  const seen: AgentMessage[] = [];
+  bus.observe(message => seen.push(message));
+  const bridge = new TabBridge(bus, { channel: openChannel(), tabId });
+  return { bus, bridge, seen, types: () => seen.map(m => m.type) };
+}
+
+describe('tab bridge', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('mirrors the leader bus into followers and forwards only requests back', () => {
+    const open = createHub();
+    const leader = createTab(open, 'a');
+    const follower = createTab(open, 'b');
+    leader.bridge.setRole('leader');
+    follower.bridge.setRole('follower');
+
+    leader.bus.send({ from: 'SignalGenerator', type: 'NEW_SIGNAL_5M', payload: signal, timestamp: 1 });
+    expect(follower.types()).toEqual(['NEW_SIGNAL_5M']);
+    expect(follower.seen[0].payload).toEqual(signal);
+
+    follower.bus.send({ from: 'UI', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: 2 });
+    follower.bus.send({ from: 'UI', type: 'DATA_READY', payload: { candleCount: 1, lastUpdate: 0 }, timestamp: 3 });
+
+    expect(leader.types()).toEqual(['NEW_SIGNAL_5M', 'MANUAL_DATA_REFRESH_REQUEST']);
+    // the forwarded request is not echoed back to the follower
+    expect(follower.types()).toEqual(['NEW_SIGNAL_5M', 'MANUAL_DATA_REFRESH_REQUEST', 'DATA_READY']);
+  });
+
+  it('sends late followers the latest message of each type', () => {
+    const open = createHub();
+    const leader = createTab(open, 'a');
+    leader.bridge.setRole('leader');
+    leader.bus.send({ from: 'SignalGenerator', type: 'MARKET_REGIME_UPDATED', payload: 'ranging', timestamp: 1 });
+    leader.bus.send({ from: 'SignalGenerator', type: 'NEW_SIGNAL_5M', payload: signal, timestamp: 2 });
+    leader.bus.send({ from: 'SignalGenerator', type: 'MARKET_REGIME_UPDATED', payload: 'volatile', timestamp: 3 });
+
+    const follower = createTab(open, 'b');
+    const other = createTab(open, 'c');
+    other.bridge.setRole('follower');
+    follower.bridge.setRole('follower');
+
+    expect(follower.seen.map(m => [m.type, m.timestamp])).toEqual([
+      ['NEW_SIGNAL_5M', 2],
+      ['MARKET_REGIME_UPDATED', 3],
+    ]);
+    // each snapshot is addressed to the tab that asked for it
+    expect(other.seen).toHaveLength(2);
+  });
+
+  it('ignores traffic before a role is assigned and after closing', () => {
+    const open = createHub();
+    const leader = createTab(open, 'a');
+    const follower = createTab(open, 'b');
+    follower.bridge.setRole('follower');
+
+    leader.bus.send({ from: 'SignalGenerator', type: 'NEW_SIGNAL_5M', payload: signal, timestamp: 1 });
+    leader.bridge.setRole('leader');
+    follower.bridge.close();
+    leader.bus.send({ from: 'SignalGenerator', type: 'NEW_SIGNAL_5M', payload: signal, timestamp: 2 });
+
+    expect(follower.seen).toHaveLength(0);
+  });
+
+  it('elects one leader at a time through the lock', async () => {
+    const waiting: (() => Promise<void>)[] = [];
+    let held = false;
+    const locks: LeaderLocks = {
+      request: (_name, { signal: abortSignal }, callback) =>
+        new Promise((resolve, reject) => {
+          const run = () => {
+            held = true;
+            callback().then(() => {
+              held = false;
+              resolve(undefined);
+              waiting.shift()?.();
+            });
+            return Promise.resolve();
+          };
+          abortSignal?.addEventListener('abort', () => {
+            const index = waiting.indexOf(run);
+            if (index >= 0) {
+              waiting.splice(index, 1);
+              reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+            }
+          });
+          if (held) waiting.push(run);
+          else run();
+        }),
+    };
+    const leaders: string[] = [];
+
+    const resignFirst = electLeader('lock', () => leaders.push('first'), locks);
+    const resignSecond = electLeader('lock', () => leaders.push('second'), locks);
+    const resignThird = electLeader('lock', () => leaders.push('third'), locks);
+    expect(leaders).toEqual(['first']);
+
+    resignThird();
+    resignFirst();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(leaders).toEqual(['first', 'second']);
+    resignSecond();
+  });
+
+  it('leads immediately without the Web Locks API', () => {
+    const onLeader = jest.fn();
+    electLeader('lock', onLeader, undefined);
+    expect(onLeader).toHaveBeenCalledTimes(1);
+  });
+});
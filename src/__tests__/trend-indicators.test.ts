@@ -0,0 +1,116 @@
+import {
+  adx,
+  adxSeries,
+  ichimoku,
+  ichimokuSeries,
+  parabolicSarSeries,
+  supertrend,
+  supertrendSeries,
+} from '@/lib/indicators';
+import { indicatorConditions } from '@/lib/signals/conditions';
+import type { Candle } from '@/lib/types';
+
+const candle = (high: number, low: number, close: number, time = 0): Candle => ({
+  time,
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1,
+  closeTime: time,
+  quoteAssetVolume: 0,
+  trades: 0,
+  takerBuyBaseAssetVolume: 0,
+  takerBuyQuoteAssetVolume: 0,
+});
+
+const rising = Array.from({ length: 100 }, (_, i) => candle(101 + i, 99 + i, 100 + i, i));
+const falling = Array.from({ length: 100 }, (_, i) => candle(301 - i, 299 - i, 300 - i, i));
+
+describe('trend indicators', () => {
+  it('calculates ADX, +DI and -DI with Wilder smoothing', () => {
+    // +DM 1, 0, 2, 1; -DM 0, 2, 0, 0; true ranges 2, 3, 4, 2
+    const candles = [candle(10, 8, 9), candle(11, 9, 10), candle(10, 7, 8), candle(12, 9, 11), candle(13, 11, 12)];
+    const series = adxSeries(candles, 2);
+
+    expect(series.slice(0, 2).every(value => isNaN(value.plusDI) && isNaN(value.adx))).toBe(true);
+    expect(series[2]).toEqual({ adx: NaN, plusDI: 20, minusDI: 40 });
+    expect(series[3].plusDI).toBeCloseTo(38.4615, 4);
+    expect(series[3].minusDI).toBeCloseTo(15.3846, 4);
+    // Average of DX 33.33 and 42.86, then Wilder-smoothed with DX 63.64
+    expect(series[3].adx).toBeCloseTo(38.0952, 4);
+    expect(series[4].adx).toBeCloseTo(50.8658, 4);
+    expect(adx(candles, 2)).toEqual(series[4]);
+  });
+
+  it('reads a one-way market as a full-strength trend', () => {
+    const series = adxSeries(rising, 14);
+    expect(isNaN(series[26].adx)).toBe(true);
+    expect(series[27].adx).toBeCloseTo(100, 10);
+    // Every move is +1 on a true range of 2
+    expect(series[27]).toMatchObject({ plusDI: 50, minusDI: 0 });
+  });
+
+  it('trails a Supertrend stop and flips it when price crosses', () => {
+    const candles = [...rising.slice(0, 30), ...Array.from({ length: 10 }, (_, i) => candle(128 - 3 * i, 124 - 3 * i, 125 - 3 * i))];
+    const series = supertrendSeries(candles, 5, 2);
+
+    expect(series.slice(0, 4).every(stop => isNaN(stop.value))).toBe(true);
+    // Starts in a downtrend at midpoint + 2 ATR, until a close clears it
+    expect(series[4]).toEqual({ value: 108, direction: -1 });
+    expect(series[8]).toEqual({ value: 108, direction: -1 });
+    expect(series[9]).toEqual({ value: 105, direction: 1 });
+    expect(series[29]).toEqual({ value: 125, direction: 1 });
+    expect(series[31].direction).toBe(-1);
+    expect(series[31].value).toBeGreaterThan(candles[31].close);
+    expect(supertrend(candles, 5, 2)).toEqual(series[series.length - 1]);
+  });
+
+  it('accelerates the Parabolic SAR and reverses it at the extreme price', () => {
+    const candles = [
+      candle(10, 9, 9.5),
+      candle(11, 10, 10.5),
+      candle(12, 11, 11.5),
+      candle(13, 12, 12.5),
+      candle(11, 8, 8.5),
+      candle(10, 7, 7.5),
+    ];
+    const series = parabolicSarSeries(candles);
+
+    expect(isNaN(series[0].value)).toBe(true);
+    // Never above the previous two lows while rising
+    expect(series.slice(1, 3)).toEqual([{ value: 9, direction: 1 }, { value: 9, direction: 1 }]);
+    expect(series[3].value).toBeCloseTo(9.12, 10);
+    expect(series.slice(4)).toEqual([{ value: 13, direction: -1 }, { value: 13, direction: -1 }]);
+  });
+
+  it('shifts the Ichimoku spans forward and Chikou back', () => {
+    const candles = rising.slice(0, 60);
+    const series = ichimokuSeries(candles);
+    const latest = ichimoku(candles);
+
+    expect(series).toHaveLength(60 + 26);
+    expect(series[59]).toMatchObject({ tenkan: latest.tenkan, kijun: latest.kijun });
+    expect(series[59 + 26]).toMatchObject({ senkouA: latest.senkouA, senkouB: latest.senkouB });
+    expect(isNaN(series[59 + 26].tenkan)).toBe(true);
+    expect(series[10].chikou).toBe(candles[36].close);
+    expect(isNaN(series[34].chikou)).toBe(true);
+    expect(isNaN(series[51 + 25].senkouB)).toBe(true);
+    expect(series[51 + 26].senkouB).toBe(latest.senkouB - 8);
+  });
+
+  it('offers the new indicators as conditions', () => {
+    const { adxTrendUp, adxTrendDown, supertrendBullish, supertrendBearish } = indicatorConditions;
+    const { parabolicSarBullish, parabolicSarBearish, priceAboveCloud, priceBelowCloud } = indicatorConditions;
+
+    [adxTrendUp, supertrendBullish, parabolicSarBullish, priceAboveCloud].forEach(condition => {
+      expect(condition(rising)).toMatchObject({ met: true, reason: expect.any(String) });
+      expect(condition(falling).met).toBe(false);
+    });
+    [adxTrendDown, supertrendBearish, parabolicSarBearish, priceBelowCloud].forEach(condition => {
+      expect(condition(falling)).toMatchObject({ met: true, reason: expect.any(String) });
+      expect(condition(rising).met).toBe(false);
+    });
+    expect(priceAboveCloud(rising.slice(0, 70))).toEqual({ met: false, confidence: 0 });
+  });
+});
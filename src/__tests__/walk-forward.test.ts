@@ -0,0 +1,91 @@
+import { gridCombinations, randomCombinations, runWalkForward } from '@/lib/backtesting/optimizer';
+import { DEFAULT_BACKTEST_PARAMS } from '@/lib/backtesting/engine';
+import type { Candle } from '@/lib/types';
+
+function genCandles(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 + Math.sin(i / 5) * 3;
+    return {
+      time: i * 300,
+      open: close,
+      high: close * 1.01,
+      low: close * 0.99,
+      close,
+      volume: 100,
+      closeTime: i * 300 + 299,
+      quoteAssetVolume: close * 100,
+      trades: 10,
+      takerBuyBaseAssetVolume: 50,
+      takerBuyQuoteAssetVolume: close * 50,
+    };
+  });
+}
+
+describe('walk-forward optimizer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('expands a grid into every combination', () => {
+    const combos = gridCombinations({ stopLossPct: [0.005, 0.01], takeProfitPct: [0.01, 0.02, 0.03] });
+    expect(combos).toHaveLength(6);
+    expect(combos.every(c => c.minConfidence === DEFAULT_BACKTEST_PARAMS.minConfidence)).toBe(true);
+  });
+
+  it('samples random combinations from the space', () => {
+    const combos = randomCombinations({ cooldownCandles: [1, 5] }, 4, () => 0.99);
+    expect(combos).toHaveLength(4);
+    expect(combos.every(c => c.cooldownCandles === 5)).toBe(true);
+  });
+
+  it('produces one fold per out-of-sample window and a stitched equity curve', () => {
+    const candles = genCandles(170);
+    const result = runWalkForward({
+      candles,
+      inSampleSize: 40,
+      outOfSampleSize: 20,
+      space: { stopLossPct: [0.005, 0.01], takeProfitPct: [0.01, 0.02] },
+    });
+
+    // windows start at 50, 70, 90, 110 (next start 130 + 60 > 170)
+    expect(result.folds).toHaveLength(4);
+    expect(result.folds[0].outOfSample).toEqual({ startIndex: 90, endIndex: 109 });
+    expect(result.trades.length).toBe(result.folds.reduce((n, f) => n + f.outOfSampleTrades.length, 0));
+    expect(result.equity[0]).toBe(1000);
+    expect(result.metrics.netProfit).toBeCloseTo(result.equity[result.equity.length - 1] - 1000, 6);
+  });
+
+  it('scales each fold\'s trades by the balance it was chained onto', () => {
+    const result = runWalkForward({
+      candles: genCandles(130),
+      inSampleSize: 40,
+      outOfSampleSize: 20,
+      space: { stopLossPct: [0.005, 0.01], takeProfitPct: [0.01, 0.02] },
+    });
+
+    // windows start at 50 and 70; the first fold ends away from the initial balance
+    expect(result.folds).toHaveLength(2);
+    const [first, second] = result.folds;
+    const scale = (1000 + first.outOfSampleMetrics.netProfit) / 1000;
+    expect(scale).not.toBeCloseTo(1, 3);
+
+    const stitched = result.trades.slice(first.outOfSampleTrades.length);
+    expect(stitched).toHaveLength(second.outOfSampleTrades.length);
+    stitched.forEach((t, i) => {
+      expect(t.pnl).toBeCloseTo(second.outOfSampleTrades[i].pnl! * scale, 8);
+      expect(t.quantity).toBeCloseTo(second.outOfSampleTrades[i].quantity! * scale, 8);
+    });
+    const pnl = result.trades.reduce((sum, t) => sum + t.pnl!, 0);
+    expect(pnl).toBeCloseTo(result.equity[result.equity.length - 1] - 1000, 6);
+  });
+
+  it('rejects steps that would overlap the out-of-sample windows', () => {
+    const options = { candles: genCandles(170), inSampleSize: 40, outOfSampleSize: 20, space: { stopLossPct: [0.01] } };
+    expect(() => runWalkForward({ ...options, stepSize: 10 })).toThrow('stepSize must be at least outOfSampleSize');
+    expect(runWalkForward({ ...options, stepSize: 30 }).folds).toHaveLength(3);
+  });
+});
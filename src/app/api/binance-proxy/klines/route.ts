@@ -12,8 +12,19 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Missing symbol, interval, or limit parameters' }, { status: 400 });
   }
 
+  const query = new URLSearchParams({ symbol, interval, limit });
+  // startTime/endTime are optional millisecond timestamps for ranged requests
+  for (const key of ['startTime', 'endTime']) {
+    const value = searchParams.get(key);
+    if (value === null) continue;
+    if (!/^\d+$/.test(value)) {
+      return NextResponse.json({ error: `Invalid ${key}: expected a non-negative integer` }, { status: 400 });
+    }
+    query.set(key, value);
+  }
+
   try {
-    const binanceUrl = `${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
+    const binanceUrl = `${BINANCE_API_BASE}/klines?${query}`;
     const response = await fetch(binanceUrl);
 
     if (!response.ok) {
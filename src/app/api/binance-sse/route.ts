@@ -1,19 +1,97 @@
-import { NextResponse } from 'next/server';
-import WebSocket from 'ws';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatSseEvent, getServerRuntime } from '@/lib/agents/server-runtime';
+import { MessageType } from '@/lib/agents/types';
 
 export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
 
-export async function GET() {
-  // This is a placeholder for SSE implementation
-  // In a real implementation, you would set up a WebSocket server here
-  // and forward Binance WebSocket messages to the client via SSE
-  
-  return new NextResponse(null, {
+const HEARTBEAT_MS = 15000;
+
+/**
+ * The runtime only runs with NEXT_PUBLIC_AGENT_RUNTIME=server; in other modes a request must not
+ * start a second pipeline next to the browser tabs' one
+ */
+function runtimeDisabled(): NextResponse | null {
+  if (process.env.NEXT_PUBLIC_AGENT_RUNTIME === 'server') return null;
+  return NextResponse.json({ error: 'The server agent runtime is disabled' }, { status: 404 });
+}
+
+/**
+ * Stream the server runtime's agent messages as Server-Sent Events (404 unless the runtime is enabled).
+ * Reconnecting EventSources send Last-Event-ID and receive what they missed;
+ * `?lastEventId=` does the same for clients that cannot set headers.
+ */
+export async function GET(request: NextRequest) {
+  const disabled = runtimeDisabled();
+  if (disabled) return disabled;
+
+  const agentRuntime = await getServerRuntime();
+  const lastEventId =
+    request.headers.get('last-event-id') ?? new URL(request.url).searchParams.get('lastEventId');
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      write('retry: 3000\n\n');
+      const unsubscribe = agentRuntime.subscribe(event => write(formatSseEvent(event)), lastEventId);
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
     status: 200,
     headers: {
       'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
+      'Cache-Control': 'no-cache, no-transform',
       'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
     },
   });
 }
+
+/**
+ * Forward a browser request (manual refresh, initial data, indicator settings) to the server runtime's agents
+ */
+export async function POST(request: NextRequest) {
+  const disabled = runtimeDisabled();
+  if (disabled) return disabled;
+
+  let type: MessageType | undefined;
+  let payload: unknown;
+  try {
+    ({ type, payload } = (await request.json()) as { type?: MessageType; payload?: unknown });
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const agentRuntime = await getServerRuntime();
+  if (!type || !agentRuntime.request(type, payload ?? null)) {
+    return NextResponse.json({ error: `Unsupported request: ${type}` }, { status: 400 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { TIMEFRAME_MS } from '@/lib/candle-aggregator';
+import { getArchivedCandles } from '@/lib/candle-archive';
+import { TimeFrame } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps a single response (and the backfill behind it) to a few hundred Binance pages
+const MAX_CANDLES_PER_REQUEST = 200000;
+
+const isValidTimeFrame = (tf: string): tf is TimeFrame => {
+  return ['1m', '5m', '15m', '1h'].includes(tf);
+};
+
+// Accept epoch milliseconds or anything Date can parse (e.g. ISO strings)
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const time = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime();
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * GET handler for archived historical candles
+ * - Query: from, to (ms or ISO), timeframe (default 5m)
+ * - Backfills missing candles from Binance before responding
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const timeFrameParam = searchParams.get('timeframe') || '5m';
+  const from = parseTime(searchParams.get('from'));
+  const to = parseTime(searchParams.get('to')) ?? Date.now();
+
+  if (!isValidTimeFrame(timeFrameParam)) {
+    return NextResponse.json({ error: `Unsupported timeframe: ${timeFrameParam}` }, { status: 400 });
+  }
+  if (from === null || from >= to) {
+    return NextResponse.json({ error: 'Missing or invalid from/to parameters' }, { status: 400 });
+  }
+  if ((to - from) / TIMEFRAME_MS[timeFrameParam] > MAX_CANDLES_PER_REQUEST) {
+    return NextResponse.json(
+      { error: `Range too large: at most ${MAX_CANDLES_PER_REQUEST} candles per request` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { candles, gaps } = await getArchivedCandles(timeFrameParam, from, to);
+    return NextResponse.json({ timeframe: timeFrameParam, from, to, candles, gaps });
+  } catch (err) {
+    console.error(`Candle history backfill (${timeFrameParam}) failed`, err);
+    const status = err instanceof Error && err.message.startsWith('fetch_failed_rate_limit') ? 429 : 502;
+    return NextResponse.json(
+      { error: 'Failed to backfill candle history', details: err instanceof Error ? err.message : String(err) },
+      { status }
+    );
+  }
+}
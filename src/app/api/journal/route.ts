@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { FileJournalStore } from '@/lib/agents/journal-file-store';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Session ids are file names under .cache/journal (see createSessionId)
+const SESSION_ID = /^[\w-]+$/;
+
+/**
+ * GET handler for the server-side message journal (development only)
+ * - Without parameters: `{ sessions }`, the recorded session ids
+ * - `?session=<id>`: `{ entries }`, that session's entries in send order
+ */
+export async function GET(request: Request) {
+  if (process.env.NODE_ENV !== 'development') {
+    return NextResponse.json({ error: 'The journal is only available in development' }, { status: 404 });
+  }
+
+  const store = new FileJournalStore();
+  const session = new URL(request.url).searchParams.get('session');
+  if (session === null) {
+    return NextResponse.json({ sessions: await store.listSessions() });
+  }
+  if (!SESSION_ID.test(session)) {
+    return NextResponse.json({ error: `Invalid session id: ${session}` }, { status: 400 });
+  }
+  const entries = await store.readSession(session);
+  if (entries.length === 0) {
+    return NextResponse.json({ error: `Unknown session: ${session}` }, { status: 404 });
+  }
+  return NextResponse.json({ entries });
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import BusInspector from '@/components/BusInspector';
+
+/**
+ * Dev-only devtools page for the agent message bus
+ */
+export default function BusInspectorPage() {
+  if (process.env.NODE_ENV !== 'development') {
+    return <p className="p-6 text-white/60">The bus inspector is only available in development.</p>;
+  }
+
+  return (
+    <main className="min-h-screen p-6">
+      <h1 className="text-2xl font-bold mb-4">Agent Bus Inspector</h1>
+      <BusInspector />
+    </main>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import JournalReplay from '@/components/JournalReplay';
+
+/**
+ * Dev-only page for replaying recorded agent message journals
+ */
+export default function JournalReplayPage() {
+  if (process.env.NODE_ENV !== 'development') {
+    return <p className="p-6 text-white/60">Journal replay is only available in development.</p>;
+  }
+
+  return (
+    <main className="min-h-screen p-6">
+      <h1 className="text-2xl font-bold mb-4">Agent Journal Replay</h1>
+      <JournalReplay />
+    </main>
+  );
+}
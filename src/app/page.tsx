@@ -2,11 +2,14 @@
 
 import LiveDashboard from '@/components/LiveDashboard';
 import MarketChart from '@/components/MarketChart';
+import SymbolWatchlist from '@/components/SymbolWatchlist';
 import { useState } from 'react';
 import { orchestrator } from '@/lib/agents/Orchestrator'; // Added
+import { useAppState } from '@/hooks/useAppState';
 
 export default function Page() {
   const [refreshTrigger, setRefreshTrigger] = useState(0); // This might become redundant or be used differently
+  const { selectedSymbol } = useAppState();
   
   const handleRefresh = () => {
     // setRefreshTrigger(Date.now()); // Keep or remove depending on how LiveDashboard uses it for non-agent data
@@ -38,9 +41,12 @@ export default function Page() {
           </button>
         </div>
         
+        {/* Latest signal per symbol; selecting one switches the agent-driven panels */}
+        <SymbolWatchlist />
+
         {/* TradingView Chart */}
         <div className="rounded-xl bg-white/5 p-4 shadow-lg">
-          <MarketChart />
+          <MarketChart symbol={selectedSymbol} />
         </div>
         
         {/* Live Dashboard with WebSocket Data */}
@@ -0,0 +1,30 @@
+'use client';
+import { useAppState } from '@/hooks/useAppState';
+import { uiAdapter } from '@/lib/agents/UIAdapter';
+
+/**
+ * Surfaces AGENT_ERROR events (agent handlers that threw, rejected or timed out)
+ */
+export default function AgentErrorBanner() {
+  const { agentErrors } = useAppState();
+  if (agentErrors.length === 0) return null;
+
+  const [latest] = agentErrors;
+
+  return (
+    <div role="alert" className="fixed bottom-4 right-4 z-50 max-w-sm rounded bg-red-900/90 p-3 text-sm text-white shadow-lg">
+      <div className="flex items-start gap-2">
+        <div className="flex-1">
+          <p className="font-medium">
+            {latest.subscriber} {latest.timedOut ? 'timed out' : 'failed'} handling {latest.failedMessage.type}
+          </p>
+          <p className="text-white/70 break-words">{latest.error}</p>
+          {agentErrors.length > 1 && <p className="text-white/50 text-xs mt-1">+{agentErrors.length - 1} earlier</p>}
+        </div>
+        <button aria-label="Dismiss" className="text-white/70 hover:text-white" onClick={uiAdapter.dismissAgentErrors}>
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,46 @@
 'use client';
 
 import { useEffect } from 'react';
-// Import agent singletons to ensure their constructors run and they register with the orchestrator
-// import { dataCollectorAgent } from '@/lib/agents/DataCollector'; // Original DataCollector, now disabled by commenting out its instance export
-import { indicatorEngineAgent } from '@/lib/agents/IndicatorEngine';
-import { signalGeneratorAgent } from '@/lib/agents/SignalGenerator';
-import { uiAdapter } from '@/lib/agents/UIAdapter';
 import { orchestrator } from '@/lib/agents/Orchestrator';
+import { leaderAgents, tabAgents } from '@/lib/agents/registry';
+import { uiAdapter } from '@/lib/agents/UIAdapter';
+import { createTabBridge, electLeader, LEADER_LOCK_NAME } from '@/lib/agents/tab-bridge';
+import { createServerBridge } from '@/lib/agents/server-bridge';
+import { IndexedDBJournalStore, MessageJournal } from '@/lib/agents/journal';
 
 /**
- * Component that initializes all required agents when mounted.
+ * Component that starts the app's agents when mounted and stops them on unmount,
+ * so hot reloads and strict-mode remounts never leave duplicate subscriptions behind.
+ * The pipeline agents run in one tab only (the elected leader); other tabs follow its bus.
+ * With NEXT_PUBLIC_AGENT_RUNTIME=server the pipeline runs in the Node process and every tab follows it.
  * Should be placed high in the app component tree.
  */
 export function AgentInitializer() {
   useEffect(() => {
     console.log('AgentInitializer: Mounted, initializing agents...');
+    tabAgents.start();
+
+    // Until this tab wins the leader lock it only mirrors the leader's bus (or the server's)
+    const serverBridge = process.env.NEXT_PUBLIC_AGENT_RUNTIME === 'server' ? createServerBridge(orchestrator) : null;
+    const bridge = serverBridge ? null : createTabBridge(orchestrator);
+    bridge?.setRole('follower');
+    uiAdapter.setNotificationsEnabled(!bridge && !serverBridge);
+    const resign = electLeader(LEADER_LOCK_NAME, () => {
+      // The leader tab is the one that shows signal notifications
+      uiAdapter.setNotificationsEnabled(true);
+      if (serverBridge) return;
+      console.log('AgentInitializer: This tab leads the agent pipeline.');
+      bridge?.setRole('leader');
+      leaderAgents.start();
+    });
+
+    // Opt-in message journal for later replay (see README: Agent message journal)
+    let journal: MessageJournal | null = null;
+    if (process.env.NEXT_PUBLIC_AGENT_JOURNAL === 'true' && typeof indexedDB !== 'undefined') {
+      journal = new MessageJournal(orchestrator, new IndexedDBJournalStore());
+      journal.start();
+      console.log(`AgentInitializer: Recording agent messages to journal session ${journal.sessionId}`);
+    }
     
     // DataCollectorAgent initialization is now deferred until MAN MANUAL_DATA_REFRESH_REQUEST (main refresh button).
     // We will still send REQUEST_INITIAL_DATA, and DataCollectorAgent will respond if it's already been initialized.
@@ -52,7 +78,12 @@ export function AgentInitializer() {
     // Cleanup function
     return () => {
       console.log('AgentInitializer: Cleaning up...');
-      // Any cleanup if needed
+      journal?.stop();
+      resign();
+      bridge?.close();
+      serverBridge?.close();
+      leaderAgents.stop();
+      tabAgents.stop();
     };
   }, []);
 
@@ -1,31 +1,112 @@
 'use client';
 import { useState } from 'react';
 import { DataCard } from './DataCard';
-import type { Candle } from '@/lib/types';
+import type { Candle, Interval } from '@/lib/types';
+import type { FillPolicy } from '@/lib/backtesting/intrabar';
+import { fetchCandleHistory } from '@/lib/backtesting/history';
+import { toMs } from '@/lib/backtesting/time';
+import {
+  ColumnMapping,
+  CsvFormat,
+  DEFAULT_COLUMN_MAPPING,
+  importCandlesCsv,
+} from '@/lib/backtesting/csv-import';
+import { STRATEGIES, StrategyId } from '@/lib/backtesting/strategies';
+
+export type BacktestDataSource = 'memory' | 'archive' | 'file';
+
+// Besides the archived 1m/5m/15m/1h, fetchCandleHistory aggregates these from shorter candles
+const ARCHIVE_INTERVALS: Interval[] = ['1m', '3m', '5m', '10m', '15m', '30m', '1h', '4h', '1d'];
 
 interface Props {
   candles: Candle[];
-  onRun: (opts: { candles: Candle[]; preset: string }) => void;
+  onRun: (opts: {
+    candles: Candle[];
+    preset: string;
+    fillPolicy: FillPolicy;
+    source: BacktestDataSource;
+    strategies: StrategyId[]; // more than one runs a side-by-side comparison
+  }) => void;
 }
 
 export default function BacktestConfigPanel({ candles, onRun }: Props) {
-  const first = candles[0]?.time ? new Date(candles[0].time * 1000) : new Date();
-  const last = candles[candles.length - 1]?.time ? new Date(candles[candles.length - 1].time * 1000) : new Date();
+  const first = candles[0]?.time ? new Date(toMs(candles[0].time)) : new Date();
+  const last = candles[candles.length - 1]?.time ? new Date(toMs(candles[candles.length - 1].time)) : new Date();
   const [start, setStart] = useState(first.toISOString().slice(0,16));
   const [end, setEnd] = useState(last.toISOString().slice(0,16));
   const [preset, setPreset] = useState('default');
+  const [fillPolicy, setFillPolicy] = useState<FillPolicy>('pessimistic');
+  const [source, setSource] = useState<BacktestDataSource>('memory');
+  const [timeFrame, setTimeFrame] = useState<Interval>('5m');
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [csvFormat, setCsvFormat] = useState<CsvFormat>('binance');
+  const [mapping, setMapping] = useState<ColumnMapping>(DEFAULT_COLUMN_MAPPING);
+  const [file, setFile] = useState<File | null>(null);
+  const [strategies, setStrategies] = useState<StrategyId[]>(['legacy']);
   const maxCandles = 5000;
 
-  const run = () => {
-    const s = new Date(start).getTime() / 1000;
-    const e = new Date(end).getTime() / 1000;
-    if (isNaN(s) || isNaN(e) || s >= e) return;
-    const selected = candles.filter(c => c.time >= s && c.time <= e);
+  const toggleStrategy = (id: StrategyId) => {
+    setStrategies(current => (current.includes(id) ? current.filter(s => s !== id) : [...current, id]));
+  };
+
+  const runFromFile = async (s: number, e: number) => {
+    if (!file) {
+      setStatus('Choose a CSV file first');
+      return;
+    }
+    setStatus(null);
+    try {
+      const { candles: imported, issues } = importCandlesCsv(await file.text(), { format: csvFormat, mapping });
+      if (issues.length > 0) {
+        const first = issues[0];
+        setStatus(`${issues.length} invalid candle(s), first at row ${first.index + 1}: ${first.message}`);
+        return;
+      }
+      const selected = imported.filter(c => c.time >= s && c.time <= e);
+      if (selected.length === 0) {
+        setStatus(`No candles in range (file covers ${new Date(imported[0]?.time ?? 0).toISOString()} onwards)`);
+        return;
+      }
+      onRun({ candles: selected, preset, fillPolicy, source, strategies });
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const run = async () => {
+    const s = new Date(start).getTime();
+    const e = new Date(end).getTime();
+    if (isNaN(s) || isNaN(e) || s >= e || strategies.length === 0) return;
+
+    if (source === 'file') {
+      await runFromFile(s, e);
+      return;
+    }
+
+    if (source === 'archive') {
+      setLoading(true);
+      setStatus(null);
+      try {
+        const history = await fetchCandleHistory(timeFrame, s, e);
+        if (history.gaps.length > 0) {
+          setStatus(`${history.gaps.length} gap(s) could not be backfilled`);
+        }
+        onRun({ candles: history.candles, preset, fillPolicy, source, strategies });
+      } catch (err) {
+        setStatus(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
+    const selected = candles.filter(c => toMs(c.time) >= s && toMs(c.time) <= e);
     if (selected.length > maxCandles) {
       alert('Range too large');
       return;
     }
-    onRun({ candles: selected, preset });
+    onRun({ candles: selected, preset, fillPolicy, source, strategies });
   };
 
   return (
@@ -50,6 +131,65 @@ export default function BacktestConfigPanel({ candles, onRun }: Props) {
             className="bg-neutral-800 p-1 rounded text-sm"
           />
         </div>
+        <div className="flex justify-between items-center">
+          <label>Data</label>
+          <select
+            value={source}
+            onChange={e => setSource(e.target.value as BacktestDataSource)}
+            className="bg-neutral-800 p-1 rounded"
+          >
+            <option value="memory">Loaded candles</option>
+            <option value="archive">Historical archive</option>
+            <option value="file">CSV file</option>
+          </select>
+        </div>
+        {source === 'file' && (
+          <>
+            <div className="flex justify-between items-center">
+              <label>Format</label>
+              <select
+                value={csvFormat}
+                onChange={e => setCsvFormat(e.target.value as CsvFormat)}
+                className="bg-neutral-800 p-1 rounded"
+              >
+                <option value="binance">Binance klines</option>
+                <option value="ohlcv">Generic OHLCV</option>
+              </select>
+            </div>
+            {csvFormat === 'ohlcv' && (Object.keys(mapping) as (keyof ColumnMapping)[]).map(key => (
+              <div key={key} className="flex justify-between items-center">
+                <label className="capitalize">{key} column</label>
+                <input
+                  value={String(mapping[key])}
+                  onChange={e => setMapping({ ...mapping, [key]: e.target.value })}
+                  className="bg-neutral-800 p-1 rounded text-sm w-32"
+                />
+              </div>
+            ))}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={e => setFile(e.target.files?.[0] ?? null)}
+              className="w-full text-xs"
+            />
+          </>
+        )}
+        {source === 'archive' && (
+          <div className="flex justify-between items-center">
+            <label>Timeframe</label>
+            <select
+              value={timeFrame}
+              onChange={e => setTimeFrame(e.target.value as Interval)}
+              className="bg-neutral-800 p-1 rounded"
+            >
+              {ARCHIVE_INTERVALS.map(interval => (
+                <option key={interval} value={interval}>
+                  {interval}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
         <div className="flex justify-between items-center">
           <label>Preset</label>
           <select
@@ -61,12 +201,41 @@ export default function BacktestConfigPanel({ candles, onRun }: Props) {
             <option value="aggressive">Aggressive</option>
           </select>
         </div>
+        <div>
+          <label>Strategies</label>
+          <div className="grid grid-cols-2 gap-1 mt-1">
+            {STRATEGIES.map(strategy => (
+              <label key={strategy.id} className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  checked={strategies.includes(strategy.id)}
+                  onChange={() => toggleStrategy(strategy.id)}
+                />
+                {strategy.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex justify-between items-center">
+          <label>Intrabar Fills</label>
+          <select
+            value={fillPolicy}
+            onChange={e => setFillPolicy(e.target.value as FillPolicy)}
+            className="bg-neutral-800 p-1 rounded"
+          >
+            <option value="pessimistic">Pessimistic (stop first)</option>
+            <option value="optimistic">Optimistic (target first)</option>
+            <option value="subcandles">1m sub-candles</option>
+          </select>
+        </div>
         <button
           onClick={run}
-          className="mt-2 w-full bg-blue-600 hover:bg-blue-500 text-white py-1 rounded"
+          disabled={loading}
+          className="mt-2 w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white py-1 rounded"
         >
-          Run
+          {loading ? 'Loading history...' : strategies.length > 1 ? 'Compare' : 'Run'}
         </button>
+        {status && <div className="text-xs text-yellow-400">{status}</div>}
       </div>
     </DataCard>
   );
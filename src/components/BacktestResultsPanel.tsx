@@ -1,12 +1,32 @@
 'use client';
+import { useMemo } from 'react';
 import { DataCard } from './DataCard';
+import RiskStatistics from './RiskStatistics';
 import type { BacktestResult } from '@/lib/backtesting/engine';
+import { runMonteCarlo } from '@/lib/backtesting/monte-carlo';
 
 interface Props {
   result: BacktestResult | null;
 }
 
+const MONTE_CARLO_ITERATIONS = 1000;
+
+function toPoints(values: number[], min: number, max: number): string[] {
+  return values.map((v, i) => {
+    const x = values.length > 1 ? (i / (values.length - 1)) * 100 : 0;
+    const y = max === min ? 20 : 40 - ((v - min) / (max - min)) * 40;
+    return `${x},${y}`;
+  });
+}
+
 export default function BacktestResultsPanel({ result }: Props) {
+  const monteCarlo = useMemo(
+    () => (result && result.trades.length > 1
+      ? runMonteCarlo(result.trades, { iterations: MONTE_CARLO_ITERATIONS, initialBalance: result.equity[0] })
+      : null),
+    [result]
+  );
+
   if (!result) {
     return (
       <DataCard>
@@ -26,6 +46,17 @@ export default function BacktestResultsPanel({ result }: Props) {
     })
     .join(' ');
 
+  let fan: { band: string; median: string } | null = null;
+  if (monteCarlo) {
+    const { p5, p50, p95 } = monteCarlo.equityFan;
+    const fanMin = Math.min(...p5);
+    const fanMax = Math.max(...p95);
+    fan = {
+      band: [...toPoints(p95, fanMin, fanMax), ...toPoints(p5, fanMin, fanMax).reverse()].join(' '),
+      median: toPoints(p50, fanMin, fanMax).join(' '),
+    };
+  }
+
   return (
     <DataCard>
       <h2 className="text-xl font-medium mb-2">Backtest Results</h2>
@@ -35,7 +66,13 @@ export default function BacktestResultsPanel({ result }: Props) {
         <li>Profit Factor: {metrics.profitFactor.toFixed(2)}</li>
         <li>Max Drawdown: {metrics.maxDrawdown.toFixed(2)}%</li>
         <li>Net Profit: {metrics.netProfit.toFixed(2)}</li>
+        <li>Ambiguous Bars: {result.ambiguousBars}</li>
+        {result.subCandleFallbacks > 0 && <li>Resolved Without 1m Candles: {result.subCandleFallbacks}</li>}
+        <li>Skipped Entries: {result.skippedEntries}</li>
       </ul>
+      <div className="mb-3">
+        <RiskStatistics metrics={metrics} />
+      </div>
       <svg viewBox="0 0 100 40" className="w-full h-20 bg-neutral-800 rounded">
         <polyline
           fill="none"
@@ -44,6 +81,26 @@ export default function BacktestResultsPanel({ result }: Props) {
           points={points}
         />
       </svg>
+      {monteCarlo && fan && (
+        <div className="mt-4">
+          <h3 className="text-sm font-medium mb-1">
+            Monte Carlo ({monteCarlo.iterations} runs, 5/50/95 percentile)
+          </h3>
+          <svg viewBox="0 0 100 40" className="w-full h-20 bg-neutral-800 rounded">
+            <polygon fill="#60a5fa" fillOpacity="0.25" stroke="none" points={fan.band} />
+            <polyline fill="none" stroke="#60a5fa" strokeWidth="1" points={fan.median} />
+          </svg>
+          <ul className="text-sm space-y-1 mt-2">
+            <li>
+              Final Equity: {monteCarlo.finalEquity.p5.toFixed(2)} / {monteCarlo.finalEquity.p50.toFixed(2)} /{' '}
+              {monteCarlo.finalEquity.p95.toFixed(2)}
+            </li>
+            <li>Max Drawdown (95th pct): {monteCarlo.maxDrawdown.p95.toFixed(2)}%</li>
+            <li>Longest Losing Streak (95th pct): {Math.round(monteCarlo.longestLosingStreak.p95)}</li>
+            <li>Risk of Ruin: {monteCarlo.riskOfRuin.toFixed(1)}%</li>
+          </ul>
+        </div>
+      )}
     </DataCard>
   );
 }
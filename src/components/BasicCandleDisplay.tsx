@@ -16,7 +16,7 @@ export default function BasicCandleDisplay() {
       setCandles(message.payload);
       setError(null);
       console.log('Received initial candles:', message.payload.length);
-    });
+    }, 'BasicCandleDisplay');
 
     // Subscribe to live updates
     const unsubscribeLive = orchestrator.register('LIVE_CANDLE_UPDATE_5M', (message) => {
@@ -35,13 +35,14 @@ export default function BasicCandleDisplay() {
         // Keep only the last 10 candles
         return newCandles.slice(-10);
       });
-    });
+    }, 'BasicCandleDisplay');
 
     // Subscribe to errors
     const unsubscribeError = orchestrator.register('DATA_ERROR', (message) => {
-      setError(message.payload?.message || 'An error occurred');
+      const payload = message.payload;
+      setError((typeof payload === 'string' ? payload : payload?.message) || 'An error occurred');
       console.error('Data error:', message.payload);
-    });
+    }, 'BasicCandleDisplay');
 
     // Request initial data
     orchestrator.send({
@@ -0,0 +1,204 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import { DataCard } from './DataCard';
+import { orchestrator } from '@/lib/agents/Orchestrator';
+import { BusInspector as Inspector, InspectedMessage, MessageFilter } from '@/lib/agents/inspector';
+import { MESSAGE_TYPES } from '@/lib/agents/messages';
+import { leaderAgents, tabAgents } from '@/lib/agents/registry';
+import type { AgentName, MessageType } from '@/lib/agents/types';
+
+// Re-render at most this often; the bus can emit many messages per second
+const REFRESH_MS = 500;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function formatMs(ms: number | null): string {
+  return ms === null ? '…' : `${ms.toFixed(2)} ms`;
+}
+
+function MessageDetails({ record }: { record: InspectedMessage }) {
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <div>
+        <div className="text-white/60">Handlers</div>
+        {record.handlers && record.handlers.length > 0 ? (
+          record.handlers.map((h, i) => (
+            <div key={i} className={h.error ? 'text-red-400' : undefined}>
+              {h.subscriber}: {formatMs(h.durationMs)}
+              {h.error && ` — ${h.error}`}
+            </div>
+          ))
+        ) : (
+          <div className="text-white/40">{record.handlers ? 'No subscribers' : 'Delivering…'}</div>
+        )}
+      </div>
+      <div>
+        <div className="text-white/60">Changes since previous {record.message.type}</div>
+        {record.diff === null ? (
+          <div className="text-white/40">First message of this type</div>
+        ) : record.diff.length === 0 ? (
+          <div className="text-white/40">Identical payload</div>
+        ) : (
+          record.diff.map(change => (
+            <div key={change.path} className="font-mono">
+              {change.path || '(payload)'}: <span className="text-red-300">{formatValue(change.before)}</span> →{' '}
+              <span className="text-green-300">{formatValue(change.after)}</span>
+            </div>
+          ))
+        )}
+      </div>
+      <pre className="bg-neutral-900 rounded p-2 overflow-auto max-h-48">
+        {JSON.stringify(record.message.payload, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Devtools view of the app-wide orchestrator: live message log, payload diffs,
+ * handler timings, per-type throughput and who subscribes to what.
+ */
+export default function BusInspector() {
+  const inspector = useMemo(() => new Inspector(orchestrator), []);
+  const [, setTick] = useState(0);
+  const [filter, setFilter] = useState<MessageFilter>({});
+  const [paused, setPaused] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  useEffect(() => {
+    let dirty = false;
+    const unsubscribe = inspector.subscribe(() => {
+      dirty = true;
+    });
+    const timer = setInterval(() => {
+      if (dirty) {
+        dirty = false;
+        setTick(t => t + 1);
+      }
+    }, REFRESH_MS);
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+      inspector.stop();
+    };
+  }, [inspector]);
+
+  useEffect(() => {
+    if (paused) inspector.stop();
+    else inspector.start();
+  }, [inspector, paused]);
+
+  const messages = inspector.getMessages(filter);
+  const senders = Array.from(new Set(inspector.getMessages().map(r => r.message.from))).sort();
+  const throughput = inspector.getThroughput();
+  const subscriberMap = inspector.getSubscriberMap();
+  const agentHealth = Object.entries({ ...leaderAgents.health(), ...tabAgents.health() });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <DataCard className="lg:col-span-2">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <h2 className="text-xl font-medium mr-auto">Messages</h2>
+          <select
+            className="bg-neutral-800 rounded px-2 py-1 text-sm"
+            value={filter.from ?? ''}
+            onChange={e => setFilter(f => ({ ...f, from: (e.target.value || undefined) as AgentName | undefined }))}
+          >
+            <option value="">All agents</option>
+            {senders.map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <select
+            className="bg-neutral-800 rounded px-2 py-1 text-sm"
+            value={filter.type ?? ''}
+            onChange={e => setFilter(f => ({ ...f, type: (e.target.value || undefined) as MessageType | undefined }))}
+          >
+            <option value="">All types</option>
+            {MESSAGE_TYPES.map(type => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <button className="bg-neutral-700 rounded px-2 py-1 text-sm" onClick={() => setPaused(p => !p)}>
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button className="bg-neutral-700 rounded px-2 py-1 text-sm" onClick={() => inspector.clear()}>
+            Clear
+          </button>
+        </div>
+        <div className="max-h-[70vh] overflow-auto text-sm">
+          {messages.length === 0 && <p className="text-white/40">No messages yet.</p>}
+          {messages.map(record => (
+            <div key={record.id} className="border-b border-white/10 py-1">
+              <button
+                className="w-full flex gap-3 text-left"
+                onClick={() => setSelected(id => (id === record.id ? null : record.id))}
+              >
+                <span className="text-white/40 tabular-nums">{new Date(record.receivedAt).toLocaleTimeString()}</span>
+                <span className="text-blue-300">{record.message.from}</span>
+                <span className="font-mono">{record.message.type}</span>
+                <span className="ml-auto text-white/60 tabular-nums">{formatMs(record.totalMs)}</span>
+              </button>
+              {selected === record.id && <MessageDetails record={record} />}
+            </div>
+          ))}
+        </div>
+      </DataCard>
+
+      <div className="space-y-4">
+        <DataCard>
+          <h2 className="text-xl font-medium mb-2">Agents</h2>
+          {agentHealth.map(([name, health]) => (
+            <div key={name} className="text-sm py-0.5">
+              <span className={health?.healthy ? 'text-green-400' : 'text-yellow-400'}>●</span> {name}{' '}
+              <span className="text-white/60">
+                {health?.status}
+                {health?.detail && ` — ${health.detail}`}
+              </span>
+            </div>
+          ))}
+        </DataCard>
+
+        <DataCard>
+          <h2 className="text-xl font-medium mb-2">Throughput (last minute)</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-white/60">
+                <th className="font-normal">Type</th>
+                <th className="font-normal text-right">Msgs/min</th>
+                <th className="font-normal text-right">Avg handlers</th>
+              </tr>
+            </thead>
+            <tbody>
+              {throughput.map(t => (
+                <tr key={t.type}>
+                  <td className="font-mono text-xs">{t.type}</td>
+                  <td className="text-right tabular-nums">{t.perMinute.toFixed(1)}</td>
+                  <td className="text-right tabular-nums">{formatMs(t.avgHandlerMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </DataCard>
+
+        <DataCard>
+          <h2 className="text-xl font-medium mb-2">Subscribers</h2>
+          {MESSAGE_TYPES.map(type => (
+            <div key={type} className="text-sm py-0.5">
+              <span className="font-mono text-xs">{type}</span>
+              <span className="text-white/60"> → {subscriberMap[type]?.join(', ') || 'none'}</span>
+            </div>
+          ))}
+        </DataCard>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,19 @@ import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react'
 import { Candle } from '@/lib/types';
 import { useMarketData } from '@/hooks/useMarketData';
 // import { MarketRegime } from '@/lib/market/regime'; // regime prop is used, ensure this is the correct type or from useMarketData
-import { createChart, ColorType, CrosshairMode, ISeriesApi, CandlestickData, UTCTimestamp, LineStyle, IChartApi } from 'lightweight-charts';
+import { createChart, ColorType, CrosshairMode, ISeriesApi, CandlestickData, UTCTimestamp, LineStyle, IChartApi, LineData, LineSeries, LineSeriesPartialOptions, WhitespaceData } from 'lightweight-charts';
 import { detectEMACross, EMACrossResult } from '@/lib/signals/ema-crossover';
 import { VolumeSpikes } from './VolumeSpikes';
+import { adxSeries, ichimokuSeries, parabolicSarSeries, supertrendSeries, TrailingStop } from '@/lib/indicators';
+
+export type ChartOverlay = 'ichimoku' | 'supertrend' | 'psar' | 'adx';
+
+const OVERLAY_LABELS: Record<ChartOverlay, string> = {
+  ichimoku: 'Ichimoku',
+  supertrend: 'Supertrend',
+  psar: 'SAR',
+  adx: 'ADX',
+};
 
 interface CandleChartProps {
   symbol?: string;
@@ -12,6 +22,8 @@ interface CandleChartProps {
   width?: number | string;
   height?: number | string;
   className?: string;
+  /** Indicator overlays shown at first; the buttons on the chart toggle them */
+  defaultOverlays?: ChartOverlay[];
 }
 
 export const CandleChart: React.FC<CandleChartProps> = ({
@@ -20,18 +32,16 @@ export const CandleChart: React.FC<CandleChartProps> = ({
   width = '100%',
   height = 400,
   className = '',
+  defaultOverlays = [],
 }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<ReturnType<typeof createChart> | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
   const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [overlays, setOverlays] = useState<ChartOverlay[]>(defaultOverlays);
   
-  const { candles, regime, currentPrice, isConnected } = useMarketData({
-    symbol,
-    interval,
-    mockMode: true, // Forcing mockMode for reliable dev signals
-  });
+  const { candles, regime, currentPrice, isConnected } = useMarketData({ symbol, interval });
   
   const [emaSignals, setEmaSignals] = useState<EMACrossResult | null>(null);
   
@@ -84,15 +94,16 @@ export const CandleChart: React.FC<CandleChartProps> = ({
     // Assuming emaSignals (state) is what subsequent logic expects after being set by the effect.
     if (!emaSignals) return; // Guard against null emaSignals state
 
+    // EMAs are NaN until their period has passed; the chart can't plot those points
     const ema9Data = emaSignals.fastEMA.map((value, index) => ({
       time: Math.floor(new Date(candles[index].time).getTime() / 1000) as UTCTimestamp,
       value,
-    }));
+    })).filter(point => !isNaN(point.value));
     
     const ema21Data = emaSignals.slowEMA.map((value, index) => ({
       time: Math.floor(new Date(candles[index].time).getTime() / 1000) as UTCTimestamp,
       value,
-    }));
+    })).filter(point => !isNaN(point.value));
     
     ema9Line.setData(ema9Data);
     ema21Line.setData(ema21Data);
@@ -336,6 +347,7 @@ export const CandleChart: React.FC<CandleChartProps> = ({
     // Cleanup
     return () => {
       window.removeEventListener('resize', handleResize);
+      chartRef.current = null;
       chart.remove();
       if (container.parentNode) {
         container.parentNode.removeChild(container);
@@ -379,6 +391,74 @@ export const CandleChart: React.FC<CandleChartProps> = ({
     }
   }, [candles, isLoading]);
 
+  // Indicator overlays. The Ichimoku spans run past the last candle, at the candle interval.
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || candles.length < 2 || overlays.length === 0) return;
+
+    const last = candles[candles.length - 1];
+    const interval = last.time - candles[candles.length - 2].time;
+    const timeAt = (index: number) =>
+      Math.floor((candles[index]?.time ?? last.time + (index - candles.length + 1) * interval) / 1000) as UTCTimestamp;
+    // NaN becomes whitespace, so lines break where an indicator has no value
+    const points = (values: number[], color?: (index: number) => string): (LineData | WhitespaceData)[] =>
+      values.map((value, index) =>
+        isNaN(value) ? { time: timeAt(index) } : { time: timeAt(index), value, ...(color && { color: color(index) }) }
+      );
+
+    const added: ISeriesApi<'Line'>[] = [];
+    const addLine = (data: (LineData | WhitespaceData)[], options: LineSeriesPartialOptions) => {
+      const series = chart.addSeries(LineSeries, { lineWidth: 1, priceLineVisible: false, lastValueVisible: false, ...options });
+      series.setData(data);
+      added.push(series);
+    };
+    const stopSide = (stops: TrailingStop[], direction: number) =>
+      stops.map(stop => (stop.direction === direction ? stop.value : NaN));
+
+    if (overlays.includes('ichimoku')) {
+      const lines = ichimokuSeries(candles);
+      addLine(points(lines.map(l => l.tenkan)), { color: '#2563EB', title: 'Tenkan' });
+      addLine(points(lines.map(l => l.kijun)), { color: '#DC2626', title: 'Kijun' });
+      addLine(points(lines.map(l => l.senkouA)), { color: '#16A34A', title: 'Senkou A' });
+      addLine(points(lines.map(l => l.senkouB)), { color: '#EA580C', title: 'Senkou B' });
+      addLine(points(lines.map(l => l.chikou)), { color: '#7C3AED', lineStyle: LineStyle.Dotted, title: 'Chikou' });
+    }
+
+    if (overlays.includes('supertrend')) {
+      const stops = supertrendSeries(candles);
+      addLine(points(stopSide(stops, 1)), { color: '#10B981', lineWidth: 2, title: 'Supertrend' });
+      addLine(points(stopSide(stops, -1)), { color: '#EF4444', lineWidth: 2 });
+    }
+
+    if (overlays.includes('psar')) {
+      const stops = parabolicSarSeries(candles);
+      addLine(
+        points(stops.map(stop => stop.value), index => (stops[index].direction === 1 ? '#10B981' : '#EF4444')),
+        { lineVisible: false, pointMarkersVisible: true, pointMarkersRadius: 2, title: 'SAR' }
+      );
+    }
+
+    if (overlays.includes('adx')) {
+      // 0-100 values on their own scale along the bottom of the chart
+      const lines = adxSeries(candles);
+      const adxScale = { priceScaleId: 'adx' };
+      addLine(points(lines.map(l => l.adx)), { ...adxScale, color: '#111827', lineWidth: 2, title: 'ADX' });
+      addLine(points(lines.map(l => l.plusDI)), { ...adxScale, color: '#10B981', title: '+DI' });
+      addLine(points(lines.map(l => l.minusDI)), { ...adxScale, color: '#EF4444', title: '-DI' });
+      chart.priceScale('adx').applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+    }
+
+    return () => {
+      // The chart may already be gone on unmount
+      if (chartRef.current === chart) {
+        added.forEach(series => chart.removeSeries(series));
+      }
+    };
+  }, [candles, overlays]);
+
+  const toggleOverlay = (overlay: ChartOverlay) =>
+    setOverlays(current => (current.includes(overlay) ? current.filter(o => o !== overlay) : [...current, overlay]));
+
   // Update chart colors based on market regime
   useEffect(() => {
     if (!chartRef.current) return;
@@ -458,6 +538,24 @@ export const CandleChart: React.FC<CandleChartProps> = ({
       <div className="relative" style={{ height: '70%' }}>
         <div ref={chartContainerRef} className="w-full h-full rounded-t-lg border border-b-0 border-gray-200" />
         
+        {/* Overlay toggles */}
+        <div className="absolute top-2 left-2 flex space-x-1">
+          {(Object.keys(OVERLAY_LABELS) as ChartOverlay[]).map(overlay => (
+            <button
+              key={overlay}
+              type="button"
+              onClick={() => toggleOverlay(overlay)}
+              className={`px-1.5 py-0.5 text-xs rounded border ${
+                overlays.includes(overlay)
+                  ? 'bg-gray-800 text-white border-gray-800'
+                  : 'bg-white/80 text-gray-600 border-gray-200'
+              }`}
+            >
+              {OVERLAY_LABELS[overlay]}
+            </button>
+          ))}
+        </div>
+
         {/* Connection status indicator */}
         <div className="absolute top-2 right-2 flex items-center space-x-2">
           <div 
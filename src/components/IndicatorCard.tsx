@@ -1,14 +1,11 @@
 import { DataCard } from './DataCard';
 import { Candle } from '@/lib/types';
-import { rsi14, ema, vwap, bollingerBands } from '@/lib/indicators';
-
-const ema12 = ema(12);
-const ema26 = ema(26);
+import { bollingerBands, candleEMA, rsi, vwap } from '@/lib/indicators';
 
 export function IndicatorCard({ candles }: { candles: Candle[] }) {
-  const rsi = rsi14(candles).toFixed(2);
-  const e12 = ema12(candles).toFixed(2);
-  const e26 = ema26(candles).toFixed(2);
+  const rsiValue = rsi(candles, 14).toFixed(2);
+  const e12 = candleEMA(candles, 12).toFixed(2);
+  const e26 = candleEMA(candles, 26).toFixed(2);
   const vw = vwap(candles).toFixed(2);
   const last = candles[candles.length - 1]?.close.toFixed(2);
   
@@ -19,7 +16,7 @@ export function IndicatorCard({ candles }: { candles: Candle[] }) {
   const bbLower = bb.lower.toFixed(2);
   
   const rows = [
-    ['RSI', rsi],
+    ['RSI', rsiValue],
     ['EMA12', e12],
     ['EMA26', e26],
     ['VWAP', vw],
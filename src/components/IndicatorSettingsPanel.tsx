@@ -0,0 +1,106 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { DataCard } from './DataCard';
+import { useAppState } from '@/hooks/useAppState';
+import { orchestrator } from '@/lib/agents/Orchestrator';
+import {
+  CORE_INDICATOR_IDS,
+  DEFAULT_INDICATOR_SETTINGS,
+  INDICATOR_DEFINITIONS,
+  IndicatorSetting,
+  normalizeIndicatorSettings,
+} from '@/lib/indicators/catalog';
+import { loadIndicatorSettings, saveIndicatorSettings } from '@/lib/storage/indicator-settings';
+
+/**
+ * Choose which indicators the IndicatorEngine calculates and with which parameters. Applying saves
+ * the settings and sends them to the engine, which recalculates every symbol straight away.
+ */
+export default function IndicatorSettingsPanel() {
+  const { latestIndicators } = useAppState();
+  const [settings, setSettings] = useState<IndicatorSetting[]>(DEFAULT_INDICATOR_SETTINGS);
+  const [dirty, setDirty] = useState(false);
+
+  // Saved settings live in localStorage, which only exists after hydration
+  useEffect(() => {
+    setSettings(loadIndicatorSettings());
+  }, []);
+
+  const change = (id: string, update: Partial<IndicatorSetting>) => {
+    setSettings(current => current.map(setting => (setting.id === id ? { ...setting, ...update } : setting)));
+    setDirty(true);
+  };
+
+  const apply = (next: IndicatorSetting[]) => {
+    const normalized = normalizeIndicatorSettings(next);
+    setSettings(normalized);
+    setDirty(false);
+    saveIndicatorSettings(normalized);
+    orchestrator.send({ from: 'UI', type: 'INDICATOR_SETTINGS_UPDATED', payload: normalized, timestamp: Date.now() });
+  };
+
+  const valuesOf = (id: string) =>
+    Object.entries(latestIndicators?.values ?? {}).filter(([key]) => key === id || key.startsWith(`${id}.`));
+
+  return (
+    <DataCard>
+      <h2 className="text-xl font-medium mb-2">Indicators</h2>
+      <div className="space-y-3 text-sm">
+        {settings.map(setting => {
+          const definition = INDICATOR_DEFINITIONS[setting.kind];
+          const core = CORE_INDICATOR_IDS.includes(setting.id);
+          return (
+            <div key={setting.id} className="space-y-1">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={setting.enabled}
+                  disabled={core}
+                  onChange={e => change(setting.id, { enabled: e.target.checked })}
+                />
+                <span className="font-medium">{definition.label}</span>
+                <span className="text-white/40">{setting.id}{core ? ' · used by signals' : ''}</span>
+              </label>
+              {setting.enabled && (
+                <div className="flex flex-wrap gap-3 pl-6">
+                  {definition.params.map(param => (
+                    <label key={param.key} className="flex items-center gap-1 text-white/70">
+                      {param.label}
+                      <input
+                        type="number"
+                        min={param.min}
+                        step={param.step ?? 1}
+                        value={setting.params[param.key]}
+                        onChange={e =>
+                          change(setting.id, { params: { ...setting.params, [param.key]: Number(e.target.value) } })
+                        }
+                        className="bg-neutral-800 p-1 rounded w-16"
+                      />
+                    </label>
+                  ))}
+                  {valuesOf(setting.id).map(([key, value]) => (
+                    <span key={key} className="text-white/50">
+                      {key.slice(setting.id.length + 1) || 'value'}: {value !== null ? value.toFixed(2) : '—'}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <div className="flex gap-2 pt-2">
+          <button
+            onClick={() => apply(settings)}
+            disabled={!dirty}
+            className="bg-blue-600 disabled:opacity-50 px-3 py-1 rounded"
+          >
+            Apply
+          </button>
+          <button onClick={() => apply(normalizeIndicatorSettings(null))} className="bg-neutral-800 px-3 py-1 rounded">
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </DataCard>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import { DataCard } from './DataCard';
+import { IndexedDBJournalStore, JournalEntry } from '@/lib/agents/journal';
+import { replayJournal, ReplaySession } from '@/lib/agents/replay';
+import type { AgentMessage, TradingSignal } from '@/lib/agents/types';
+
+type JournalSource = 'browser' | 'server';
+
+// Re-render at most this often while a replay is running
+const REFRESH_MS = 500;
+
+const SPEEDS: { label: string; value: number }[] = [
+  { label: 'Instant', value: Infinity },
+  { label: '1×', value: 1 },
+  { label: '10×', value: 10 },
+  { label: '100×', value: 100 },
+];
+
+async function listSessions(source: JournalSource): Promise<string[]> {
+  if (source === 'browser') return new IndexedDBJournalStore().listSessions();
+  const res = await fetch('/api/journal');
+  const body = await res.json();
+  if (!res.ok) throw new Error(body?.error ?? `fetch_failed: Status ${res.status}.`);
+  return body.sessions;
+}
+
+async function loadSession(source: JournalSource, sessionId: string): Promise<JournalEntry[]> {
+  if (source === 'browser') return new IndexedDBJournalStore().readSession(sessionId);
+  const res = await fetch(`/api/journal?session=${encodeURIComponent(sessionId)}`);
+  const body = await res.json();
+  if (!res.ok) throw new Error(body?.error ?? `fetch_failed: Status ${res.status}.`);
+  return body.entries;
+}
+
+const signalsOf = (messages: AgentMessage[]): TradingSignal[] =>
+  messages.filter(m => m.type === 'NEW_SIGNAL_5M' && m.from === 'SignalGenerator').map(m => m.payload as TradingSignal);
+
+function formatSignal(signal: TradingSignal | undefined): string {
+  return signal ? `${signal.action} ${signal.confidence.toFixed(1)}%` : '—';
+}
+
+/**
+ * Load a recorded session from IndexedDB or the server's .cache/journal, replay it into fresh
+ * agents and compare the regenerated signals with the recorded ones.
+ */
+export default function JournalReplay() {
+  const [source, setSource] = useState<JournalSource>('browser');
+  const [sessions, setSessions] = useState<string[]>([]);
+  const [sessionId, setSessionId] = useState('');
+  const [speed, setSpeed] = useState(Infinity);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [replayed, setReplayed] = useState<AgentMessage[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const replayRef = useRef<ReplaySession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSessions([]);
+    setSessionId('');
+    listSessions(source)
+      .then(ids => {
+        if (cancelled) return;
+        setSessions(ids);
+        setSessionId(ids[ids.length - 1] ?? '');
+        setError(null);
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setReplayed([...(replayRef.current?.messages ?? [])]), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  useEffect(() => () => replayRef.current?.stop(), []);
+
+  const startReplay = async () => {
+    replayRef.current?.stop();
+    setError(null);
+    try {
+      const recorded = await loadSession(source, sessionId);
+      setEntries(recorded);
+      const replay = replayJournal(recorded, { speed });
+      replayRef.current = replay;
+      setRunning(true);
+      await replay.done;
+      if (replayRef.current === replay) setReplayed([...replay.messages]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const recordedSignals = signalsOf(entries.map(e => e.message));
+  const replayedSignals = signalsOf(replayed);
+  const rows = Math.max(recordedSignals.length, replayedSignals.length);
+  const mismatches = Array.from({ length: rows }, (_, i) => i).filter(
+    i => JSON.stringify(recordedSignals[i]) !== JSON.stringify(replayedSignals[i])
+  );
+
+  return (
+    <div className="space-y-4">
+      <DataCard>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="bg-neutral-800 rounded px-2 py-1 text-sm"
+            value={source}
+            onChange={e => setSource(e.target.value as JournalSource)}
+          >
+            <option value="browser">This browser (IndexedDB)</option>
+            <option value="server">Server (.cache/journal)</option>
+          </select>
+          <select
+            className="bg-neutral-800 rounded px-2 py-1 text-sm"
+            value={sessionId}
+            onChange={e => setSessionId(e.target.value)}
+          >
+            {sessions.length === 0 && <option value="">No recorded sessions</option>}
+            {sessions.map(id => (
+              <option key={id} value={id}>
+                {id}
+              </option>
+            ))}
+          </select>
+          <select
+            className="bg-neutral-800 rounded px-2 py-1 text-sm"
+            value={String(speed)}
+            onChange={e => setSpeed(Number(e.target.value))}
+          >
+            {SPEEDS.map(s => (
+              <option key={s.label} value={String(s.value)}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          <button
+            className="bg-neutral-700 rounded px-2 py-1 text-sm disabled:opacity-50"
+            disabled={!sessionId || running}
+            onClick={startReplay}
+          >
+            Replay
+          </button>
+          <button
+            className="bg-neutral-700 rounded px-2 py-1 text-sm disabled:opacity-50"
+            disabled={!running}
+            onClick={() => replayRef.current?.stop()}
+          >
+            Stop
+          </button>
+        </div>
+        {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+      </DataCard>
+
+      {entries.length > 0 && (
+        <DataCard>
+          <h2 className="text-xl font-medium mb-2">Signals</h2>
+          <p className="text-sm text-white/60 mb-3">
+            {entries.length} recorded messages, {replayed.length} on the replay bus{running && ' (replaying…)'}.{' '}
+            {recordedSignals.length} recorded and {replayedSignals.length} regenerated signals,{' '}
+            <span className={mismatches.length > 0 ? 'text-yellow-400' : 'text-green-400'}>
+              {mismatches.length} different
+            </span>
+            .
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-white/60">
+                <th className="font-normal">#</th>
+                <th className="font-normal">Time</th>
+                <th className="font-normal">Symbol</th>
+                <th className="font-normal">Recorded</th>
+                <th className="font-normal">Replayed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from({ length: rows }, (_, i) => {
+                const signal = recordedSignals[i] ?? replayedSignals[i];
+                return (
+                  <tr key={i} className={mismatches.includes(i) ? 'text-yellow-400' : undefined}>
+                    <td className="tabular-nums">{i + 1}</td>
+                    <td className="tabular-nums">{new Date(signal.timestamp).toLocaleString()}</td>
+                    <td>{signal.symbol ?? '—'}</td>
+                    <td>{formatSignal(recordedSignals[i])}</td>
+                    <td>{formatSignal(replayedSignals[i])}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </DataCard>
+      )}
+    </div>
+  );
+}
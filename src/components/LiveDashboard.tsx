@@ -10,9 +10,16 @@ import { smartFetch } from '@/lib/cache/smart-cache';
 import { useConnectionStatus } from '@/hooks/useWebSocket';
 import DataFreshnessIndicator from './DataFreshnessIndicator';
 import OpenInterestCard from './OpenInterestCard';
-import BacktestConfigPanel from './BacktestConfigPanel';
+import BacktestConfigPanel, { BacktestDataSource } from './BacktestConfigPanel';
 import BacktestResultsPanel from './BacktestResultsPanel';
+import IndicatorSettingsPanel from './IndicatorSettingsPanel';
+import LiveIndicatorsPanel from './LiveIndicatorsPanel';
+import StrategyComparisonPanel from './StrategyComparisonPanel';
 import { runBacktest, BacktestResult } from '@/lib/backtesting/engine';
+import { runStrategyComparison, StrategyComparison } from '@/lib/backtesting/compare';
+import { getStrategy, StrategyId } from '@/lib/backtesting/strategies';
+import { fetchSubCandles, FillPolicy } from '@/lib/backtesting/intrabar';
+import { fetchCandleHistory } from '@/lib/backtesting/history';
 import QuickActionPanel from './QuickActionPanel';
 
 interface LiveDashboardProps {
@@ -29,6 +36,7 @@ export default function LiveDashboard({ refreshTrigger = 0 }: LiveDashboardProps
   const [oiDelta24h, setOiDelta24h] = useState<number | null>(null);
 
   const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(null);
+  const [comparison, setComparison] = useState<StrategyComparison | null>(null);
   
   // Data source and freshness tracking
   const [dataSource, setDataSource] = useState<string>('cached');
@@ -178,15 +186,76 @@ export default function LiveDashboard({ refreshTrigger = 0 }: LiveDashboardProps
     ? appStateCurrentPrice
     : (displayCandles.length > 0 ? displayCandles[displayCandles.length - 1].close : null);
 
-  const handleBacktest = (opts: { candles: Candle[]; preset: string }) => {
-    // Prefer appStateCandles for backtesting if populated, otherwise use candles from opts.
-    const candlesForBacktest = appStateCandles.length > 0 ? appStateCandles : opts.candles;
+  const handleBacktest = async (opts: {
+    candles: Candle[];
+    preset: string;
+    fillPolicy: FillPolicy;
+    source: BacktestDataSource;
+    strategies: StrategyId[];
+  }) => {
+    // Archive and file ranges are used as-is; otherwise prefer appStateCandles if populated.
+    const candlesForBacktest = opts.source !== 'memory' || appStateCandles.length === 0
+      ? opts.candles
+      : appStateCandles;
     if (candlesForBacktest.length === 0) {
         console.warn("Backtest attempted with no candles.");
         return;
     }
-    const result = runBacktest({ candles: candlesForBacktest });
-    setBacktestResult(result);
+    const startIndex = 50; // indicator warmup, runBacktest's default
+    const run = (subCandles: Candle[]): { comparison: StrategyComparison | null; result: BacktestResult } => {
+      if (opts.strategies.length > 1) {
+        const comparison = runStrategyComparison({
+          candles: candlesForBacktest,
+          fillPolicy: opts.fillPolicy,
+          subCandles,
+          strategies: opts.strategies,
+        });
+        return { comparison, result: comparison.runs[0].result };
+      }
+      const strategy = getStrategy(opts.strategies[0]);
+      const result = runBacktest({
+        ...strategy.defaults,
+        candles: candlesForBacktest,
+        fillPolicy: opts.fillPolicy,
+        subCandles,
+        startIndex,
+        signalSource: strategy.createSource(candlesForBacktest, startIndex),
+      });
+      return { comparison: null, result };
+    };
+
+    let outcome = run([]);
+    if (opts.fillPolicy === 'subcandles') {
+      try {
+        if (opts.source === 'archive') {
+          outcome = run((await fetchCandleHistory(
+            '1m',
+            candlesForBacktest[0].time,
+            candlesForBacktest[candlesForBacktest.length - 1].closeTime
+          )).candles);
+        } else {
+          // Only the ambiguous bars need 1m candles. Resolving them can change later trades and so
+          // which bars are ambiguous, so fetch again for new ones a few times; the rest fall back.
+          const symbol = new URLSearchParams(window.location.search).get('symbol') || 'BTCUSDT';
+          const fetched = new Set<number>();
+          let subCandles: Candle[] = [];
+          for (let pass = 0; pass < 3; pass++) {
+            const results = outcome.comparison ? outcome.comparison.runs.map(r => r.result) : [outcome.result];
+            const ambiguous = new Set(results.flatMap(r => r.ambiguousBarTimes));
+            const missing = candlesForBacktest.filter(c => ambiguous.has(c.time) && !fetched.has(c.time));
+            if (missing.length === 0) break;
+            missing.forEach(c => fetched.add(c.time));
+            subCandles = [...subCandles, ...await fetchSubCandles(missing, symbol)].sort((a, b) => a.time - b.time);
+            outcome = run(subCandles);
+          }
+        }
+      } catch (err) {
+        // Keep the last run; bars it had no 1m candles for were resolved pessimistically
+        console.error('Failed to fetch 1m sub-candles for backtest:', err);
+      }
+    }
+    setComparison(outcome.comparison);
+    setBacktestResult(outcome.result);
   };
   
   // Get latest trade data (uses local `trades` state, which is fine for now)
@@ -201,6 +270,9 @@ export default function LiveDashboard({ refreshTrigger = 0 }: LiveDashboardProps
     <div className="space-y-8">
       {/* Trading Signal Panel */}
       <TradingSignalPanel className="mb-6" />
+
+      {/* Confirmed and provisional indicators */}
+      <LiveIndicatorsPanel />
       
       {/* Data Status Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-6">
@@ -396,10 +468,14 @@ export default function LiveDashboard({ refreshTrigger = 0 }: LiveDashboardProps
           <div className="text-white/50 text-center py-4">No candle data available</div>
         )}
       </div>
+      {/* Indicator set calculated by the agents */}
+      <IndicatorSettingsPanel />
+
       {/* Backtesting */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <BacktestConfigPanel candles={displayCandles} onRun={handleBacktest} />
         <BacktestResultsPanel result={backtestResult} />
+        <StrategyComparisonPanel comparison={comparison} />
       </div>
 
       {/* Quick Actions */}
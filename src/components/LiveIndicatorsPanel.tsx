@@ -0,0 +1,66 @@
+'use client';
+import { DataCard } from './DataCard';
+import { useAppState } from '@/hooks/useAppState';
+import { IndicatorDataSet } from '@/lib/agents/types';
+
+type CoreField = 'rsi' | 'emaFast' | 'emaSlow' | 'bbUpper' | 'bbMiddle' | 'bbLower' | 'atr';
+
+const ROWS: Array<{ field: CoreField; label: string }> = [
+  { field: 'rsi', label: 'RSI' },
+  { field: 'emaFast', label: 'EMA fast' },
+  { field: 'emaSlow', label: 'EMA slow' },
+  { field: 'bbUpper', label: 'BB upper' },
+  { field: 'bbMiddle', label: 'BB middle' },
+  { field: 'bbLower', label: 'BB lower' },
+  { field: 'atr', label: 'ATR' },
+];
+
+const format = (indicators: IndicatorDataSet | null, field: CoreField) => {
+  const value = indicators?.[field];
+  return value === null || value === undefined ? '—' : value.toFixed(2);
+};
+
+/**
+ * Confirmed indicators from the last closed 5m bar next to the provisional values the engine
+ * calculates on the forming bar, i.e. what they would be if the bar closed at the current price.
+ */
+export default function LiveIndicatorsPanel() {
+  const { latestIndicators, indicatorPreview } = useAppState();
+
+  return (
+    <DataCard>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-medium">Live Indicators</h2>
+        {indicatorPreview && (
+          <span className="text-xs text-amber-400">
+            Provisional · bar opened {new Date(indicatorPreview.timestamp).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-white/50 text-left">
+            <th className="font-normal">Indicator</th>
+            <th className="font-normal text-right">Last close</th>
+            <th className="font-normal text-right">If the bar closed now</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.map(({ field, label }) => (
+            <tr key={field}>
+              <td>{label}</td>
+              <td className="text-right font-mono">{format(latestIndicators, field)}</td>
+              <td className="text-right font-mono text-amber-400/80 italic">{format(indicatorPreview, field)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {indicatorPreview && indicatorPreview.rsi !== null && (
+        <p className="mt-2 text-xs text-white/50">
+          RSI would be {indicatorPreview.rsi.toFixed(0)} if the bar closed at {indicatorPreview.currentPrice.toFixed(2)}.
+          Signals use confirmed values only.
+        </p>
+      )}
+    </DataCard>
+  );
+}
@@ -8,7 +8,7 @@ declare global {
   }
 }
 
-export default function MarketChart() {
+export default function MarketChart({ symbol = 'BTCUSDT' }: { symbol?: string }) {
   useEffect(() => {
     if (typeof window === 'undefined') return;
     
@@ -23,7 +23,7 @@ export default function MarketChart() {
 
     function init() {
       new window.TradingView.widget({
-        symbol: 'BTCUSDT',
+        symbol,
         interval: '5',
         container_id: 'tv-chart',
         width: '100%',
@@ -53,7 +53,7 @@ export default function MarketChart() {
         chartContainer.innerHTML = '';
       }
     };
-  }, []);
+  }, [symbol]);
 
   return <div id="tv-chart" className="w-full h-[400px]" />;
 }
@@ -1,7 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { createChart, IChartApi, ISeriesApi, LineStyle } from 'lightweight-charts';
 import { Candle } from '@/lib/types';
-import { calculateRSI } from '@/lib/indicators/rsi';
+import { rsiSeries } from '@/lib/indicators/oscillators';
 
 interface RSIIndicatorProps {
   candles: Candle[];
@@ -20,7 +20,7 @@ export const RSIIndicator: React.FC<RSIIndicatorProps> = ({
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
 
   // Calculate RSI values
-  const rsiValues = calculateRSI(candles, 14);
+  const rsiValues = rsiSeries(candles, 14);
   const currentRSI = rsiValues[rsiValues.length - 1] || 50;
   
   // Get RSI signal state
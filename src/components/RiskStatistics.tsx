@@ -0,0 +1,53 @@
+'use client';
+import type { Metrics } from '@/lib/backtesting/engine';
+import type { PeriodReturn } from '@/lib/backtesting/statistics';
+
+interface Props {
+  metrics: Metrics;
+  recentDays?: number; // number of daily returns to list
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = minutes / 60;
+  return hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+}
+
+function ReturnTable({ title, returns }: { title: string; returns: PeriodReturn[] }) {
+  if (returns.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-xs font-medium uppercase tracking-wider opacity-70 mb-1">{title}</h4>
+      <div className="grid grid-cols-3 gap-1 text-xs">
+        {returns.map(r => (
+          <div key={r.period} className="flex justify-between">
+            <span className="opacity-70">{r.period}</span>
+            <span className={r.return >= 0 ? 'text-green-500' : 'text-red-500'}>
+              {r.return >= 0 ? '+' : ''}{r.return.toFixed(2)}%
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function RiskStatistics({ metrics, recentDays = 9 }: Props) {
+  return (
+    <div className="space-y-3">
+      <ul className="text-sm grid grid-cols-2 gap-x-4 gap-y-1">
+        <li>Sharpe: {metrics.sharpeRatio.toFixed(2)}</li>
+        <li>Sortino: {metrics.sortinoRatio.toFixed(2)}</li>
+        <li>Calmar: {metrics.calmarRatio.toFixed(2)}</li>
+        <li>Expectancy: {metrics.expectancyR.toFixed(2)}R</li>
+        <li>Avg Holding Time: {formatDuration(metrics.avgHoldingTime)}</li>
+        <li>Max Consecutive W/L: {metrics.maxConsecutiveWins} / {metrics.maxConsecutiveLosses}</li>
+        <li>Time Under Water: {metrics.timeUnderWater.toFixed(1)}%</li>
+        <li>Exposure: {metrics.exposurePct.toFixed(1)}%</li>
+      </ul>
+      <ReturnTable title="Monthly Returns" returns={metrics.monthlyReturns} />
+      <ReturnTable title="Daily Returns" returns={metrics.dailyReturns.slice(-recentDays)} />
+    </div>
+  );
+}
@@ -51,9 +51,9 @@ export function SimpleCandleChart() {
 
     // Register message handlers
     const unsubs = [
-      orchestrator.register('INITIAL_CANDLES_5M', handleInitial),
-      orchestrator.register('LIVE_CANDLE_UPDATE_5M', handleUpdate),
-      orchestrator.register('DATA_ERROR', handleError)
+      orchestrator.register('INITIAL_CANDLES_5M', handleInitial, 'SimpleCandleChart'),
+      orchestrator.register('LIVE_CANDLE_UPDATE_5M', handleUpdate, 'SimpleCandleChart'),
+      orchestrator.register('DATA_ERROR', handleError, 'SimpleCandleChart')
     ];
 
     // Request initial data
@@ -0,0 +1,94 @@
+'use client';
+import { DataCard } from './DataCard';
+import type { StrategyComparison } from '@/lib/backtesting/compare';
+
+interface Props {
+  comparison: StrategyComparison | null;
+}
+
+const COLORS = ['#4ade80', '#60a5fa', '#f472b6', '#facc15', '#a78bfa'];
+const BENCHMARK_COLOR = '#a3a3a3';
+
+function toPoints(values: number[], min: number, max: number): string {
+  return values
+    .map((v, i) => {
+      const x = values.length > 1 ? (i / (values.length - 1)) * 100 : 0;
+      const y = max === min ? 20 : 40 - ((v - min) / (max - min)) * 40;
+      return `${x},${y}`;
+    })
+    .join(' ');
+}
+
+export default function StrategyComparisonPanel({ comparison }: Props) {
+  if (!comparison || comparison.runs.length === 0) return null;
+
+  const { runs, benchmark, benchmarkReturn } = comparison;
+  const all = [...benchmark, ...runs.flatMap(r => r.equityByCandle)];
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+
+  return (
+    <DataCard className="md:col-span-2">
+      <h2 className="text-xl font-medium mb-2">Strategy Comparison</h2>
+      <svg viewBox="0 0 100 40" className="w-full h-32 bg-neutral-800 rounded">
+        <polyline
+          fill="none"
+          stroke={BENCHMARK_COLOR}
+          strokeWidth="0.5"
+          strokeDasharray="1,1"
+          points={toPoints(benchmark, min, max)}
+        />
+        {runs.map((run, i) => (
+          <polyline
+            key={run.id}
+            fill="none"
+            stroke={COLORS[i % COLORS.length]}
+            strokeWidth="0.75"
+            points={toPoints(run.equityByCandle, min, max)}
+          />
+        ))}
+      </svg>
+      <table className="w-full text-sm mt-3">
+        <thead>
+          <tr className="text-left text-white/60">
+            <th className="font-normal">Strategy</th>
+            <th className="font-normal text-right">Trades</th>
+            <th className="font-normal text-right">Win %</th>
+            <th className="font-normal text-right">PF</th>
+            <th className="font-normal text-right">Max DD</th>
+            <th className="font-normal text-right">Sharpe</th>
+            <th className="font-normal text-right">Return</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run, i) => {
+            const { metrics } = run.result;
+            const initial = run.result.equity[0];
+            return (
+              <tr key={run.id}>
+                <td>
+                  <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                  {run.label}
+                </td>
+                <td className="text-right">{metrics.totalTrades}</td>
+                <td className="text-right">{metrics.winRate.toFixed(1)}</td>
+                <td className="text-right">{metrics.profitFactor.toFixed(2)}</td>
+                <td className="text-right">{metrics.maxDrawdown.toFixed(2)}%</td>
+                <td className="text-right">{metrics.sharpeRatio.toFixed(2)}</td>
+                <td className="text-right">{((metrics.netProfit / initial) * 100).toFixed(2)}%</td>
+              </tr>
+            );
+          })}
+          <tr className="text-white/60">
+            <td>
+              <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: BENCHMARK_COLOR }} />
+              Buy &amp; hold
+            </td>
+            <td className="text-right" colSpan={5}>-</td>
+            <td className="text-right">{benchmarkReturn.toFixed(2)}%</td>
+          </tr>
+        </tbody>
+      </table>
+    </DataCard>
+  );
+}
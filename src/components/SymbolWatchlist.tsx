@@ -0,0 +1,49 @@
+'use client';
+import { useAppState } from '@/hooks/useAppState';
+import { baseAsset } from '@/lib/agents/symbols';
+import { uiAdapter } from '@/lib/agents/UIAdapter';
+
+const ACTION_COLORS = {
+  BUY: 'text-green-400',
+  SELL: 'text-red-400',
+  HOLD: 'text-gray-400',
+} as const;
+
+/**
+ * Latest TradingSignal per watched symbol; clicking a row switches the dashboard to that symbol
+ */
+export default function SymbolWatchlist() {
+  const { symbols, selectedSymbol } = useAppState();
+
+  return (
+    <div className="flex flex-wrap gap-2" role="tablist" aria-label="Watchlist">
+      {Object.entries(symbols).map(([symbol, { latestSignal, currentPrice }]) => {
+        const selected = symbol === selectedSymbol;
+        return (
+          <button
+            key={symbol}
+            role="tab"
+            aria-selected={selected}
+            onClick={() => uiAdapter.selectSymbol(symbol)}
+            className={`min-w-[9rem] rounded-lg px-3 py-2 text-left text-sm transition-colors ${
+              selected ? 'bg-white/15 ring-1 ring-white/30' : 'bg-white/5 hover:bg-white/10'
+            }`}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-semibold">{baseAsset(symbol)}</span>
+              <span className="text-white/60">{currentPrice !== null ? currentPrice.toFixed(2) : '—'}</span>
+            </div>
+            {latestSignal ? (
+              <div className={`text-xs ${ACTION_COLORS[latestSignal.action]}`}>
+                {latestSignal.action} · {latestSignal.confidence.toFixed(0)}%
+                <span className="text-white/40"> {new Date(latestSignal.timestamp).toLocaleTimeString()}</span>
+              </div>
+            ) : (
+              <div className="text-xs text-white/40">No signal yet</div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
+import RiskStatistics from '@/components/RiskStatistics';
+import { computeMetrics, Metrics, Trade } from '@/lib/backtesting/engine';
+import { equityFromTrades } from '@/lib/backtesting/statistics';
+import { performanceTracker } from '@/lib/tracking/signal-performance';
 
 // Dynamically import PerformanceMetrics with no SSR since it uses browser APIs
 const PerformanceMetrics = dynamic(
@@ -9,11 +13,45 @@ const PerformanceMetrics = dynamic(
   { ssr: false, loading: () => <div className="p-4 text-sm text-gray-500">Loading performance data...</div> }
 );
 
+// Returns are tracked in percent, so statistics are computed on a notional 100-unit account
+const NOTIONAL_BALANCE = 100;
+
+function liveMetrics(): Metrics | null {
+  const trades: Trade[] = performanceTracker
+    .getClosedTrades()
+    .filter(t => t.exitPrice !== undefined && t.exitTime !== undefined)
+    .map(t => ({
+      entryTime: t.entryTime,
+      exitTime: t.exitTime!,
+      entryPrice: t.entryPrice,
+      exitPrice: t.exitPrice!,
+      direction: 'long',
+      profit: (t.pnlPercent ?? 0) / 100,
+    }));
+  if (trades.length === 0) return null;
+  return computeMetrics(trades, equityFromTrades(trades, NOTIONAL_BALANCE), NOTIONAL_BALANCE);
+}
+
 const PerformanceMetricsPanel: React.FC = () => {
+  const [metrics, setMetrics] = useState<Metrics | null>(null);
+
+  useEffect(() => {
+    setMetrics(liveMetrics());
+    // Same polling interval as PerformanceMetrics until the tracker emits updates
+    const interval = setInterval(() => setMetrics(liveMetrics()), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
   return (
     <div className="bg-white p-4 rounded-lg shadow-sm border">
       <h3 className="text-sm font-medium text-gray-700 mb-3">Performance Metrics</h3>
       <PerformanceMetrics />
+      {metrics && (
+        <div className="mt-4 text-gray-700">
+          <h3 className="text-sm font-medium mb-2">Risk Statistics</h3>
+          <RiskStatistics metrics={metrics} />
+        </div>
+      )}
     </div>
   );
 };
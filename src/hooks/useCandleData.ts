@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Candle } from '@/lib/types';
+import { Candle, Interval } from '@/lib/types';
 import { orchestrator } from '@/lib/agents/Orchestrator';
+import { DEFAULT_SYMBOL, symbolOf } from '@/lib/agents/symbols';
+import { BASE_TIMEFRAME } from '@/lib/agents/timeframes';
+import { canAggregate, CandleAggregator } from '@/lib/candle-aggregator';
 
 // Maximum number of candles to keep in memory
 const MAX_CANDLES = 500;
@@ -8,7 +11,15 @@ const MAX_CANDLES = 500;
 // Time in milliseconds to wait before showing a loading error
 const LOADING_TIMEOUT = 15000;
 
-export function useCandleData() {
+// Candle messages carry a symbol; the DataCollector sends them for every watchlist symbol
+const CANDLE_MESSAGES = ['INITIAL_CANDLES_5M', 'LIVE_CANDLE_UPDATE_5M', 'NEW_CLOSED_CANDLE_5M'];
+
+/**
+ * @param interval Candle interval to return. The bus carries 5m candles; longer multiples of 5m
+ *   (10m, 30m, 4h, 1d, ...) are aggregated here, with live updates moving the bar in progress.
+ * @param symbol Symbol whose candles to return; candles for the rest of the watchlist are ignored.
+ */
+export function useCandleData(interval: Interval = BASE_TIMEFRAME, symbol: string = DEFAULT_SYMBOL) {
   const [candles, setCandles] = useState<Candle[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -61,6 +72,7 @@ export function useCandleData() {
         console.log('useCandleData: WebSocket reconnected, requesting fresh data...');
         orchestrator.send({
           from: 'useCandleData',
+          symbol,
           type: 'REQUEST_INITIAL_DATA',
           payload: { limit: 100 },
           timestamp: Date.now()
@@ -72,13 +84,21 @@ export function useCandleData() {
     return () => {
       window.removeEventListener('websocket-status', handleWebSocketStatus);
     };
-  }, []);
+  }, [symbol]);
 
   // Handle incoming messages from the orchestrator
   useEffect(() => {
     console.log('useCandleData: Setting up message handler');
 
+    if (!canAggregate(BASE_TIMEFRAME, interval)) {
+      setError(`Cannot build ${interval} candles from ${BASE_TIMEFRAME} candles`);
+      setIsLoading(false);
+      return;
+    }
+    const aggregator = interval === BASE_TIMEFRAME ? null : new CandleAggregator(interval, BASE_TIMEFRAME);
+
     const handleMessage = (message: any) => {
+      if (CANDLE_MESSAGES.includes(message.type) && symbolOf(message) !== symbol) return;
       console.log('useCandleData: Received message:', message.type, message);
       setLastUpdate(new Date());
 
@@ -113,7 +133,13 @@ export function useCandleData() {
             }
             
             // Update state with new candles
-            setCandles(candles);
+            if (aggregator) {
+              const bars = aggregator.seed(candles);
+              const forming = aggregator.current();
+              setCandles((forming ? [...bars, forming] : bars).slice(-MAX_CANDLES));
+            } else {
+              setCandles(candles);
+            }
             setIsLoading(false);
             setIsConnected(true);
             setError(null);
@@ -121,7 +147,6 @@ export function useCandleData() {
             break;
           }
 
-          case 'CANDLE_UPDATE_5M':
           case 'LIVE_CANDLE_UPDATE_5M':
             console.log('useCandleData: Received CANDLE_UPDATE:', message.payload);
             if (typeof message.payload !== 'object') {
@@ -130,7 +155,11 @@ export function useCandleData() {
             }
             
             // Use the memoized update function
-            updateCandles(message.payload, false);
+            if (aggregator) {
+              aggregator.update(message.payload, false).forEach(({ bar, isClosed }) => updateCandles(bar, isClosed));
+            } else {
+              updateCandles(message.payload, false);
+            }
             setIsConnected(true);
             setError(null);
             break;
@@ -143,7 +172,11 @@ export function useCandleData() {
             }
             
             // Use the memoized update function with isClosed=true
-            updateCandles(message.payload, true);
+            if (aggregator) {
+              aggregator.update(message.payload, true).forEach(({ bar, isClosed }) => updateCandles(bar, isClosed));
+            } else {
+              updateCandles(message.payload, true);
+            }
             setIsConnected(true);
             setError(null);
             break;
@@ -180,13 +213,13 @@ export function useCandleData() {
     
     // Register for all message types we're interested in
     const unregisterHandlers = [
-      orchestrator.register('INITIAL_CANDLES_5M', handleMessage),
-      orchestrator.register('CANDLE_UPDATE_5M', handleMessage),
-      orchestrator.register('LIVE_CANDLE_UPDATE_5M', handleMessage),
-      orchestrator.register('NEW_CLOSED_CANDLE_5M', handleMessage),
-      orchestrator.register('DATA_READY', handleMessage),
-      orchestrator.register('DATA_ERROR', handleMessage),
-      orchestrator.register('WEBSOCKET_STATUS', handleMessage)
+      orchestrator.register('INITIAL_CANDLES_5M', handleMessage, 'useCandleData'),
+      orchestrator.register('LIVE_CANDLE_UPDATE_5M', handleMessage, 'useCandleData'),
+      orchestrator.register('NEW_CLOSED_CANDLE_5M', handleMessage, 'useCandleData'),
+      orchestrator.register('DATA_READY', handleMessage, 'useCandleData'),
+      orchestrator.register('DATA_ERROR', handleMessage, 'useCandleData'),
+      orchestrator.register('ERROR', handleMessage, 'useCandleData'),
+      orchestrator.register('WEBSOCKET_STATUS', handleMessage, 'useCandleData')
     ];
 
     // Request initial data if we don't have any
@@ -194,6 +227,7 @@ export function useCandleData() {
       console.log('useCandleData: Requesting initial data...');
       orchestrator.send({
         from: 'useCandleData',
+        symbol,
         type: 'REQUEST_INITIAL_DATA',
         payload: { limit: 100 },
         timestamp: Date.now()
@@ -220,7 +254,7 @@ export function useCandleData() {
       // Unregister all message handlers
       unregisterHandlers.forEach(unregister => unregister());
     };
-  }, []);
+  }, [interval, symbol]);
 
   return { 
     candles, 
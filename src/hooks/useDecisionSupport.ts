@@ -1,8 +1,7 @@
 import { useMemo } from 'react';
 import { useSignals } from './useSignals';
 import type { Candle, OrderBookData } from '@/lib/types';
-import { rsi14 } from '@/lib/indicators';
-import { detectDivergence } from '@/lib/indicators/oscillators';
+import { detectDivergence, rsiSeries } from '@/lib/indicators/oscillators';
 
 interface SocialSentiment {
   galaxy_score?: number;
@@ -107,13 +106,7 @@ export function useDecisionSupport({
     [indicatorScore, sentimentScore, macroScore, orderBookScore]
   );
 
-  const divergence = useMemo(() => {
-    const rsiSeries: number[] = [];
-    for (let i = 0; i < candles.length; i++) {
-      rsiSeries.push(rsi14(candles.slice(0, i + 1)));
-    }
-    return detectDivergence(candles, rsiSeries);
-  }, [candles]);
+  const divergence = useMemo(() => detectDivergence(candles, rsiSeries(candles, 14)), [candles]);
 
   return {
     score,
@@ -1,8 +1,10 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react'; // Added useMemo
-import { Candle } from '@/lib/types';
+import { Candle, Interval } from '@/lib/types';
 import { orchestrator } from '@/lib/agents/Orchestrator'; // Added
 import { AgentName } from '@/lib/agents/types'; // Added
-import { BinanceWebSocket } from '@/lib/market/websocket';
+import { symbolOf } from '@/lib/agents/symbols';
+import { BASE_TIMEFRAME } from '@/lib/agents/timeframes';
+import { canAggregate, CandleAggregator } from '@/lib/candle-aggregator';
 import { MarketRegimeDetector, MarketRegime } from '@/lib/market/regime';
 import { withCache } from '@/lib/cache/browserCache';
 
@@ -57,8 +59,7 @@ export function useMarketData({
     lastCandle: null,
   });
 
-  // Refs to maintain WebSocket and detector instances
-  const wsRef = useRef<BinanceWebSocket | null>(null);
+  // Refs to maintain detector instances
   const regimeDetectorRef = useRef<MarketRegimeDetector>(
     new MarketRegimeDetector()
   );
@@ -66,78 +67,53 @@ export function useMarketData({
   const mockIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastRegimeRef = useRef<MarketRegime>('ranging');
 
-  // Fetch initial candle data
-  const fetchInitialData = useCallback(async () => {
-    try {
-      const response = await fetch(
-        `/api/market-data?symbol=${symbol}&interval=${interval}&limit=100`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch initial data');
-      }
-      
-      const data = await response.json();
-      
-      if (data.candles && Array.isArray(data.candles)) {
-        const candlesToProcess: Candle[] = data.candles; // Assuming data.candles matches Candle[] from lib/types
-        // Process historical candles through the regime detector
-        const regimeDetector = regimeDetectorRef.current;
-        
-        // Send to orchestrator regardless of whether candles were found,
-        // so downstream knows about the attempt.
-        orchestrator.send<Candle[]>({
-          from: 'MarketDataHook' as AgentName,
-          type: 'INITIAL_CANDLES_5M',
-          payload: [...candlesToProcess],
-          timestamp: Date.now(),
-        });
-        
-        if (candlesToProcess.length > 0) {
-          let finalRegimeAnalysis!: ReturnType<MarketRegimeDetector['update']>; // Definite assignment assertion
-          // This loop will run at least once if candlesToProcess.length > 0
-          candlesToProcess.forEach((candle: Candle) => {
-            finalRegimeAnalysis = regimeDetector.update(candle);
-          });
+  // Replace the history with candles the pipeline loaded
+  const loadHistory = useCallback((candlesToProcess: Candle[]) => {
+    // Process historical candles through the regime detector
+    const regimeDetector = regimeDetectorRef.current;
 
-          // Now finalRegimeAnalysis is guaranteed to be assigned if length > 0
-          setState(prev => ({
-            ...prev,
-            candles: candlesToProcess,
-            currentPrice: candlesToProcess[candlesToProcess.length - 1]?.close || null,
-            volume: candlesToProcess[candlesToProcess.length - 1]?.volume || 0,
-            regime: finalRegimeAnalysis.regime,
-            adx: finalRegimeAnalysis.adx,
-            plusDI: finalRegimeAnalysis.plusDI,
-            minusDI: finalRegimeAnalysis.minusDI,
-            regimeDuration: regimeDetector.getRegimeDurationMs(),
-            rsi: finalRegimeAnalysis.rsi,
-            volumeRatio: finalRegimeAnalysis.volumeRatio,
-            emaSlope: finalRegimeAnalysis.emaSlope,
-            confidence: finalRegimeAnalysis.confidence,
-            lastCandle: finalRegimeAnalysis.lastCandle,
-            lastUpdate: Date.now(),
-          }));
-          lastRegimeRef.current = finalRegimeAnalysis.regime;
-        } else {
-          // This case implies candlesToProcess was empty.
-          // Reset to a default/initial state for regime-related fields.
-           setState(prev => ({
-             ...prev,
-             candles: [], // Ensure candles is empty
-             currentPrice: null,
-             volume: 0,
-             regime: 'ranging',
-             adx: 0, plusDI: 0, minusDI: 0,
-             rsi: undefined, volumeRatio: undefined, emaSlope: undefined, confidence: undefined, lastCandle: null
-            }));
-           lastRegimeRef.current = 'ranging';
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching initial data:', error);
+    if (candlesToProcess.length > 0) {
+      let finalRegimeAnalysis!: ReturnType<MarketRegimeDetector['update']>; // Definite assignment assertion
+      // This loop will run at least once if candlesToProcess.length > 0
+      candlesToProcess.forEach((candle: Candle) => {
+        finalRegimeAnalysis = regimeDetector.update(candle);
+      });
+
+      // Now finalRegimeAnalysis is guaranteed to be assigned if length > 0
+      setState(prev => ({
+        ...prev,
+        candles: candlesToProcess,
+        currentPrice: candlesToProcess[candlesToProcess.length - 1]?.close || null,
+        volume: candlesToProcess[candlesToProcess.length - 1]?.volume || 0,
+        regime: finalRegimeAnalysis.regime,
+        adx: finalRegimeAnalysis.adx,
+        plusDI: finalRegimeAnalysis.plusDI,
+        minusDI: finalRegimeAnalysis.minusDI,
+        regimeDuration: regimeDetector.getRegimeDurationMs(),
+        rsi: finalRegimeAnalysis.rsi,
+        volumeRatio: finalRegimeAnalysis.volumeRatio,
+        emaSlope: finalRegimeAnalysis.emaSlope,
+        confidence: finalRegimeAnalysis.confidence,
+        lastCandle: finalRegimeAnalysis.lastCandle,
+        isConnected: true,
+        lastUpdate: Date.now(),
+      }));
+      lastRegimeRef.current = finalRegimeAnalysis.regime;
+    } else {
+      // This case implies candlesToProcess was empty.
+      // Reset to a default/initial state for regime-related fields.
+       setState(prev => ({
+         ...prev,
+         candles: [], // Ensure candles is empty
+         currentPrice: null,
+         volume: 0,
+         regime: 'ranging',
+         adx: 0, plusDI: 0, minusDI: 0,
+         rsi: undefined, volumeRatio: undefined, emaSlope: undefined, confidence: undefined, lastCandle: null
+        }));
+       lastRegimeRef.current = 'ranging';
     }
-  }, [symbol, interval]);
+  }, []);
 
   // Generate mock candle data for testing
   const generateMockCandle = useCallback((): Candle => {
@@ -178,8 +154,9 @@ export function useMarketData({
     }
     console.log(`useMarketData (mockMode): Generated ${initialCandles.length} initial mock candles. Attempting to send INITIAL_CANDLES_5M.`); // DEBUG LOG
     // Send to orchestrator
-    orchestrator.send<Candle[]>({
+    orchestrator.send({
       from: 'MarketDataHook' as AgentName,
+      symbol,
       type: 'INITIAL_CANDLES_5M',
       payload: [...initialCandles], // Send a copy
       timestamp: Date.now(),
@@ -200,8 +177,9 @@ export function useMarketData({
       const newCandle = generateMockCandle();
       console.log(`useMarketData (mockMode): Generated new mock candle for time ${new Date(newCandle.time).toISOString()}. Attempting to send NEW_CLOSED_CANDLE_5M.`); // DEBUG LOG
       // Send to orchestrator as a "closed" candle
-      orchestrator.send<Candle>({
+      orchestrator.send({
         from: 'MarketDataHook' as AgentName,
+        symbol,
         type: 'NEW_CLOSED_CANDLE_5M',
         payload: newCandle,
         timestamp: Date.now(),
@@ -234,123 +212,123 @@ export function useMarketData({
         };
       });
     }, 5000);
-  }, [generateMockCandle, onNewCandle, onRegimeChange]);
+  }, [symbol, generateMockCandle, onNewCandle, onRegimeChange]);
+
+  // Apply a live or closed candle: replace the bar in progress or append a new one
+  const applyCandle = useCallback((candle: Candle) => {
+    const regimeDetector = regimeDetectorRef.current;
+    const currentRegimeAnalysis = regimeDetector.update(candle); // Use this for current candle's full analysis
+    const newRegime = currentRegimeAnalysis.regime;
+    
+    setState(prev => {
+      const newCandles = [...prev.candles];
+      const lastCandle = newCandles[newCandles.length - 1];
+      
+      // Update last candle if same time, otherwise add new candle
+      if (lastCandle && lastCandle.time === candle.time) {
+        newCandles[newCandles.length - 1] = candle;
+      } else {
+        newCandles.push(candle);
+        // Keep only last 1000 candles
+        if (newCandles.length > 1000) {
+          newCandles.shift();
+        }
+      }
+      
+      return {
+        ...prev,
+        candles: newCandles,
+        currentPrice: candle.close,
+        volume: candle.volume,
+        regime: newRegime,
+        adx: currentRegimeAnalysis.adx,
+        plusDI: currentRegimeAnalysis.plusDI,
+        minusDI: currentRegimeAnalysis.minusDI,
+        regimeDuration: regimeDetector.getRegimeDurationMs(),
+        rsi: currentRegimeAnalysis.rsi,
+        volumeRatio: currentRegimeAnalysis.volumeRatio,
+        emaSlope: currentRegimeAnalysis.emaSlope,
+        confidence: currentRegimeAnalysis.confidence,
+        lastCandle: currentRegimeAnalysis.lastCandle,
+        isConnected: true,
+        lastUpdate: Date.now(),
+      };
+    });
+    
+    // Call external callback if provided
+    if (onNewCandle) {
+      onNewCandle(candle);
+    }
+    
+    // Notify if regime changed
+    if (newRegime !== lastRegimeRef.current) {
+      lastRegimeRef.current = newRegime;
+      if (onRegimeChange) {
+        onRegimeChange(newRegime);
+      }
+    }
+  }, [onNewCandle, onRegimeChange]);
 
-  // Initialize WebSocket and event handlers
+  // Live mode reads the candles the pipeline publishes on the bus: the DataCollector's in the leader
+  // tab, relayed by the tab bridge in followers. The hook opens no socket of its own, so Binance
+  // sees one connection however many tabs and charts are open.
   useEffect(() => {
     console.log(`useMarketData: Main useEffect running. mockModeRef.current is: ${mockModeRef.current}`); // DEBUG LOG
     if (mockModeRef.current) {
       console.log('useMarketData: Main useEffect detected mockMode, calling startMockMode().'); // DEBUG LOG
       startMockMode();
-    } else {
-      console.log('useMarketData: Main useEffect detected live mode, initializing WebSocket and fetching initial data.'); // DEBUG LOG
-      // Initialize WebSocket
-      wsRef.current = new BinanceWebSocket(symbol, interval);
-      const ws = wsRef.current;
+      return;
+    }
 
-      // Set up WebSocket event handlers
-      ws.on('onCandle', (candle: Candle & { isClosed?: boolean }) => {
-        const regimeDetector = regimeDetectorRef.current;
-        const currentRegimeAnalysis = regimeDetector.update(candle); // Use this for current candle's full analysis
-        const newRegime = currentRegimeAnalysis.regime;
-        
-        // const { adx, plusDI, minusDI } = regimeDetector.getADX(); // These are in currentRegimeAnalysis
+    if (!canAggregate(BASE_TIMEFRAME, interval as Interval)) {
+      console.error(`useMarketData: Cannot build ${interval} candles from ${BASE_TIMEFRAME} candles`);
+      return;
+    }
+    const aggregator = interval === BASE_TIMEFRAME ? null : new CandleAggregator(interval as Interval, BASE_TIMEFRAME);
+    const applyUpdate = (candle: Candle, isClosed: boolean) => {
+      if (aggregator) {
+        aggregator.update(candle, isClosed).forEach(({ bar }) => applyCandle(bar));
+      } else {
+        applyCandle(candle);
+      }
+    };
 
-        if (candle.isClosed) {
-          orchestrator.send<Candle>({
-            from: 'MarketDataHook' as AgentName,
-            type: 'NEW_CLOSED_CANDLE_5M',
-            payload: candle,
-            timestamp: Date.now(),
-          });
-        }
-        
-        setState(prev => {
-          const newCandles = [...prev.candles];
-          const lastCandle = newCandles[newCandles.length - 1];
-          
-          // Update last candle if same time, otherwise add new candle
-          if (lastCandle && lastCandle.time === candle.time) {
-            newCandles[newCandles.length - 1] = candle;
-          } else {
-            newCandles.push(candle);
-            // Keep only last 1000 candles
-            if (newCandles.length > 1000) {
-              newCandles.shift();
-            }
-          }
-          
-          return {
-            ...prev,
-            candles: newCandles,
-            currentPrice: candle.close,
-            volume: candle.volume,
-            regime: newRegime,
-            adx: currentRegimeAnalysis.adx,
-            plusDI: currentRegimeAnalysis.plusDI,
-            minusDI: currentRegimeAnalysis.minusDI,
-            regimeDuration: regimeDetector.getRegimeDurationMs(),
-            rsi: currentRegimeAnalysis.rsi,
-            volumeRatio: currentRegimeAnalysis.volumeRatio,
-            emaSlope: currentRegimeAnalysis.emaSlope,
-            confidence: currentRegimeAnalysis.confidence,
-            lastCandle: currentRegimeAnalysis.lastCandle,
-            lastUpdate: Date.now(),
-          };
-        });
-        
-        // Call external callback if provided
-        if (onNewCandle) {
-          onNewCandle(candle);
-        }
-        
-        // Notify if regime changed
-        if (newRegime !== lastRegimeRef.current) {
-          lastRegimeRef.current = newRegime;
-          if (onRegimeChange) {
-            onRegimeChange(newRegime);
-          }
-        }
-      });
-      
-      ws.on('onError', (error: Error) => { // Corrected to onError
-        console.error('WebSocket error:', error);
-      });
-      
-      ws.on('onReconnect', () => { // Corrected to onReconnect
-        console.log('WebSocket reconnected, refetching initial data...');
-        fetchInitialData();
-      });
-      
-      // Fetch initial data
-      fetchInitialData();
-      
-      // Cleanup
-      return () => {
-        if (wsRef.current) {
-          wsRef.current.close();
-          wsRef.current = null;
+    const unregisterHandlers = [
+      orchestrator.register('INITIAL_CANDLES_5M', message => {
+        if (symbolOf(message) !== symbol) return;
+        if (aggregator) {
+          const bars = aggregator.seed(message.payload);
+          const forming = aggregator.current();
+          loadHistory(forming ? [...bars, forming] : bars);
+        } else {
+          loadHistory(message.payload);
         }
-      };
-    }
-  }, [symbol, interval, onNewCandle, onRegimeChange, fetchInitialData, startMockMode]);
+      }, 'MarketDataHook' as AgentName),
+      orchestrator.register('LIVE_CANDLE_UPDATE_5M', message => {
+        if (symbolOf(message) === symbol) applyUpdate(message.payload, false);
+      }, 'MarketDataHook' as AgentName),
+      orchestrator.register('NEW_CLOSED_CANDLE_5M', message => {
+        if (symbolOf(message) === symbol) applyUpdate(message.payload, true);
+      }, 'MarketDataHook' as AgentName),
+      orchestrator.register('WEBSOCKET_STATUS', message => {
+        if (symbolOf(message) !== symbol) return;
+        setState(prev => ({ ...prev, isConnected: message.payload.connected }));
+      }, 'MarketDataHook' as AgentName),
+    ];
 
-  // Update connection status
-  useEffect(() => {
-    if (!wsRef.current) return;
-    
-    const interval = setInterval(() => {
-      const status = wsRef.current?.connectionStatus;
-      if (status) {
-        setState(prev => ({
-          ...prev,
-          isConnected: status.isConnected,
-        }));
-      }
-    }, 5000);
-    
-    return () => clearInterval(interval);
-  }, []);
+    // Followers forward this to the leader, which answers with the history it holds
+    orchestrator.send({
+      from: 'MarketDataHook' as AgentName,
+      symbol,
+      type: 'REQUEST_INITIAL_DATA',
+      payload: { limit: 100 },
+      timestamp: Date.now(),
+    });
+
+    return () => {
+      unregisterHandlers.forEach(unregister => unregister());
+    };
+  }, [symbol, interval, applyCandle, loadHistory, startMockMode]);
 
   // Cleanup mock mode interval
   useEffect(() => {
@@ -0,0 +1,10 @@
+/**
+ * Next.js startup hook: with NEXT_PUBLIC_AGENT_RUNTIME=server the agent pipeline starts with the
+ * Node server, so signals are generated (and journaled) even while no browser is connected.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.NEXT_PUBLIC_AGENT_RUNTIME === 'server') {
+    const { getServerRuntime } = await import('@/lib/agents/server-runtime');
+    await getServerRuntime();
+  }
+}
@@ -0,0 +1,77 @@
+// src/lib/agents/BaseAgent.ts
+import { HandlerOptions, orchestrator, OrchestratorService } from './Orchestrator';
+import { AgentName, MessageType, TypedMessageHandler } from './types';
+
+export type AgentStatus = 'idle' | 'running' | 'stopped';
+
+export interface AgentHealth {
+  status: AgentStatus;
+  healthy: boolean;
+  /** Last time one of the agent's handlers ran */
+  lastActivity: number | null;
+  detail?: string;
+}
+
+/**
+ * Lifecycle every agent managed by the AgentRegistry implements.
+ * Constructing an agent has no side effects; it only subscribes to the bus in start().
+ */
+export interface Agent {
+  readonly name: AgentName;
+  start(): void;
+  stop(): void;
+  health(): AgentHealth;
+}
+
+/**
+ * Base class for bus agents: tracks the agent's subscriptions so stop() removes exactly
+ * what start() added, which keeps restarts (hot reload, React strict mode) from double-subscribing.
+ */
+export abstract class BaseAgent implements Agent {
+  public abstract readonly name: AgentName;
+  protected status: AgentStatus = 'idle';
+  protected lastActivity: number | null = null;
+  private subscriptions: (() => void)[] = [];
+
+  /**
+   * @param bus Message bus to attach to. Defaults to the app-wide orchestrator;
+   * pass a separate OrchestratorService to run an isolated pipeline (e.g. backtest replay).
+   */
+  constructor(protected readonly bus: OrchestratorService = orchestrator) {}
+
+  public start(): void {
+    if (this.status === 'running') return;
+    this.registerHandlers();
+    this.status = 'running';
+  }
+
+  public stop(): void {
+    if (this.status !== 'running') return;
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+    this.onStop();
+    this.status = 'stopped';
+  }
+
+  public health(): AgentHealth {
+    return { status: this.status, healthy: this.status === 'running', lastActivity: this.lastActivity };
+  }
+
+  /**
+   * Register the agent's handlers with listen()
+   */
+  protected abstract registerHandlers(): void;
+
+  /**
+   * Release anything besides bus subscriptions (sockets, timers)
+   */
+  protected onStop(): void {}
+
+  protected listen<K extends MessageType>(type: K, handler: TypedMessageHandler<K>, options?: HandlerOptions): void {
+    const tracked: TypedMessageHandler<K> = message => {
+      this.lastActivity = Date.now();
+      return handler(message);
+    };
+    this.subscriptions.push(this.bus.register(type, tracked, this.name, options));
+  }
+}
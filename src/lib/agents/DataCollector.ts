@@ -1,71 +1,144 @@
 // src/lib/agents/DataCollector.ts
-import { orchestrator } from './Orchestrator';
+import { AgentHealth, BaseAgent } from './BaseAgent';
+import { OrchestratorService } from './Orchestrator';
+import { DEFAULT_SYMBOL, symbolOf } from './symbols';
+import { BASE_TIMEFRAME, HIGHER_TIMEFRAMES } from './timeframes';
 import { AgentMessage } from './types';
-import { Candle } from '@/lib/types';
+import { Candle, TimeFrame } from '@/lib/types';
 import { getBinanceCandles } from '@/lib/binance';
-import { subscribeToCandleUpdates } from '@/lib/binance-websocket';
+import { subscribeToSymbolCandleUpdates } from '@/lib/binance-websocket';
+import { CandleAggregator } from '@/lib/candle-aggregator';
 
-const SYMBOL = 'BTCUSDT';
-const INTERVAL = '5m';
+const INTERVAL = BASE_TIMEFRAME;
 const HISTORICAL_LIMIT = 100;
+const HIGHER_TIMEFRAME_LIMIT = 100;
 const REFRESH_LIMIT = 30; // Added: Number of recent candles to fetch on manual refresh
 const BUFFER_MAX = 200;
 
-export class DataCollectorAgent {
-  private candleBuffer: Candle[] = [];
-  private lastCandleTime: number = 0;
-  private unsubscribeWS: (() => void) | null = null;
-  private isInitialized = false;
-  private initializationPromise: Promise<void> | null = null;
+/**
+ * Where the collector gets candles from. The default goes through the app's proxy route and the
+ * browser WebSocket; the server runtime talks to Binance directly (see server-candle-source.ts).
+ */
+export interface CandleSource {
+  fetchCandles(symbol: string, interval: TimeFrame, limit: number): Promise<Candle[]>;
+  subscribe(symbol: string, callback: (candle: Candle, isClosed: boolean) => void): () => void;
+}
+
+export const browserCandleSource: CandleSource = {
+  fetchCandles: (symbol, interval, limit) => getBinanceCandles(interval, limit, symbol),
+  subscribe: subscribeToSymbolCandleUpdates,
+};
+
+/** Buffer and stream state for one collected symbol */
+interface SymbolFeed {
+  symbol: string;
+  candleBuffer: Candle[];
+  lastCandleTime: number;
+  unsubscribeWS: (() => void) | null;
+  isInitialized: boolean;
+  initializationPromise: Promise<void> | null;
+}
+
+/** Closed bars of one symbol on a higher timeframe, plus the bar still forming */
+interface HigherTimeframeSeries {
+  symbol: string;
+  timeframe: TimeFrame;
+  bars: Candle[];
+  aggregator: CandleAggregator;
+  /** False while the history is being fetched; bars closing meanwhile are kept but not published */
+  ready: boolean;
+}
+
+export class DataCollectorAgent extends BaseAgent {
+  public readonly name = 'DataCollector';
+  private readonly feeds = new Map<string, SymbolFeed>();
+  /** Keyed by `${symbol}:${timeframe}` */
+  private readonly higherTimeframes = new Map<string, HigherTimeframeSeries>();
 
-  constructor() {
-    console.log('DataCollector: Constructor called');
+  /**
+   * @param symbols Markets to collect; every message the collector sends carries its symbol
+   */
+  constructor(
+    bus?: OrchestratorService,
+    private readonly source: CandleSource = browserCandleSource,
+    symbols: string[] = [DEFAULT_SYMBOL]
+  ) {
+    super(bus);
+    console.log(`DataCollector: Constructor called for ${symbols.join(', ')}`);
+    symbols.forEach(symbol =>
+      this.feeds.set(symbol, {
+        symbol,
+        candleBuffer: [],
+        lastCandleTime: 0,
+        unsubscribeWS: null,
+        isInitialized: false,
+        initializationPromise: null,
+      })
+    );
     // Bind methods
     this.handleInitialDataRequest = this.handleInitialDataRequest.bind(this);
     this.handleManualDataRefreshRequest = this.handleManualDataRefreshRequest.bind(this); // Added
-    
+  }
+
+  protected registerHandlers(): void {
     // Register message handlers
-    orchestrator.register('REQUEST_INITIAL_DATA', this.handleInitialDataRequest);
-    orchestrator.register('MANUAL_DATA_REFRESH_REQUEST', this.handleManualDataRefreshRequest);
+    this.listen('REQUEST_INITIAL_DATA', this.handleInitialDataRequest);
+    // Refreshing refetches history over the network, so allow it longer than the default handler timeout
+    this.listen('MANUAL_DATA_REFRESH_REQUEST', this.handleManualDataRefreshRequest, { timeoutMs: 30000 });
+    // Higher timeframes follow every symbol's base candles, whether this collector or a hook published them
+    this.listen('INITIAL_CANDLES_5M', msg => this.loadHigherTimeframes(msg), { timeoutMs: 30000 });
+    this.listen('NEW_CLOSED_CANDLE_5M', msg => this.extendHigherTimeframes(msg));
     
     // REMOVED: Do not auto-initialize on construction.
     // Initialization will now be triggered by MANUAL_DATA_REFRESH_REQUEST.
-    // if (!this.initializationPromise) {
-    //   this.initializationPromise = this.initialize();
+    // if (!feed.initializationPromise) {
+    //   feed.initializationPromise = this.initialize(feed);
     //
     //   // Log any initialization errors
-    //   this.initializationPromise.catch(error => {
+    //   feed.initializationPromise.catch(error => {
     //     console.error('DataCollector: Initialization failed:', error);
-    //     this.initializationPromise = null; // Allow retries
+    //     feed.initializationPromise = null; // Allow retries
     //   });
     // }
   }
 
-  public async ensureInitialized(): Promise<void> {
-    if (this.isInitialized) return;
+  public async ensureInitialized(feed: SymbolFeed): Promise<void> {
+    if (feed.isInitialized) return;
     
-    if (!this.initializationPromise) {
-      this.initializationPromise = this.initialize();
+    if (!feed.initializationPromise) {
+      feed.initializationPromise = this.initialize(feed);
     }
     
     try {
-      await this.initializationPromise;
+      await feed.initializationPromise;
     } catch (error) {
       // Reset initialization promise on error to allow retries
-      this.initializationPromise = null;
+      feed.initializationPromise = null;
       throw error;
     }
   }
 
-  private async handleInitialDataRequest() {
+  /**
+   * Feeds a request applies to: the named symbol, or every feed when the request names none
+   */
+  private feedsFor(message: AgentMessage): SymbolFeed[] {
+    if (message.symbol === undefined) return Array.from(this.feeds.values());
+    const feed = this.feeds.get(symbolOf(message));
+    return feed ? [feed] : [];
+  }
+
+  private async handleInitialDataRequest(msg: AgentMessage): Promise<void> {
     console.log('DataCollector: Received REQUEST_INITIAL_DATA');
-    
+    this.feedsFor(msg).forEach(feed => this.sendInitialData(feed));
+  }
+
+  private sendInitialData(feed: SymbolFeed): void {
     // IMPORTANT CHANGE: Only send data if already initialized. Do NOT trigger initialization here.
     // Initialization is now solely triggered by MANUAL_DATA_REFRESH_REQUEST.
-    if (this.isInitialized && this.candleBuffer.length > 0) {
+    if (feed.isInitialized && feed.candleBuffer.length > 0) {
       console.log('DataCollector: Already initialized and has data, sending initial candles in response to REQUEST_INITIAL_DATA.');
-      this.notifyInitialCandles();
-    } else if (this.isInitialized && this.candleBuffer.length === 0) {
+      this.notifyInitialCandles(feed);
+    } else if (feed.isInitialized && feed.candleBuffer.length === 0) {
       console.log('DataCollector: Initialized but no candle data in buffer to send for REQUEST_INITIAL_DATA.');
     }
      else {
@@ -74,99 +147,103 @@ export class DataCollectorAgent {
     // No try-catch needed here anymore as we are not calling ensureInitialized which could throw.
   }
 
-  private async initialize(): Promise<void> {
+  private async initialize(feed: SymbolFeed): Promise<void> {
     console.log('DataCollector: Starting initialization...');
     
     try {
       // Load initial data
-      await this.loadInitialCandles();
+      await this.loadInitialCandles(feed);
       
       // Set up WebSocket for live updates
-      this.setupWebSocket();
+      this.setupWebSocket(feed);
       
       // Mark as initialized
-      this.isInitialized = true;
+      feed.isInitialized = true;
       console.log('DataCollector: Initialized successfully');
       
       // Notify that we're ready
-      orchestrator.send({
+      this.bus.send({
         from: 'DataCollector',
+        symbol: feed.symbol,
         type: 'DATA_READY',
         payload: { 
-          candleCount: this.candleBuffer.length,
-          lastUpdate: this.lastCandleTime
+          candleCount: feed.candleBuffer.length,
+          lastUpdate: feed.lastCandleTime
         },
         timestamp: Date.now()
       });
     } catch (error) {
       console.error('DataCollector: Initialization failed:', error);
-      this.handleError(error, 'Failed to initialize DataCollector');
+      this.handleError(feed, error, 'Failed to initialize DataCollector');
       throw error;
     }
   }
 
-  private async loadInitialCandles(): Promise<void> {
+  private async loadInitialCandles(feed: SymbolFeed): Promise<void> {
     console.log('DataCollector: Fetching initial candles...');
     
     try {
-      const candles = await getBinanceCandles(INTERVAL, HISTORICAL_LIMIT);
+      const candles = await this.source.fetchCandles(feed.symbol, INTERVAL, HISTORICAL_LIMIT);
       
       if (!Array.isArray(candles)) {
         throw new Error('Expected array of candles but got: ' + typeof candles);
       }
       
       // Process the candles
-      this.candleBuffer = candles;
-      if (this.candleBuffer.length > 0) {
-        this.lastCandleTime = this.candleBuffer[this.candleBuffer.length - 1].time;
+      feed.candleBuffer = candles;
+      if (feed.candleBuffer.length > 0) {
+        feed.lastCandleTime = feed.candleBuffer[feed.candleBuffer.length - 1].time;
       }
       
       console.log(`DataCollector: Loaded ${candles.length} initial candles`);
-      this.notifyInitialCandles();
+      this.notifyInitialCandles(feed);
     } catch (error) {
       console.error('DataCollector: Error loading initial candles:', error);
-      this.handleError(error, 'Failed to load initial candles');
+      this.handleError(feed, error, 'Failed to load initial candles');
       throw error;
     }
   }
 
-  private notifyInitialCandles(): void {
-    console.log(`DataCollector: Notifying about ${this.candleBuffer.length} initial candles`);
+  private notifyInitialCandles(feed: SymbolFeed): void {
+    console.log(`DataCollector: Notifying about ${feed.candleBuffer.length} initial candles`);
     
     try {
-      orchestrator.send({
+      this.bus.send({
         from: 'DataCollector',
+        symbol: feed.symbol,
         type: 'INITIAL_CANDLES_5M',
-        payload: [...this.candleBuffer],
+        payload: [...feed.candleBuffer],
         timestamp: Date.now()
       });
     } catch (error) {
       console.error('DataCollector: Error notifying initial candles:', error);
-      this.handleError(error, 'Failed to send initial candles');
+      this.handleError(feed, error, 'Failed to send initial candles');
     }
   }
 
-  private setupWebSocket(): void {
+  private setupWebSocket(feed: SymbolFeed): void {
     console.log('DataCollector: Setting up WebSocket connection...');
     
     try {
       // Unsubscribe from previous connection if exists
-      if (this.unsubscribeWS) {
+      if (feed.unsubscribeWS) {
         console.log('DataCollector: Unsubscribing from previous WebSocket connection');
-        this.unsubscribeWS();
+        feed.unsubscribeWS();
       }
       
       // Subscribe to WebSocket updates
       console.log('DataCollector: Subscribing to WebSocket updates');
-      this.unsubscribeWS = subscribeToCandleUpdates(
-        (candle: Candle, isClosed: boolean) => this.handleNewCandle(candle, isClosed)
+      feed.unsubscribeWS = this.source.subscribe(
+        feed.symbol,
+        (candle: Candle, isClosed: boolean) => this.handleNewCandle(feed, candle, isClosed)
       );
       
       console.log('DataCollector: WebSocket subscription active');
       
       // Notify that we're connected
-      orchestrator.send({
+      this.bus.send({
         from: 'DataCollector',
+        symbol: feed.symbol,
         type: 'WEBSOCKET_STATUS',
         payload: { 
           connected: true, 
@@ -177,14 +254,14 @@ export class DataCollectorAgent {
       });
     } catch (error) {
       console.error('DataCollector: Error setting up WebSocket connection:', error);
-      this.handleError(error, 'Failed to set up WebSocket connection');
+      this.handleError(feed, error, 'Failed to set up WebSocket connection');
       
       // The WebSocket client will handle reconnection automatically
       throw error;
     }
   }
 
-  private handleNewCandle(candle: Candle, isClosed: boolean): void {
+  private handleNewCandle(feed: SymbolFeed, candle: Candle, isClosed: boolean): void {
     try {
       // Validate candle data
       if (!candle || typeof candle.time !== 'number' || 
@@ -197,36 +274,38 @@ export class DataCollectorAgent {
         return;
       }
 
-      const existingIndex = this.candleBuffer.findIndex(c => c.time === candle.time);
+      const existingIndex = feed.candleBuffer.findIndex(c => c.time === candle.time);
       
         if (existingIndex >= 0) {
           // Update existing candle
-          this.candleBuffer[existingIndex] = candle;
+          feed.candleBuffer[existingIndex] = candle;
         } else {
           // Add new candle and sort by time
-          this.candleBuffer.push(candle);
-          this.candleBuffer.sort((a, b) => a.time - b.time);
+          feed.candleBuffer.push(candle);
+          feed.candleBuffer.sort((a, b) => a.time - b.time);
           
           // Keep buffer size in check
-          if (this.candleBuffer.length > BUFFER_MAX) {
-            this.candleBuffer.shift();
+          if (feed.candleBuffer.length > BUFFER_MAX) {
+            feed.candleBuffer.shift();
           }
         }
 
         // Update last candle time
-        this.lastCandleTime = Math.max(this.lastCandleTime, candle.time);
+        feed.lastCandleTime = Math.max(feed.lastCandleTime, candle.time);
 
         // Notify about the update
         const messageType = isClosed ? 'NEW_CLOSED_CANDLE_5M' : 'LIVE_CANDLE_UPDATE_5M';
-        orchestrator.send({
+        this.bus.send({
           from: 'DataCollector',
+          symbol: feed.symbol,
           type: messageType,
           payload: { ...candle, isClosed },
           timestamp: Date.now()
         });
 
-        orchestrator.send<{ lastUpdateTime: number; lastCandleTime: number }>({
+        this.bus.send({
           from: 'DataCollector',
+          symbol: feed.symbol,
           type: 'DATA_STATUS_UPDATE',
           payload: { lastUpdateTime: Date.now(), lastCandleTime: candle.time },
           timestamp: Date.now()
@@ -234,48 +313,57 @@ export class DataCollectorAgent {
         
     } catch (error) {
       console.error('DataCollector: Error in handleNewCandle:', error);
-      this.handleError(error, 'Failed to handle new candle');
+      this.handleError(feed, error, 'Failed to handle new candle');
     }
   }
 
-  private async handleManualDataRefreshRequest(): Promise<void> {
+  private async handleManualDataRefreshRequest(msg: AgentMessage): Promise<void> {
     console.log('DataCollector: Received MANUAL_DATA_REFRESH_REQUEST');
-    
+    await Promise.all(this.feedsFor(msg).map(feed => this.refreshFeed(feed)));
+  }
+
+  private async refreshFeed(feed: SymbolFeed): Promise<void> {
+    console.log(`DataCollector: Refreshing ${feed.symbol}`);
+
     // If not initialized, run full initialization. Otherwise, just refresh recent data.
-    if (!this.isInitialized || !this.initializationPromise) {
+    if (!feed.isInitialized || !feed.initializationPromise) {
       console.log('DataCollector: Not initialized, running full initialization via refresh request.');
-      orchestrator.send({
+      this.bus.send({
         from: 'DataCollector',
+        symbol: feed.symbol,
         type: 'DATA_STATUS_UPDATE',
-        payload: { text: 'Initializing data via refresh...', color: 'text-yellow-400', lastUpdateTime: Date.now(), lastCandleTime: this.lastCandleTime },
+        payload: { text: 'Initializing data via refresh...', color: 'text-yellow-400', lastUpdateTime: Date.now(), lastCandleTime: feed.lastCandleTime },
         timestamp: Date.now()
       });
       try {
         // Ensure any previous failed promise is cleared
-        this.initializationPromise = null;
-        await this.ensureInitialized(); // This will call this.initialize()
-         orchestrator.send({
+        feed.initializationPromise = null;
+        await this.ensureInitialized(feed); // This will call this.initialize()
+         this.bus.send({
           from: 'DataCollector',
+          symbol: feed.symbol,
           type: 'DATA_STATUS_UPDATE',
-          payload: { text: 'Data initialized', color: 'text-green-400', lastUpdateTime: Date.now(), lastCandleTime: this.lastCandleTime },
+          payload: { text: 'Data initialized', color: 'text-green-400', lastUpdateTime: Date.now(), lastCandleTime: feed.lastCandleTime },
           timestamp: Date.now()
         });
       } catch (error) {
         console.error('DataCollector: Error during initial data load triggered by refresh:', error);
         // handleError is called within initialize() or ensureInitialized()
-        orchestrator.send({
+        this.bus.send({
           from: 'DataCollector',
+          symbol: feed.symbol,
           type: 'DATA_STATUS_UPDATE',
-          payload: { text: 'Initialization failed', color: 'text-red-400', lastUpdateTime: Date.now(), lastCandleTime: this.lastCandleTime },
+          payload: { text: 'Initialization failed', color: 'text-red-400', lastUpdateTime: Date.now(), lastCandleTime: feed.lastCandleTime },
           timestamp: Date.now()
         });
       }
     } else {
       console.log('DataCollector: Already initialized, fetching recent candles for refresh.');
-      orchestrator.send({
+      this.bus.send({
         from: 'DataCollector',
+        symbol: feed.symbol,
         type: 'DATA_STATUS_UPDATE',
-        payload: { text: 'Refreshing data...', color: 'text-yellow-400', lastUpdateTime: Date.now(), lastCandleTime: this.lastCandleTime },
+        payload: { text: 'Refreshing data...', color: 'text-yellow-400', lastUpdateTime: Date.now(), lastCandleTime: feed.lastCandleTime },
         timestamp: Date.now()
       });
       try {
@@ -288,47 +376,50 @@ export class DataCollectorAgent {
 
         // Re-establish WebSocket connection if needed (setupWebSocket also connects)
         // This might be redundant if initialize() is robust, but good for explicit refresh.
-        if (this.unsubscribeWS) { // If there was a subscription, try to set it up again.
-             this.setupWebSocket();
+        if (feed.unsubscribeWS) { // If there was a subscription, try to set it up again.
+             this.setupWebSocket(feed);
         } else { // If never subscribed (e.g. initial init failed before WS setup), try full init.
-            await this.ensureInitialized(); // This will attempt to setup websocket if not done.
+            await this.ensureInitialized(feed); // This will attempt to setup websocket if not done.
         }
 
 
         // Fetch a small number of recent candles
-        await this.fetchRecentCandles();
+        await this.fetchRecentCandles(feed);
 
         // Notify that data has been refreshed
-        orchestrator.send({
+        this.bus.send({
           from: 'DataCollector',
+          symbol: feed.symbol,
           type: 'INITIAL_CANDLES_5M',
-          payload: [...this.candleBuffer],
+          payload: [...feed.candleBuffer],
           timestamp: Date.now()
         });
-        orchestrator.send({
+        this.bus.send({
           from: 'DataCollector',
+          symbol: feed.symbol,
           type: 'DATA_STATUS_UPDATE',
-          payload: { text: 'Data refreshed', color: 'text-green-400', lastUpdateTime: Date.now(), lastCandleTime: this.lastCandleTime },
+          payload: { text: 'Data refreshed', color: 'text-green-400', lastUpdateTime: Date.now(), lastCandleTime: feed.lastCandleTime },
           timestamp: Date.now()
         });
 
       } catch (error) {
         console.error('DataCollector: Error handling manual data refresh:', error);
-        this.handleError(error, 'handling manual data refresh');
-        orchestrator.send({
+        this.handleError(feed, error, 'handling manual data refresh');
+        this.bus.send({
           from: 'DataCollector',
+          symbol: feed.symbol,
           type: 'DATA_STATUS_UPDATE',
-          payload: { text: 'Refresh failed', color: 'text-red-400', lastUpdateTime: Date.now(), lastCandleTime: this.lastCandleTime },
+          payload: { text: 'Refresh failed', color: 'text-red-400', lastUpdateTime: Date.now(), lastCandleTime: feed.lastCandleTime },
           timestamp: Date.now()
         });
       }
     }
   }
 
-  private async fetchRecentCandles(): Promise<void> {
+  private async fetchRecentCandles(feed: SymbolFeed): Promise<void> {
     console.log('DataCollector: Fetching recent candles for refresh...');
     try {
-      const recentCandles = await getBinanceCandles(INTERVAL, REFRESH_LIMIT);
+      const recentCandles = await this.source.fetchCandles(feed.symbol, INTERVAL, REFRESH_LIMIT);
       if (!Array.isArray(recentCandles)) {
         throw new Error('Expected array of recent candles but got: ' + typeof recentCandles);
       }
@@ -338,44 +429,131 @@ export class DataCollectorAgent {
       // Merge recent candles into the buffer
       // This simple merge assumes recentCandles might overlap or be newer
       // A more sophisticated merge might be needed depending on exact data guarantees
-      const existingTimes = new Set(this.candleBuffer.map(c => c.time));
+      const existingTimes = new Set(feed.candleBuffer.map(c => c.time));
       recentCandles.forEach(newCandle => {
         if (!existingTimes.has(newCandle.time)) {
-          this.candleBuffer.push(newCandle);
+          feed.candleBuffer.push(newCandle);
         } else {
           // Update if existing
-          const index = this.candleBuffer.findIndex(c => c.time === newCandle.time);
+          const index = feed.candleBuffer.findIndex(c => c.time === newCandle.time);
           if (index !== -1) {
-            this.candleBuffer[index] = newCandle;
+            feed.candleBuffer[index] = newCandle;
           }
         }
       });
 
-      this.candleBuffer.sort((a, b) => a.time - b.time);
+      feed.candleBuffer.sort((a, b) => a.time - b.time);
 
       // Keep buffer size in check
-      while (this.candleBuffer.length > BUFFER_MAX) {
-        this.candleBuffer.shift();
+      while (feed.candleBuffer.length > BUFFER_MAX) {
+        feed.candleBuffer.shift();
       }
 
-      if (this.candleBuffer.length > 0) {
-        this.lastCandleTime = this.candleBuffer[this.candleBuffer.length - 1].time;
+      if (feed.candleBuffer.length > 0) {
+        feed.lastCandleTime = feed.candleBuffer[feed.candleBuffer.length - 1].time;
       }
       // No explicit notification here, handled by handleManualDataRefreshRequest after this call
     } catch (error) {
       console.error('DataCollector: Error fetching recent candles:', error);
-      this.handleError(error, 'Failed to fetch recent candles');
+      this.handleError(feed, error, 'Failed to fetch recent candles');
       throw error; // Re-throw to be caught by the caller
     }
   }
 
-  private handleError(error: unknown, context: string): void {
+  /**
+   * Start 15m/1h series from Binance history, or from the base candles when that fetch fails.
+   * Only bars before the one the latest base candle falls in count as closed. A series that has
+   * already reached that bar is kept and only republished, so repeated initial candles (a hook or
+   * tab asking for history) don't refetch it.
+   */
+  private async loadHigherTimeframes(msg: AgentMessage<Candle[]>): Promise<void> {
+    const symbol = symbolOf(msg);
+    const candles = msg.payload;
+    if (candles.length === 0) return;
+
+    await Promise.all(
+      HIGHER_TIMEFRAMES.map(async timeframe => {
+        const key = `${symbol}:${timeframe}`;
+        const aggregator = new CandleAggregator(timeframe, INTERVAL);
+        const aggregated = aggregator.seed(candles);
+        const forming = aggregator.current();
+        // A series still loading, or already at the newest bar, has everything these candles have
+        const existing = this.higherTimeframes.get(key);
+        const newest = existing && (existing.aggregator.current() ?? existing.bars[existing.bars.length - 1]);
+        if (existing && (!existing.ready || (newest && forming && newest.time >= forming.time))) {
+          if (existing.ready) this.publishHigherTimeframe(existing);
+          return;
+        }
+
+        // Registered before the fetch so base candles closing meanwhile still extend it
+        const series: HigherTimeframeSeries = { symbol, timeframe, bars: [], aggregator, ready: false };
+        this.higherTimeframes.set(key, series);
+        let history: Candle[];
+        try {
+          history = await this.source.fetchCandles(symbol, timeframe, HIGHER_TIMEFRAME_LIMIT);
+        } catch (error) {
+          console.warn(`DataCollector: Could not fetch ${symbol} ${timeframe} candles, aggregating from ${INTERVAL}:`, error);
+          history = aggregated;
+        }
+        // A newer load (or stop) replaced this series while fetching
+        if (this.higherTimeframes.get(key) !== series) return;
+
+        series.bars = [...history.filter(bar => !forming || bar.time < forming.time), ...series.bars].slice(-BUFFER_MAX);
+        series.ready = true;
+        console.log(`DataCollector: Loaded ${series.bars.length} ${symbol} ${timeframe} candles`);
+        this.publishHigherTimeframe(series);
+      })
+    );
+  }
+
+  private publishHigherTimeframe(series: HigherTimeframeSeries): void {
+    this.bus.send({
+      from: 'DataCollector',
+      symbol: series.symbol,
+      timeframe: series.timeframe,
+      type: 'INITIAL_CANDLES_HTF',
+      payload: [...series.bars],
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Add a closed base candle to the forming bar of each higher timeframe and publish bars as they close
+   */
+  private extendHigherTimeframes(msg: AgentMessage<Candle>): void {
+    const symbol = symbolOf(msg);
+    const candle = msg.payload;
+    HIGHER_TIMEFRAMES.forEach(timeframe => {
+      const series = this.higherTimeframes.get(`${symbol}:${timeframe}`);
+      if (!series) return;
+
+      series.aggregator
+        .update(candle, true)
+        .filter(({ isClosed }) => isClosed)
+        .forEach(({ bar }) => {
+          series.bars.push(bar);
+          if (series.bars.length > BUFFER_MAX) series.bars.shift();
+          if (!series.ready) return;
+          this.bus.send({
+            from: 'DataCollector',
+            symbol,
+            timeframe,
+            type: 'NEW_CLOSED_CANDLE_HTF',
+            payload: bar,
+            timestamp: Date.now(),
+          });
+        });
+    });
+  }
+
+  private handleError(feed: SymbolFeed, error: unknown, context: string): void {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`DataCollector: Error in ${context}:`, errorMessage);
     
     // Notify the orchestrator about the error
-    orchestrator.send({
+    this.bus.send({
       from: 'DataCollector',
+      symbol: feed.symbol,
       type: 'ERROR',
       payload: {
         message: `Error in ${context}`,
@@ -389,28 +567,56 @@ export class DataCollectorAgent {
     // If this was an initialization error, reset the promise to allow retries
     if (context.includes('initialization')) {
       console.log('DataCollector: Resetting initialization promise to allow retries');
-      this.initializationPromise = null;
+      feed.initializationPromise = null;
     }
   }
 
+  public health(): AgentHealth {
+    const health = super.health();
+    const feeds = Array.from(this.feeds.values());
+    const initialized = feeds.filter(feed => feed.isInitialized);
+    return {
+      ...health,
+      healthy: health.healthy && feeds.length > 0 && initialized.length === feeds.length,
+      detail:
+        initialized.length > 0
+          ? feeds
+              .map(feed =>
+                feed.isInitialized
+                  ? `${feed.symbol}: ${feed.candleBuffer.length} candles, stream ${feed.unsubscribeWS ? 'open' : 'closed'}`
+                  : `${feed.symbol}: waiting`
+              )
+              .join('; ')
+          : 'waiting for a manual refresh',
+    };
+  }
+
+  protected onStop(): void {
+    this.cleanup();
+  }
+
   public cleanup(): void {
     console.log('DataCollector: Cleaning up...');
     
-    try {
-      if (this.unsubscribeWS) {
-        this.unsubscribeWS();
-        this.unsubscribeWS = null;
+    this.feeds.forEach(feed => {
+      try {
+        if (feed.unsubscribeWS) {
+          feed.unsubscribeWS();
+          feed.unsubscribeWS = null;
+        }
+      } catch (error) {
+        console.error(`Error during ${feed.symbol} WebSocket cleanup:`, error);
+      } finally {
+        feed.unsubscribeWS = null;
+        // Clear any pending operations
+        feed.isInitialized = false;
+        feed.initializationPromise = null;
       }
-    } catch (error) {
-      console.error('Error during WebSocket cleanup:', error);
-    } finally {
-      this.unsubscribeWS = null;
-      // Clear any pending operations
-      this.isInitialized = false;
-      this.initializationPromise = null;
-      
-      console.log('DataCollector: Cleanup complete');
-    }
+    });
+
+    this.higherTimeframes.clear();
+
+    console.log('DataCollector: Cleanup complete');
   }
 }
 
@@ -1,103 +1,344 @@
 console.log('IndicatorEngine.ts module loading...'); // ADDED FOR DEBUGGING
 // src/lib/agents/IndicatorEngine.ts
-import { orchestrator } from './Orchestrator';
-import { AgentMessage, AgentName, MessageHandler, IndicatorDataSet } from './types';
-import { Candle } from '@/lib/types';
-
-import { candleEMA } from '@/lib/indicators/moving-averages';
-import { calculateRSI } from '@/lib/indicators/rsi';
-import { bollingerBands } from '@/lib/indicators/volatility';
-import { calculateATR } from '@/lib/indicators/atr';
-
-const EMA_FAST_PERIOD = 9;
-const EMA_SLOW_PERIOD = 21;
-const RSI_PERIOD = 14;
-const BB_PERIOD = 20;
-const BB_STDDEV = 2;
-const ATR_PERIOD = 14;
-
-const MIN_CANDLES_FOR_INDICATORS = Math.max(EMA_SLOW_PERIOD, RSI_PERIOD, BB_PERIOD, ATR_PERIOD) + 5;
-const MAX_CANDLE_HISTORY = 200;
-
-class IndicatorEngineAgent {
-  private candles: Candle[] = [];
-
-  constructor() {
-    console.log('IndicatorEngineAgent: Constructor called. Subscribing to NEW_CLOSED_CANDLE_5M and INITIAL_CANDLES_5M.');
-    orchestrator.register('NEW_CLOSED_CANDLE_5M', this.onNewClosedCandle.bind(this) as MessageHandler<Candle>);
-    orchestrator.register('INITIAL_CANDLES_5M', this.handleInitialCandles.bind(this) as MessageHandler<Candle[]>);
+import { AgentHealth, BaseAgent } from './BaseAgent';
+import { OrchestratorService } from './Orchestrator';
+import { symbolOf } from './symbols';
+import { BASE_TIMEFRAME, timeframeOf } from './timeframes';
+import { AgentMessage, AgentName, IndicatorDataSet, IndicatorPreview, StreamedCandle } from './types';
+import { Candle, Interval } from '@/lib/types';
+import { CandleAggregator } from '@/lib/candle-aggregator';
+
+import {
+  CORE_INDICATOR_IDS,
+  DEFAULT_INDICATOR_SETTINGS,
+  INDICATOR_DEFINITIONS,
+  IndicatorCalculator,
+  IndicatorSetting,
+  indicatorValues,
+  normalizeIndicatorSettings,
+} from '@/lib/indicators/catalog';
+
+/** Candles needed beyond the longest core indicator's warm-up before indicators are published */
+const WARMUP_MARGIN = 5;
+/** Candles kept per series, for health and for rebuilding indicators after an out-of-order candle */
+const MAX_CANDLE_HISTORY = 1000;
+/** Minimum time between INDICATORS_PREVIEW_5M messages per symbol; the newest live update waits for the next slot */
+export const PREVIEW_THROTTLE_MS = 2000;
+
+/** State of one configured indicator for one series, fed every closed candle in order */
+interface SeriesIndicator {
+  id: string;
+  calculator: IndicatorCalculator;
+}
+
+/** Closed candles of one symbol on one timeframe */
+interface CandleSeries {
+  symbol: string;
+  timeframe: Interval;
+  candles: Candle[];
+  indicators: SeriesIndicator[];
+}
+
+/** Throttling state of one symbol's previews */
+interface PreviewThrottle {
+  lastSent: number;
+  /** Newest live update not yet previewed */
+  pending: Candle | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+function createIndicators(settings: IndicatorSetting[], candles: Candle[]): SeriesIndicator[] {
+  const indicators = settings
+    .filter(({ enabled }) => enabled)
+    .map(({ id, kind, params }) => ({ id, calculator: INDICATOR_DEFINITIONS[kind].create(params) }));
+  candles.forEach(candle => updateIndicators(indicators, candle));
+  return indicators;
+}
+
+function updateIndicators(indicators: SeriesIndicator[], candle: Candle): void {
+  indicators.forEach(({ calculator }) => calculator.update(candle));
+}
+
+/** Fill the fixed IndicatorDataSet fields from the core indicators' values */
+function toDataSet(values: IndicatorDataSet['values'], candle: Candle): IndicatorDataSet {
+  return {
+    emaFast: values.emaFast ?? null,
+    emaSlow: values.emaSlow ?? null,
+    rsi: values.rsi ?? null,
+    bbUpper: values['bb.upper'] ?? null,
+    bbMiddle: values['bb.middle'] ?? null,
+    bbLower: values['bb.lower'] ?? null,
+    atr: values.atr ?? null,
+    values,
+    currentPrice: candle.close,
+    timestamp: candle.time,
+  };
+}
+
+function minCandlesFor(settings: IndicatorSetting[]): number {
+  const core = settings.filter(({ id }) => CORE_INDICATOR_IDS.includes(id));
+  return Math.max(...core.map(({ kind, params }) => INDICATOR_DEFINITIONS[kind].warmup(params))) + WARMUP_MARGIN;
+}
+
+export class IndicatorEngineAgent extends BaseAgent {
+  public readonly name = 'IndicatorEngine';
+  /** Keyed by `${symbol}:${timeframe}` */
+  private series = new Map<string, CandleSeries>();
+  /** Bars being built from base candles for `aggregateIntervals`, keyed like `series` */
+  private aggregators = new Map<string, CandleAggregator>();
+  /** Keyed by symbol; base timeframe only */
+  private previews = new Map<string, PreviewThrottle>();
+  private settings: IndicatorSetting[];
+  private minCandles: number;
+
+  /**
+   * @param aggregateIntervals Extra intervals to build from base candles (e.g. ['30m', '4h']) and
+   *   publish INDICATORS_READY_HTF for, for pipelines without a collector sending them
+   * @param settings Indicators to calculate; INDICATOR_SETTINGS_UPDATED replaces them at runtime
+   */
+  constructor(
+    bus?: OrchestratorService,
+    private readonly aggregateIntervals: Interval[] = [],
+    settings: IndicatorSetting[] = DEFAULT_INDICATOR_SETTINGS
+  ) {
+    super(bus);
+    this.settings = normalizeIndicatorSettings(settings);
+    this.minCandles = minCandlesFor(this.settings);
+  }
+
+  protected registerHandlers(): void {
+    console.log('IndicatorEngineAgent: Starting. Subscribing to closed and initial candles on 5m and higher timeframes.');
+    this.listen('NEW_CLOSED_CANDLE_5M', this.onNewClosedCandle.bind(this));
+    this.listen('INITIAL_CANDLES_5M', this.handleInitialCandles.bind(this));
+    this.listen('NEW_CLOSED_CANDLE_HTF', this.onNewClosedCandle.bind(this));
+    this.listen('INITIAL_CANDLES_HTF', this.handleInitialCandles.bind(this));
+    this.listen('INDICATOR_SETTINGS_UPDATED', this.onSettingsUpdated.bind(this));
+    this.listen('LIVE_CANDLE_UPDATE_5M', this.onLiveCandle.bind(this));
+  }
+
+  protected onStop(): void {
+    this.previews.forEach(({ timer }) => {
+      if (timer) clearTimeout(timer);
+    });
+    this.previews.clear();
+  }
+
+  /** Health reflects the base timeframe only; higher timeframes may take longer to warm up */
+  public health(): AgentHealth {
+    const health = super.health();
+    const base = Array.from(this.series.values()).filter(series => series.timeframe === BASE_TIMEFRAME);
+    const counts = base.map(({ symbol, candles }) => `${symbol}: ${candles.length} candles`);
+    const warmedUp = base.length > 0 && base.every(({ candles }) => candles.length >= this.minCandles);
+    return {
+      ...health,
+      healthy: health.healthy && warmedUp,
+      detail: `${counts.length > 0 ? counts.join(', ') : '0 candles'}${warmedUp ? '' : `, need ${this.minCandles} for indicators`}`,
+    };
+  }
+
+  private seriesFor(symbol: string, timeframe: Interval): CandleSeries {
+    const key = `${symbol}:${timeframe}`;
+    let series = this.series.get(key);
+    if (!series) {
+      series = { symbol, timeframe, candles: [], indicators: createIndicators(this.settings, []) };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Switch to new indicator settings: rebuild every series' indicators from its stored candles
+   * and republish them, so the UI shows the new set without waiting for the next candle
+   */
+  private onSettingsUpdated(msg: AgentMessage<IndicatorSetting[]>): void {
+    this.settings = normalizeIndicatorSettings(msg.payload);
+    this.minCandles = minCandlesFor(this.settings);
+    const enabled = this.settings.filter(({ enabled }) => enabled).map(({ id }) => id);
+    console.log(`IndicatorEngineAgent: Indicator settings updated, calculating ${enabled.join(', ')}.`);
+    this.series.forEach(series => {
+      series.indicators = createIndicators(this.settings, series.candles);
+      const latestCandle = series.candles[series.candles.length - 1];
+      if (latestCandle) this.calculateAndSendIndicators(series, latestCandle);
+    });
   }
 
   private handleInitialCandles(msg: AgentMessage<Candle[]>): void {
-    console.log(`IndicatorEngineAgent: Received INITIAL_CANDLES_5M with ${msg.payload.length} candles.`);
-    this.candles = [...msg.payload].sort((a,b) => a.time - b.time);
-    if (this.candles.length > MAX_CANDLE_HISTORY) {
-      console.log(`IndicatorEngineAgent: Initial candles trimmed from ${this.candles.length} to ${MAX_CANDLE_HISTORY}.`);
-      this.candles = this.candles.slice(-MAX_CANDLE_HISTORY);
+    const symbol = symbolOf(msg);
+    const timeframe = timeframeOf(msg);
+    console.log(`IndicatorEngineAgent: Received ${msg.type} for ${symbol} ${timeframe} with ${msg.payload.length} candles.`);
+    this.loadSeries(this.seriesFor(symbol, timeframe), msg.payload);
+    if (timeframe !== BASE_TIMEFRAME) return;
+
+    this.aggregateIntervals.forEach(interval => {
+      const aggregator = new CandleAggregator(interval, BASE_TIMEFRAME);
+      this.aggregators.set(`${symbol}:${interval}`, aggregator);
+      this.loadSeries(this.seriesFor(symbol, interval), aggregator.seed(msg.payload));
+    });
+  }
+
+  private loadSeries(series: CandleSeries, history: Candle[]): void {
+    const { symbol, timeframe } = series;
+    let candles = [...history].sort((a,b) => a.time - b.time);
+    if (candles.length > MAX_CANDLE_HISTORY) {
+      console.log(`IndicatorEngineAgent: Initial candles trimmed from ${candles.length} to ${MAX_CANDLE_HISTORY}.`);
+      candles = candles.slice(-MAX_CANDLE_HISTORY);
     }
-    console.log(`IndicatorEngineAgent: Stored ${this.candles.length} initial candles.`);
-    if (this.candles.length >= MIN_CANDLES_FOR_INDICATORS) {
-      const latestCandle = this.candles[this.candles.length -1];
+    series.candles = candles;
+    series.indicators = createIndicators(this.settings, candles);
+    console.log(`IndicatorEngineAgent: Stored ${candles.length} initial candles for ${symbol} ${timeframe}.`);
+    if (candles.length >= this.minCandles) {
+      const latestCandle = candles[candles.length -1];
       console.log('IndicatorEngineAgent: Sufficient initial candles to calculate indicators.');
-      this.calculateAndSendIndicators(latestCandle);
+      this.calculateAndSendIndicators(series, latestCandle);
     } else {
-      console.log(`IndicatorEngineAgent: Insufficient initial candles. Need ${MIN_CANDLES_FOR_INDICATORS}, have ${this.candles.length}.`);
+      console.log(`IndicatorEngineAgent: Insufficient initial candles. Need ${this.minCandles}, have ${candles.length}.`);
     }
   }
 
   private onNewClosedCandle(msg: AgentMessage<Candle>): void {
-    const newCandle = msg.payload;
-    console.log(`IndicatorEngineAgent: Received NEW_CLOSED_CANDLE_5M for time ${new Date(newCandle.time).toISOString()}.`);
-    const existingIndex = this.candles.findIndex(c => c.time === newCandle.time);
+    const symbol = symbolOf(msg);
+    const timeframe = timeframeOf(msg);
+    console.log(`IndicatorEngineAgent: Received ${msg.type} for ${symbol} ${timeframe} at ${new Date(msg.payload.time).toISOString()}.`);
+    this.appendToSeries(this.seriesFor(symbol, timeframe), msg.payload);
+    if (timeframe !== BASE_TIMEFRAME) return;
+    // The confirmed values supersede any preview still waiting for its slot
+    this.cancelPreview(symbol);
+
+    this.aggregateIntervals.forEach(interval => {
+      this.aggregators
+        .get(`${symbol}:${interval}`)
+        ?.update(msg.payload, true)
+        .filter(({ isClosed }) => isClosed)
+        .forEach(({ bar }) => this.appendToSeries(this.seriesFor(symbol, interval), bar));
+    });
+  }
+
+  /**
+   * Preview the forming bar: at most one INDICATORS_PREVIEW_5M per PREVIEW_THROTTLE_MS per symbol,
+   * the newest update sent when the next slot opens
+   */
+  private onLiveCandle(msg: AgentMessage<StreamedCandle>): void {
+    if (msg.payload.isClosed || timeframeOf(msg) !== BASE_TIMEFRAME) return;
+    const symbol = symbolOf(msg);
+    let preview = this.previews.get(symbol);
+    if (!preview) {
+      preview = { lastSent: 0, pending: null, timer: null };
+      this.previews.set(symbol, preview);
+    }
+    preview.pending = msg.payload;
+    const wait = preview.lastSent + PREVIEW_THROTTLE_MS - Date.now();
+    if (wait <= 0) {
+      this.flushPreview(symbol);
+    } else if (!preview.timer) {
+      preview.timer = setTimeout(() => this.flushPreview(symbol), wait);
+    }
+  }
+
+  private flushPreview(symbol: string): void {
+    const preview = this.previews.get(symbol);
+    if (!preview) return;
+    if (preview.timer) clearTimeout(preview.timer);
+    preview.timer = null;
+    const candle = preview.pending;
+    preview.pending = null;
+    if (!candle) return;
+    preview.lastSent = Date.now();
+    this.sendPreview(this.seriesFor(symbol, BASE_TIMEFRAME), candle);
+  }
+
+  private cancelPreview(symbol: string): void {
+    const preview = this.previews.get(symbol);
+    if (preview?.timer) clearTimeout(preview.timer);
+    this.previews.delete(symbol);
+  }
+
+  /**
+   * Calculate every indicator as if `candle` closed now, leaving the series untouched. Updates for
+   * a bar that has already closed are ignored.
+   */
+  private sendPreview(series: CandleSeries, candle: Candle): void {
+    const { symbol, candles, indicators } = series;
+    const last = candles[candles.length - 1];
+    if ((last && candle.time <= last.time) || candles.length + 1 < this.minCandles) return;
+    const history = [...candles, candle];
+    const values: IndicatorDataSet['values'] = Object.assign(
+      {},
+      ...indicators.map(({ id, calculator }) => indicatorValues(id, calculator.peek(candle, history)))
+    );
+    const payload: IndicatorPreview = { ...toDataSet(values, candle), provisional: true };
+    this.bus.send({
+      from: 'IndicatorEngine' as AgentName,
+      symbol,
+      type: 'INDICATORS_PREVIEW_5M',
+      payload,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Candles at or after the newest one only advance the streaming indicators. An older candle
+   * rebuilds them from the stored history.
+   */
+  private appendToSeries(series: CandleSeries, newCandle: Candle): void {
+    const { candles } = series;
+    const last = candles[candles.length - 1];
+    const existingIndex = candles.findIndex(c => c.time === newCandle.time);
     if (existingIndex === -1) {
-      this.candles.push(newCandle);
-      this.candles.sort((a,b) => a.time - b.time);
-      if (this.candles.length > MAX_CANDLE_HISTORY) {
-        this.candles.shift();
+      candles.push(newCandle);
+      candles.sort((a,b) => a.time - b.time);
+      if (candles.length > MAX_CANDLE_HISTORY) {
+        candles.shift();
       }
     } else {
-      this.candles[existingIndex] = newCandle;
+      candles[existingIndex] = newCandle;
       console.log(`IndicatorEngineAgent: Updated existing candle for time ${new Date(newCandle.time).toISOString()}.`);
     }
-    this.calculateAndSendIndicators(newCandle);
+
+    if (!last || newCandle.time >= last.time) {
+      updateIndicators(series.indicators, newCandle);
+    } else {
+      console.log(`IndicatorEngineAgent: Out-of-order candle for ${series.symbol} ${series.timeframe}, rebuilding indicators.`);
+      series.indicators = createIndicators(this.settings, candles);
+    }
+    this.calculateAndSendIndicators(series, newCandle);
   }
 
-  private calculateAndSendIndicators(triggeringCandle: Candle): void {
-    console.log(`IndicatorEngineAgent: Attempting to calculate indicators. Have ${this.candles.length} candles, need ${MIN_CANDLES_FOR_INDICATORS}.`);
-    if (this.candles.length < MIN_CANDLES_FOR_INDICATORS) {
+  private calculateAndSendIndicators({ symbol, timeframe, candles, indicators }: CandleSeries, triggeringCandle: Candle): void {
+    console.log(`IndicatorEngineAgent: Attempting to calculate ${symbol} ${timeframe} indicators. Have ${candles.length} candles, need ${this.minCandles}.`);
+    if (candles.length < this.minCandles) {
       console.log('IndicatorEngineAgent: Not enough candle data to calculate indicators.');
       return;
     }
     console.log('IndicatorEngineAgent: Calculating indicators...');
-    const emaFast = candleEMA(this.candles, EMA_FAST_PERIOD);
-    const emaSlow = candleEMA(this.candles, EMA_SLOW_PERIOD);
-    const rsiValues = calculateRSI(this.candles, RSI_PERIOD);
-    const rsi = rsiValues[rsiValues.length -1] ?? null;
-    const bb = bollingerBands(this.candles, BB_PERIOD, BB_STDDEV);
-    const atrValues = calculateATR(this.candles, ATR_PERIOD);
-    const atr = atrValues[atrValues.length -1] ?? null;
-
-    const payload: IndicatorDataSet = {
-      emaFast: isNaN(emaFast) ? null : emaFast,
-      emaSlow: isNaN(emaSlow) ? null : emaSlow,
-      rsi: rsi ?? null,
-      bbUpper: isNaN(bb.upper) ? null : bb.upper,
-      bbMiddle: isNaN(bb.middle) ? null : bb.middle,
-      bbLower: isNaN(bb.lower) ? null : bb.lower,
-      atr: atr ?? null,
-      currentPrice: triggeringCandle.close,
-      timestamp: triggeringCandle.time,
-    };
-    
+    const values: IndicatorDataSet['values'] = Object.assign(
+      {},
+      ...indicators.map(({ id, calculator }) => indicatorValues(id, calculator.read(candles)))
+    );
+
+    const payload = toDataSet(values, triggeringCandle);
+
+    if (timeframe !== BASE_TIMEFRAME) {
+      console.log(`IndicatorEngineAgent: Sending INDICATORS_READY_HTF for ${timeframe} with payload:`, payload);
+      this.bus.send({
+        from: 'IndicatorEngine' as AgentName,
+        symbol,
+        timeframe,
+        type: 'INDICATORS_READY_HTF',
+        payload,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
     console.log('IndicatorEngineAgent: Sending INDICATORS_READY_5M with payload:', payload);
-    orchestrator.send<IndicatorDataSet>({
+    this.bus.send({
       from: 'IndicatorEngine' as AgentName,
+      symbol,
       type: 'INDICATORS_READY_5M',
       payload,
       timestamp: Date.now(),
     });
   }
 }
-export const indicatorEngineAgent = new IndicatorEngineAgent();
 // Ensure this module is imported in a global context (e.g., _app.tsx or a main layout/provider)
 // for the agent to be instantiated and register itself.
@@ -1,52 +1,371 @@
 // src/lib/agents/Orchestrator.ts
-import { AgentMessage, MessageHandler } from './types';
+import {
+  AgentMessage,
+  AgentName,
+  HandlerErrorPayload,
+  MessageHandler,
+  MessageOf,
+  MessageType,
+  TypedMessageHandler,
+} from './types';
+import { validateMessage } from './messages';
+
+/**
+ * What to do with messages of one type that arrive while the previous one is still being handled.
+ * - coalesce: keep only the newest pending message per symbol (live ticks: only the latest price matters)
+ * - drop-oldest / drop-newest: keep up to `maxQueue` pending messages, discarding from that end
+ */
+export type BackpressureStrategy = 'coalesce' | 'drop-oldest' | 'drop-newest';
+
+export interface BackpressurePolicy {
+  strategy: BackpressureStrategy;
+  /** Pending messages kept while a delivery is in flight (default 100; coalesce keeps one per symbol) */
+  maxQueue?: number;
+}
+
+export type BackpressureConfig = Partial<Record<MessageType, BackpressurePolicy>>;
+
+export const DEFAULT_BACKPRESSURE: BackpressureConfig = {
+  LIVE_CANDLE_UPDATE_5M: { strategy: 'coalesce' },
+};
+
+export const DEFAULT_HANDLER_TIMEOUT_MS = 10000;
+
+export interface OrchestratorOptions {
+  /** Check payloads against the message catalog before delivery (default: development only) */
+  validate?: boolean;
+  /** How long an async handler may run before it is reported as timed out */
+  handlerTimeoutMs?: number;
+  /** Bounded queues for high-frequency types; other types are delivered immediately */
+  backpressure?: BackpressureConfig;
+}
+
+export interface HandlerOptions {
+  /** Overrides the orchestrator's handlerTimeoutMs for this handler */
+  timeoutMs?: number;
+}
+
+interface Subscription {
+  handler: MessageHandler;
+  subscriber?: AgentName;
+  timeoutMs?: number;
+}
+
+export interface HandlerTiming {
+  /** Name given at register time, 'anonymous' otherwise */
+  subscriber: string;
+  durationMs: number;
+  error?: string;
+  timedOut?: boolean;
+}
+
+/**
+ * What happened to one message once its handlers ran (bus inspector).
+ * For async handlers the report is sent once every handler has settled.
+ */
+export interface DeliveryReport {
+  message: AgentMessage;
+  handlers: HandlerTiming[];
+  totalMs: number;
+}
+
+export type SubscriberMap = Partial<Record<MessageType, string[]>>;
+
+export interface QueueStats {
+  /** A message of this type is being handled right now */
+  busy: boolean;
+  pending: number;
+  dropped: number;
+}
+
+interface TypeQueue {
+  policy: BackpressurePolicy;
+  busy: boolean;
+  dropped: number;
+  messages: AgentMessage[];
+}
+
+class HandlerTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Handler timed out after ${timeoutMs}ms`);
+    this.name = 'HandlerTimeoutError';
+  }
+}
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
 
 /**
  * Central message bus for agent communication
  * Follows publish-subscribe pattern to decouple components
  */
-class OrchestratorService {
-  private subscribers: Map<string, MessageHandler[]> = new Map();
+export class OrchestratorService {
+  private subscribers: Map<MessageType, Subscription[]> = new Map();
+  private observers: ((message: AgentMessage) => void)[] = [];
+  private deliveryListeners: ((report: DeliveryReport) => void)[] = [];
+  private queues: Map<MessageType, TypeQueue> = new Map();
+  private inFlight = new Set<Promise<void>>();
+  private readonly validate: boolean;
+  private readonly handlerTimeoutMs: number;
+  private readonly backpressure: BackpressureConfig;
+
+  constructor({
+    validate = process.env.NODE_ENV === 'development',
+    handlerTimeoutMs = DEFAULT_HANDLER_TIMEOUT_MS,
+    backpressure = DEFAULT_BACKPRESSURE,
+  }: OrchestratorOptions = {}) {
+    this.validate = validate;
+    this.handlerTimeoutMs = handlerTimeoutMs;
+    this.backpressure = backpressure;
+  }
 
   /**
    * Register a handler for a specific message type
    * @param messageType The message type to subscribe to
-   * @param handler The callback function to handle the message
+   * @param handler The callback function to handle the message; may return a promise
+   * @param subscriber Who is listening, shown in the bus inspector and in AGENT_ERROR events
+   * @param options Per-handler settings such as the async timeout
    * @returns Unsubscribe function to remove the handler
    */
-  public register(messageType: string, handler: MessageHandler): () => void {
+  public register<K extends MessageType>(
+    messageType: K,
+    handler: TypedMessageHandler<K>,
+    subscriber?: AgentName,
+    options: HandlerOptions = {}
+  ): () => void {
     if (!this.subscribers.has(messageType)) {
       this.subscribers.set(messageType, []);
     }
-    
+
     const handlers = this.subscribers.get(messageType)!;
-    handlers.push(handler);
-    
+    handlers.push({ handler: handler as MessageHandler, subscriber, timeoutMs: options.timeoutMs });
+
     // Return unsubscribe function
     return () => {
-      const updatedHandlers = this.subscribers.get(messageType)?.filter(h => h !== handler);
+      const updatedHandlers = this.subscribers.get(messageType)?.filter(s => s.handler !== handler);
       if (updatedHandlers) {
         this.subscribers.set(messageType, updatedHandlers);
       }
     };
   }
 
+  /**
+   * Observe every message delivered on the bus, regardless of type (journals, inspectors).
+   * Observers run before the message's handlers, so nested sends are seen in causal order.
+   * @returns Function that stops observing
+   */
+  public observe(observer: (message: AgentMessage) => void): () => void {
+    this.observers.push(observer);
+    return () => {
+      this.observers = this.observers.filter(o => o !== observer);
+    };
+  }
+
+  /**
+   * Receive handler timings for every delivered message
+   * @returns Function that stops listening
+   */
+  public onDelivered(listener: (report: DeliveryReport) => void): () => void {
+    this.deliveryListeners.push(listener);
+    return () => {
+      this.deliveryListeners = this.deliveryListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Current subscribers per message type
+   */
+  public getSubscriberMap(): SubscriberMap {
+    const map: SubscriberMap = {};
+    this.subscribers.forEach((subscriptions, type) => {
+      if (subscriptions.length > 0) {
+        map[type] = subscriptions.map(s => s.subscriber ?? 'anonymous');
+      }
+    });
+    return map;
+  }
+
+  /**
+   * Queue state for every type with a backpressure policy that has seen traffic
+   */
+  public getQueueStats(): Partial<Record<MessageType, QueueStats>> {
+    const stats: Partial<Record<MessageType, QueueStats>> = {};
+    this.queues.forEach((queue, type) => {
+      stats[type] = { busy: queue.busy, pending: queue.messages.length, dropped: queue.dropped };
+    });
+    return stats;
+  }
+
+  /**
+   * Resolves once every async handler started so far (and any queued message) has settled
+   */
+  public async idle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
   /**
    * Send a message to all subscribers of the message type
    * @param message The message to send
    */
-  public send<T>(message: AgentMessage<T>): void {
+  public send<K extends MessageType>(message: MessageOf<K>): void {
     // Log the message for debugging
     console.log(`📬 Orchestrator: [${message.from}] sent [${message.type}]`, message.payload);
-    
-    const handlers = this.subscribers.get(message.type) || [];
-    
-    // Execute all handlers safely
-    handlers.forEach(handler => {
+
+    if (this.validate) {
+      const problem = validateMessage(message.type, message.payload);
+      if (problem) {
+        console.error(`Orchestrator: dropped message from ${message.from}: ${problem}`, message.payload);
+        return;
+      }
+    }
+
+    const policy = this.backpressure[message.type];
+    if (!policy) {
+      this.deliver(message);
+      return;
+    }
+
+    let queue = this.queues.get(message.type);
+    if (!queue) {
+      queue = { policy, busy: false, dropped: 0, messages: [] };
+      this.queues.set(message.type, queue);
+    }
+    if (queue.busy) {
+      this.enqueue(queue, message);
+    } else {
+      this.deliverQueued(queue, message);
+    }
+  }
+
+  private enqueue(queue: TypeQueue, message: AgentMessage): void {
+    if (queue.policy.strategy === 'coalesce') {
+      // One pending message per symbol, so a BTC tick never replaces a pending ETH tick
+      const pending = queue.messages.findIndex(m => m.symbol === message.symbol);
+      if (pending >= 0) {
+        queue.messages.splice(pending, 1);
+        queue.dropped++;
+      }
+      queue.messages.push(message);
+      return;
+    }
+    const maxQueue = Math.max(1, queue.policy.maxQueue ?? 100);
+    if (queue.messages.length < maxQueue) {
+      queue.messages.push(message);
+      return;
+    }
+    queue.dropped++;
+    if (queue.policy.strategy !== 'drop-newest') {
+      queue.messages.shift();
+      queue.messages.push(message);
+    }
+  }
+
+  private deliverQueued(queue: TypeQueue, message: AgentMessage): void {
+    queue.busy = true;
+    const next = () => {
+      queue.busy = false;
+      const following = queue.messages.shift();
+      if (following) this.deliverQueued(queue, following);
+    };
+    const settled = this.deliver(message);
+    if (settled) {
+      settled.then(next);
+    } else {
+      next();
+    }
+  }
+
+  /**
+   * Run every handler for the message. Returns a promise if any handler was async.
+   */
+  private deliver(message: AgentMessage): Promise<void> | null {
+    this.observers.forEach(observer => {
+      try {
+        observer(message);
+      } catch (error) {
+        console.error(`Error in observer for ${message.type}:`, error);
+      }
+    });
+
+    // Copy so handlers that (un)subscribe while running do not affect this delivery
+    const handlers = [...(this.subscribers.get(message.type) || [])];
+    const results = handlers.map(subscription => this.invoke(subscription, message));
+
+    if (!results.some(isPromiseLike)) {
+      this.report(message, results as HandlerTiming[]);
+      return null;
+    }
+
+    const settled = Promise.all(results).then(timings => this.report(message, timings));
+    this.inFlight.add(settled);
+    settled.then(() => this.inFlight.delete(settled));
+    return settled;
+  }
+
+  /**
+   * Run one handler safely. Sync handlers return their timing directly; async handlers
+   * return a promise that always resolves, with failures and timeouts turned into AGENT_ERROR.
+   */
+  private invoke(subscription: Subscription, message: AgentMessage): HandlerTiming | Promise<HandlerTiming> {
+    const subscriber = subscription.subscriber ?? 'anonymous';
+    const started = now();
+    const fail = (error: unknown): HandlerTiming => {
+      const timedOut = error instanceof HandlerTimeoutError;
+      const text = error instanceof Error ? error.message : String(error);
+      console.error(`Error in handler for ${message.type}:`, error);
+      this.reportHandlerError(subscriber, message, text, timedOut);
+      return { subscriber, durationMs: now() - started, error: text, timedOut };
+    };
+
+    try {
+      const result = subscription.handler(message);
+      if (!isPromiseLike(result)) {
+        return { subscriber, durationMs: now() - started };
+      }
+
+      const timeoutMs = subscription.timeoutMs ?? this.handlerTimeoutMs;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new HandlerTimeoutError(timeoutMs)), timeoutMs);
+      });
+      return Promise.race([result, timeout])
+        .then((): HandlerTiming => ({ subscriber, durationMs: now() - started }), fail)
+        .finally(() => clearTimeout(timer));
+    } catch (error) {
+      return fail(error);
+    }
+  }
+
+  private reportHandlerError(subscriber: string, message: AgentMessage, error: string, timedOut: boolean): void {
+    // A failing AGENT_ERROR handler must not trigger another AGENT_ERROR
+    if (message.type === 'AGENT_ERROR') return;
+
+    const payload: HandlerErrorPayload = {
+      subscriber,
+      failedMessage: { from: message.from, type: message.type, timestamp: message.timestamp },
+      error,
+      timedOut,
+    };
+    this.send({ from: 'Orchestrator', type: 'AGENT_ERROR', payload, timestamp: Date.now() });
+  }
+
+  private report(message: AgentMessage, timings: HandlerTiming[]): void {
+    if (this.deliveryListeners.length === 0) return;
+
+    const report: DeliveryReport = {
+      message,
+      handlers: timings,
+      totalMs: timings.reduce((sum, t) => sum + t.durationMs, 0),
+    };
+    this.deliveryListeners.forEach(listener => {
       try {
-        handler(message);
+        listener(report);
       } catch (error) {
-        console.error(`Error in handler for ${message.type}:`, error);
+        console.error(`Error in delivery listener for ${message.type}:`, error);
       }
     });
   }
@@ -1,84 +1,134 @@
 console.log('SignalGenerator.ts module loading...'); // ADDED FOR DEBUGGING
 // src/lib/agents/SignalGenerator.ts
-import { orchestrator } from './Orchestrator';
+import { AgentHealth, BaseAgent } from './BaseAgent';
+import { symbolOf } from './symbols';
+import { timeframeOf } from './timeframes';
 import { AgentMessage, AgentName, MessageHandler, IndicatorDataSet, TradingSignal, MarketRegime } from './types';
-import { Candle } from '@/lib/types';
+import { Candle, Interval } from '@/lib/types';
+import { intervalMs } from '@/lib/candle-aggregator';
 
 import { detectRegime } from '@/lib/market/regime-detector';
 import { getSignalConfluence } from '@/lib/signals/confluence-scorer';
 import { calculateTradeParams } from '@/lib/signals/price-targets';
+import { applyTimeframeAlignment } from '@/lib/signals/timeframe-alignment';
 
-class SignalGeneratorAgent {
-  private candleHistory: Candle[] = [];
+/** What the generator knows about one symbol */
+interface MarketState {
+  candleHistory: Candle[];
+  latestIndicators: IndicatorDataSet | null;
+  currentMarketRegime: MarketRegime | null;
+  /** Latest indicators per higher timeframe, used to confirm base-timeframe signals */
+  higherTimeframes: Partial<Record<Interval, IndicatorDataSet>>;
+}
+
+export class SignalGeneratorAgent extends BaseAgent {
+  public readonly name = 'SignalGenerator';
   private readonly MAX_CANDLE_HISTORY = 50;
-  private latestIndicators: IndicatorDataSet | null = null;
-  private currentMarketRegime: MarketRegime | null = null;
+  private markets = new Map<string, MarketState>();
+
+  private market(symbol: string): MarketState {
+    let market = this.markets.get(symbol);
+    if (!market) {
+      market = { candleHistory: [], latestIndicators: null, currentMarketRegime: null, higherTimeframes: {} };
+      this.markets.set(symbol, market);
+    }
+    return market;
+  }
 
-  constructor() {
-    console.log('SignalGeneratorAgent: Constructor called. Subscribing to INDICATORS_READY_5M, candle updates, and MARKET_REGIME_UPDATED.');
-    orchestrator.register('INDICATORS_READY_5M', this.onIndicatorsReady.bind(this));
-    orchestrator.register('MARKET_REGIME_UPDATED', this.onMarketRegimeUpdated.bind(this));
-    orchestrator.register('NEW_CLOSED_CANDLE_5M', (msg: AgentMessage<Candle>) => {
-      this.candleHistory.push(msg.payload);
-      if (this.candleHistory.length > this.MAX_CANDLE_HISTORY) {
-        this.candleHistory.shift();
+  protected registerHandlers(): void {
+    console.log('SignalGeneratorAgent: Starting. Subscribing to INDICATORS_READY_5M, candle updates, and MARKET_REGIME_UPDATED.');
+    this.listen('INDICATORS_READY_5M', this.onIndicatorsReady.bind(this));
+    this.listen('MARKET_REGIME_UPDATED', this.onMarketRegimeUpdated.bind(this));
+    // Higher-timeframe indicators only weight the next base-timeframe signal, they do not trigger one
+    this.listen('INDICATORS_READY_HTF', (msg: AgentMessage<IndicatorDataSet>) => {
+      this.market(symbolOf(msg)).higherTimeframes[timeframeOf(msg)] = msg.payload;
+    });
+    this.listen('NEW_CLOSED_CANDLE_5M', (msg: AgentMessage<Candle>) => {
+      const market = this.market(symbolOf(msg));
+      market.candleHistory.push(msg.payload);
+      if (market.candleHistory.length > this.MAX_CANDLE_HISTORY) {
+        market.candleHistory.shift();
       }
     });
-    orchestrator.register('INITIAL_CANDLES_5M', (msg: AgentMessage<Candle[]>) => {
-      this.candleHistory = [...msg.payload].sort((a,b)=>a.time-b.time).slice(-this.MAX_CANDLE_HISTORY);
+    this.listen('INITIAL_CANDLES_5M', (msg: AgentMessage<Candle[]>) => {
+      this.market(symbolOf(msg)).candleHistory = [...msg.payload].sort((a,b)=>a.time-b.time).slice(-this.MAX_CANDLE_HISTORY);
     });
   }
 
+  public health(): AgentHealth {
+    const health = super.health();
+    const ready = Array.from(this.markets.entries()).filter(([, market]) => market.latestIndicators !== null);
+    return {
+      ...health,
+      healthy: health.healthy && ready.length > 0,
+      detail:
+        ready.length > 0
+          ? ready.map(([symbol, market]) => `${symbol} regime ${market.currentMarketRegime ?? 'unknown'}`).join(', ')
+          : 'waiting for indicators',
+    };
+  }
+
   private onIndicatorsReady(msg: AgentMessage<IndicatorDataSet>): void {
-    console.log('SignalGeneratorAgent: Received INDICATORS_READY_5M', msg.payload);
-    this.latestIndicators = msg.payload;
+    const symbol = symbolOf(msg);
+    const market = this.market(symbol);
+    console.log(`SignalGeneratorAgent: Received INDICATORS_READY_5M for ${symbol}`, msg.payload);
+    market.latestIndicators = msg.payload;
 
-    if (!this.latestIndicators.atr) {
+    if (!market.latestIndicators.atr) {
       console.warn('SignalGeneratorAgent: ATR is missing from latestIndicators. Cannot calculate SL/TP accurately. Ensure IndicatorEngine provides ATR.');
     }
 
-    const newMarketRegime: MarketRegime = detectRegime(this.latestIndicators, this.candleHistory) || 'undefined';
-    console.log(`SignalGeneratorAgent: Detected market regime: ${newMarketRegime}`);
+    const newMarketRegime: MarketRegime = detectRegime(market.latestIndicators, market.candleHistory) || 'undefined';
+    console.log(`SignalGeneratorAgent: Detected ${symbol} market regime: ${newMarketRegime}`);
 
-    if (newMarketRegime !== this.currentMarketRegime) {
-      console.log(`SignalGeneratorAgent: Market regime changed from ${this.currentMarketRegime} to ${newMarketRegime}. Emitting MARKET_REGIME_UPDATED event.`);
-      this.currentMarketRegime = newMarketRegime;
-      orchestrator.send<MarketRegime>({
+    if (newMarketRegime !== market.currentMarketRegime) {
+      console.log(`SignalGeneratorAgent: ${symbol} market regime changed from ${market.currentMarketRegime} to ${newMarketRegime}. Emitting MARKET_REGIME_UPDATED event.`);
+      market.currentMarketRegime = newMarketRegime;
+      this.bus.send({
         from: 'SignalGenerator' as AgentName,
+        symbol,
         type: 'MARKET_REGIME_UPDATED',
-        payload: this.currentMarketRegime,
+        payload: market.currentMarketRegime,
         timestamp: Date.now(),
       });
     }
     // Process signal with the new indicators and potentially new regime
-    this.generateSignal(this.latestIndicators, this.currentMarketRegime);
+    this.generateSignal(symbol, market.latestIndicators, market.currentMarketRegime);
   }
 
   private onMarketRegimeUpdated(msg: AgentMessage<MarketRegime>): void {
+    const symbol = symbolOf(msg);
+    const market = this.market(symbol);
     const newMarketRegime = msg.payload;
-    console.log(`SignalGeneratorAgent: Received MARKET_REGIME_UPDATED event. New regime: ${newMarketRegime}`);
+    console.log(`SignalGeneratorAgent: Received MARKET_REGIME_UPDATED event for ${symbol}. New regime: ${newMarketRegime}`);
     
-    if (this.latestIndicators) {
-      this.currentMarketRegime = newMarketRegime;
+    if (market.latestIndicators) {
+      market.currentMarketRegime = newMarketRegime;
       console.log("SignalGeneratorAgent: Re-generating signal due to MARKET_REGIME_UPDATED.");
-      this.generateSignal(this.latestIndicators, newMarketRegime);
+      this.generateSignal(symbol, market.latestIndicators, newMarketRegime);
     } else {
       console.warn("SignalGeneratorAgent: Market regime updated via event, but no latest indicators available to generate a signal.");
-      this.currentMarketRegime = newMarketRegime; // Store for next indicator update
+      market.currentMarketRegime = newMarketRegime; // Store for next indicator update
     }
   }
 
-  private generateSignal(indicators: IndicatorDataSet, marketRegime: MarketRegime | null): void {
+  private generateSignal(symbol: string, indicators: IndicatorDataSet, marketRegime: MarketRegime | null): void {
+    const { candleHistory, higherTimeframes } = this.market(symbol);
     if (!indicators) {
         console.warn("SignalGeneratorAgent: generateSignal called without indicators.");
         return;
     }
     if (marketRegime === null) {
         console.warn("SignalGeneratorAgent: generateSignal called without a market regime. Detecting fallback.");
-        marketRegime = detectRegime(indicators, this.candleHistory) || 'undefined';
+        marketRegime = detectRegime(indicators, candleHistory) || 'undefined';
     }
 
-    const confluence = getSignalConfluence(indicators, marketRegime);
+    const confluence = applyTimeframeAlignment(
+      getSignalConfluence(indicators, marketRegime),
+      (Object.entries(higherTimeframes) as [Interval, IndicatorDataSet][])
+        .map(([timeframe, higher]) => ({ timeframe, indicators: higher }))
+        .sort((a, b) => intervalMs(a.timeframe) - intervalMs(b.timeframe))
+    );
 
     let sltp: { stopLoss?: number; takeProfit?: number } = {}; // Correctly typed to match return of calculateTradeParams
     if (confluence.action !== 'HOLD' && indicators.currentPrice && indicators.atr) {
@@ -86,12 +136,13 @@ class SignalGeneratorAgent {
         entryPrice: indicators.currentPrice,
         signalType: confluence.action,
         atrValue: indicators.atr,
-        candles: this.candleHistory,
+        candles: candleHistory,
         riskRewardRatio: 2,
       });
     }
 
     const finalSignal: TradingSignal = {
+      symbol,
       action: confluence.action,
       confidence: confluence.confidence,
       reason: confluence.reason,
@@ -104,12 +155,12 @@ class SignalGeneratorAgent {
     };
     
     console.log("SignalGeneratorAgent: Generated final signal:", finalSignal);
-    orchestrator.send<TradingSignal>({
+    this.bus.send({
       from: 'SignalGenerator' as AgentName,
+      symbol,
       type: 'NEW_SIGNAL_5M',
       payload: finalSignal,
       timestamp: Date.now(),
     });
   }
 }
-export const signalGeneratorAgent = new SignalGeneratorAgent();
@@ -1,34 +1,46 @@
 // src/lib/agents/UIAdapter.ts
-import { orchestrator } from './Orchestrator';
-import { AgentMessage, AgentName, MessageHandler, AppState, TradingSignal, IndicatorDataSet } from './types';
+import { BaseAgent } from './BaseAgent';
+import { baseAsset, DEFAULT_SYMBOL, symbolOf, WATCHLIST_SYMBOLS } from './symbols';
+import { AgentMessage, AgentName, AppState, HandlerErrorPayload, SymbolState, TradingSignal, IndicatorDataSet, IndicatorPreview, StreamedCandle } from './types';
 import { Candle } from '@/lib/types';
 
-const initialAppState: AppState = {
+const initialSymbolState: SymbolState = {
   latestSignal: null,
   signalHistory: [],
   candlesForChart: [],
   latestIndicators: null,
+  indicatorPreview: null,
   currentPrice: null, // Added
+};
+
+const initialAppState: AppState = {
+  ...initialSymbolState,
+  selectedSymbol: DEFAULT_SYMBOL,
+  symbols: Object.fromEntries(WATCHLIST_SYMBOLS.map(symbol => [symbol, initialSymbolState])),
   dataStatus: { text: 'Initializing...', color: 'grey', lastUpdateTime: null },
   dataError: null,
+  agentErrors: [],
 };
 
-class UIAdapterService {
+const MAX_AGENT_ERRORS = 10;
+
+export class UIAdapterService extends BaseAgent {
+  public readonly name = 'UI';
   private state: AppState = { ...initialAppState };
   private listeners = new Set<(state: AppState) => void>();
+  private notificationsEnabled = true;
 
-  constructor() {
-    console.log('UIAdapterService: Initializing and subscribing to orchestrator messages.');
+  protected registerHandlers(): void {
+    console.log('UIAdapterService: Starting. Subscribing to orchestrator messages.');
 
-    orchestrator.register('NEW_SIGNAL_5M', ((msg: AgentMessage<TradingSignal>) => {
+    this.listen('NEW_SIGNAL_5M', (msg: AgentMessage<TradingSignal>) => {
       const signal = msg.payload;
-      this.updateState(s => {
-        const history = [signal, ...s.signalHistory].slice(0, 20);
-        return { ...s, latestSignal: signal, signalHistory: history };
-      });
-      if (typeof window !== 'undefined' && 'Notification' in window) {
+      const symbol = symbolOf(msg);
+      this.updateSymbol(symbol, s => ({ latestSignal: signal, signalHistory: [signal, ...s.signalHistory].slice(0, 20) }));
+      // Only one tab (the pipeline leader) notifies, so several open dashboards don't all fire
+      if (this.notificationsEnabled && typeof window !== 'undefined' && 'Notification' in window) {
         if (signal.action !== 'HOLD' && signal.confidence >= 70) {
-          const title = `BitDash3 Signal: ${signal.action} BTC!`;
+          const title = `BitDash3 Signal: ${signal.action} ${baseAsset(symbol)}!`;
           const body = `Reason: ${signal.reason}\nConfidence: ${signal.confidence.toFixed(1)}%`;
           if (Notification.permission === 'granted') {
             new Notification(title, { body, icon: '/bitcoin_icon.png' });
@@ -41,20 +53,19 @@ class UIAdapterService {
           }
         }
       }
-    }) as MessageHandler);
+    });
 
-    orchestrator.register('INITIAL_CANDLES_5M', ((msg: AgentMessage<Candle[]>) => {
+    this.listen('INITIAL_CANDLES_5M', (msg: AgentMessage<Candle[]>) => {
       const candles = msg.payload;
-      this.updateState(s => ({
-        ...s,
+      this.updateSymbol(symbolOf(msg), s => ({
         candlesForChart: candles.slice(-200),
         currentPrice: candles.length > 0 ? candles[candles.length - 1].close : s.currentPrice
       }));
-    }) as MessageHandler);
+    });
 
-    orchestrator.register('LIVE_CANDLE_UPDATE_5M', ((msg: AgentMessage<Candle & {isClosed: boolean}>) => {
+    this.listen('LIVE_CANDLE_UPDATE_5M', (msg: AgentMessage<StreamedCandle>) => {
       const candle = msg.payload;
-      this.updateState(s => {
+      this.updateSymbol(symbolOf(msg), s => {
         const newCandles = [...s.candlesForChart];
         const idx = newCandles.findIndex(c => c.time === candle.time);
         if (idx !== -1) newCandles[idx] = candle;
@@ -66,13 +77,11 @@ class UIAdapterService {
         // to be exclusively within INITIAL_CANDLES_5M handler.
         // For now, only restricting currentPrice update.
         return {
-          ...s,
           candlesForChart: newCandles.sort((a,b) => a.time - b.time).slice(-200)
           // currentPrice: candle.close // REMOVED
         };
       });
-      return undefined; // Explicit return to match MessageHandler type
-    }) as MessageHandler);
+    });
 
     // Also handle NEW_CLOSED_CANDLE_5M if it's a distinct event that UIAdapter listens to
     // Assuming for now LIVE_CANDLE_UPDATE_5M covers the necessary updates for currentPrice
@@ -81,19 +90,30 @@ class UIAdapterService {
     //   this.updateState(s => ({ ...s, currentPrice: msg.payload.close }));
     // }) as MessageHandler);
 
-    orchestrator.register('INDICATORS_READY_5M', ((msg: AgentMessage<IndicatorDataSet>) =>
-      this.updateState(s => ({ ...s, latestIndicators: msg.payload }))
-    ) as MessageHandler);
+    // A preview is dropped once confirmed values for its bar (or a later one) arrive, and ignored if
+    // it comes after them (e.g. replayed to a tab that joins late)
+    this.listen('INDICATORS_READY_5M', (msg: AgentMessage<IndicatorDataSet>) =>
+      this.updateSymbol(symbolOf(msg), s => ({
+        latestIndicators: msg.payload,
+        indicatorPreview: s.indicatorPreview && s.indicatorPreview.timestamp > msg.payload.timestamp ? s.indicatorPreview : null,
+      }))
+    );
+
+    this.listen('INDICATORS_PREVIEW_5M', (msg: AgentMessage<IndicatorPreview>) =>
+      this.updateSymbol(symbolOf(msg), s =>
+        s.latestIndicators && msg.payload.timestamp <= s.latestIndicators.timestamp ? {} : { indicatorPreview: msg.payload }
+      )
+    );
 
-    orchestrator.register('DATA_STATUS_UPDATE', ((msg: AgentMessage<{lastUpdateTime: number}>) => {
+    this.listen('DATA_STATUS_UPDATE', (msg: AgentMessage<{lastUpdateTime: number}>) => {
       this.updateState(s => ({
         ...s,
         dataStatus: { ...s.dataStatus, text: '● Live', color: 'green', lastUpdateTime: msg.payload.lastUpdateTime },
         dataError: null,
       }));
-    }) as MessageHandler);
+    });
 
-    orchestrator.register('DATA_ERROR', ((msg: AgentMessage<string | {message: string}>) => {
+    this.listen('DATA_ERROR', (msg: AgentMessage<string | {message: string}>) => {
       const errorPayload = msg.payload;
       const message = typeof errorPayload === 'string' ? errorPayload : errorPayload?.message;
       this.updateState(s => ({
@@ -101,7 +121,38 @@ class UIAdapterService {
         dataError: message || 'Unknown error',
         dataStatus: { ...s.dataStatus, text: `Error: ${message ? message.substring(0,30) : 'Unknown'}`, color: 'red' },
       }));
-    }) as MessageHandler);
+    });
+
+    this.listen('AGENT_ERROR', (msg: AgentMessage<HandlerErrorPayload>) => {
+      this.updateState(s => ({ ...s, agentErrors: [msg.payload, ...s.agentErrors].slice(0, MAX_AGENT_ERRORS) }));
+    });
+  }
+
+  public setNotificationsEnabled(enabled: boolean): void {
+    this.notificationsEnabled = enabled;
+  }
+
+  /**
+   * Show another market; the top-level SymbolState fields switch to its data
+   */
+  public selectSymbol = (symbol: string): void => {
+    this.updateState(s => ({ ...s, ...(s.symbols[symbol] ?? initialSymbolState), selectedSymbol: symbol }));
+  };
+
+  public dismissAgentErrors = (): void => {
+    this.updateState(s => ({ ...s, agentErrors: [] }));
+  };
+
+  /**
+   * Update one market's state, mirroring it to the top level when it is the selected market
+   */
+  private updateSymbol(symbol: string, updater: (prev: SymbolState) => Partial<SymbolState>) {
+    this.updateState(s => {
+      const next = { ...(s.symbols[symbol] ?? initialSymbolState) };
+      Object.assign(next, updater(next));
+      const symbols = { ...s.symbols, [symbol]: next };
+      return symbol === s.selectedSymbol ? { ...s, ...next, symbols } : { ...s, symbols };
+    });
   }
 
   private updateState(updater: (prevState: AppState) => AppState | Partial<AppState>) {
@@ -117,4 +168,5 @@ class UIAdapterService {
     return () => this.listeners.delete(listener);
   };
 }
+// App-wide UI state store; it subscribes to the orchestrator once the app's AgentRegistry starts it
 export const uiAdapter = new UIAdapterService();
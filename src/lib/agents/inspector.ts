@@ -0,0 +1,192 @@
+// src/lib/agents/inspector.ts
+import { DeliveryReport, HandlerTiming, OrchestratorService, SubscriberMap } from './Orchestrator';
+import { AgentMessage, AgentName, MessageType } from './types';
+
+export interface PayloadChange {
+  /** Dotted path into the payload, '' for the payload itself */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface InspectedMessage {
+  id: number;
+  message: AgentMessage;
+  receivedAt: number;
+  /** Filled in once the handlers have run; null while still delivering */
+  handlers: HandlerTiming[] | null;
+  totalMs: number | null;
+  /** Changes relative to the previous payload of the same type; null for the first one */
+  diff: PayloadChange[] | null;
+}
+
+export interface MessageFilter {
+  from?: AgentName;
+  type?: MessageType;
+}
+
+export interface TypeThroughput {
+  type: MessageType;
+  count: number;
+  perMinute: number;
+  avgHandlerMs: number | null;
+}
+
+export interface BusInspectorOptions {
+  /** Messages kept in memory, oldest dropped first */
+  limit?: number;
+  /** Window for the throughput figures */
+  throughputWindowMs?: number;
+  now?: () => number;
+}
+
+const MAX_DIFF_CHANGES = 50;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Structural diff between two payloads. Stops after MAX_DIFF_CHANGES entries so large
+ * candle arrays cannot stall the inspector.
+ */
+export function diffPayload(before: unknown, after: unknown, path = '', changes: PayloadChange[] = []): PayloadChange[] {
+  if (changes.length >= MAX_DIFF_CHANGES || Object.is(before, after)) return changes;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length !== after.length) {
+      changes.push({ path: path ? `${path}.length` : 'length', before: before.length, after: after.length });
+    }
+    for (let i = 0; i < Math.min(before.length, after.length); i++) {
+      diffPayload(before[i], after[i], path ? `${path}.${i}` : String(i), changes);
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => diffPayload(before[key], after[key], path ? `${path}.${key}` : key, changes));
+    return changes;
+  }
+
+  if (changes.length < MAX_DIFF_CHANGES) changes.push({ path, before, after });
+  return changes;
+}
+
+/**
+ * Records live bus traffic for the devtools inspector: message log with payload diffs,
+ * handler timings, per-type throughput and the current subscriber map.
+ */
+export class BusInspector {
+  private records: InspectedMessage[] = [];
+  private inFlight = new Map<AgentMessage, InspectedMessage>();
+  private lastPayload = new Map<MessageType, unknown>();
+  private listeners = new Set<() => void>();
+  private detach: (() => void)[] = [];
+  private nextId = 1;
+  private readonly limit: number;
+  private readonly throughputWindowMs: number;
+  private readonly now: () => number;
+
+  constructor(private readonly bus: OrchestratorService, options: BusInspectorOptions = {}) {
+    this.limit = options.limit ?? 500;
+    this.throughputWindowMs = options.throughputWindowMs ?? 60000;
+    this.now = options.now ?? Date.now;
+  }
+
+  public start(): void {
+    if (this.detach.length > 0) return;
+    this.detach = [
+      this.bus.observe(message => this.onMessage(message)),
+      this.bus.onDelivered(report => this.onDelivered(report)),
+    ];
+  }
+
+  public stop(): void {
+    this.detach.forEach(fn => fn());
+    this.detach = [];
+    this.inFlight.clear();
+  }
+
+  public clear(): void {
+    this.records = [];
+    this.lastPayload.clear();
+    this.notify();
+  }
+
+  /**
+   * Called after every recorded message or timing update
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Recorded messages, newest first
+   */
+  public getMessages(filter: MessageFilter = {}): InspectedMessage[] {
+    return this.records
+      .filter(r => (!filter.from || r.message.from === filter.from) && (!filter.type || r.message.type === filter.type))
+      .reverse();
+  }
+
+  public getThroughput(): TypeThroughput[] {
+    const since = this.now() - this.throughputWindowMs;
+    const byType = new Map<MessageType, InspectedMessage[]>();
+    this.records
+      .filter(r => r.receivedAt >= since)
+      .forEach(r => {
+        const records = byType.get(r.message.type) ?? [];
+        records.push(r);
+        byType.set(r.message.type, records);
+      });
+
+    return Array.from(byType.entries())
+      .map(([type, records]) => {
+        const timed = records.filter(r => r.totalMs !== null);
+        return {
+          type,
+          count: records.length,
+          perMinute: (records.length / this.throughputWindowMs) * 60000,
+          avgHandlerMs: timed.length > 0 ? timed.reduce((sum, r) => sum + r.totalMs!, 0) / timed.length : null,
+        };
+      })
+      .sort((a, b) => b.count - a.count);
+  }
+
+  public getSubscriberMap(): SubscriberMap {
+    return this.bus.getSubscriberMap();
+  }
+
+  private onMessage(message: AgentMessage): void {
+    const previous = this.lastPayload.get(message.type);
+    const record: InspectedMessage = {
+      id: this.nextId++,
+      message,
+      receivedAt: this.now(),
+      handlers: null,
+      totalMs: null,
+      diff: this.lastPayload.has(message.type) ? diffPayload(previous, message.payload) : null,
+    };
+    this.lastPayload.set(message.type, message.payload);
+    this.records.push(record);
+    if (this.records.length > this.limit) this.records.shift();
+    this.inFlight.set(message, record);
+    this.notify();
+  }
+
+  private onDelivered(report: DeliveryReport): void {
+    const record = this.inFlight.get(report.message);
+    if (!record) return;
+    this.inFlight.delete(report.message);
+    record.handlers = report.handlers;
+    record.totalMs = report.totalMs;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,76 @@
+// src/lib/agents/journal-file-store.ts
+import fs from 'fs';
+import path from 'path';
+import { JournalEntry, JournalStore } from './journal';
+
+const JOURNAL_DIR = path.join(process.cwd(), '.cache', 'journal');
+
+/**
+ * Server-side journal store: one JSONL file per session under .cache/journal. Entries appended
+ * while a write is in flight are buffered and written together by the next one, so a busy bus
+ * costs one non-blocking append per batch rather than a synchronous write per message.
+ */
+export class FileJournalStore implements JournalStore {
+  private buffer: JournalEntry[] = [];
+  private nextBatch: Promise<void> | null = null;
+  private written: Promise<void> = Promise.resolve();
+
+  constructor(private readonly dir: string = JOURNAL_DIR) {}
+
+  private file(sessionId: string): string {
+    return path.join(this.dir, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * Resolves once the batch holding `entry` is on disk
+   */
+  append(entry: JournalEntry): Promise<void> {
+    this.buffer.push(entry);
+    if (!this.nextBatch) {
+      this.nextBatch = this.written.then(() => this.writeBatch());
+      this.written = this.nextBatch.catch(() => undefined);
+    }
+    return this.nextBatch;
+  }
+
+  private async writeBatch(): Promise<void> {
+    const entries = this.buffer;
+    this.buffer = [];
+    this.nextBatch = null;
+
+    const lines = new Map<string, string>();
+    entries.forEach(entry => {
+      lines.set(entry.sessionId, `${lines.get(entry.sessionId) ?? ''}${JSON.stringify(entry)}\n`);
+    });
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    for (const [sessionId, text] of lines) {
+      await fs.promises.appendFile(this.file(sessionId), text, 'utf8');
+    }
+  }
+
+  async readSession(sessionId: string): Promise<JournalEntry[]> {
+    await this.written;
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.file(sessionId), 'utf8');
+    } catch {
+      return [];
+    }
+    return text
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as JournalEntry)
+      .sort((a, b) => a.seq - b.seq);
+  }
+
+  async listSessions(): Promise<string[]> {
+    await this.written;
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch {
+      return [];
+    }
+    return names.filter(name => name.endsWith('.jsonl')).map(name => name.slice(0, -'.jsonl'.length));
+  }
+}
@@ -0,0 +1,140 @@
+// src/lib/agents/journal.ts
+import { OrchestratorService } from './Orchestrator';
+import { AgentMessage } from './types';
+
+/**
+ * One recorded bus message. `seq` preserves send order within a session,
+ * `recordedAt` the wall-clock spacing used for real-time replay.
+ */
+export interface JournalEntry {
+  sessionId: string;
+  seq: number;
+  recordedAt: number;
+  message: AgentMessage;
+}
+
+/**
+ * Persistence backend for the journal (IndexedDB in the browser, JSONL files on the server).
+ * `append` is called again before the previous call has resolved, so stores may batch writes.
+ */
+export interface JournalStore {
+  append(entry: JournalEntry): Promise<void>;
+  readSession(sessionId: string): Promise<JournalEntry[]>;
+  listSessions(): Promise<string[]>;
+}
+
+export function createSessionId(now = Date.now()): string {
+  return `${new Date(now).toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Records every message sent on a bus into a JournalStore until stopped.
+ * Storage failures are logged and never interrupt message delivery.
+ */
+export class MessageJournal {
+  private seq = 0;
+  private unobserve: (() => void) | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly bus: OrchestratorService,
+    private readonly store: JournalStore,
+    public readonly sessionId: string = createSessionId()
+  ) {}
+
+  public start(): void {
+    if (this.unobserve) return;
+    this.unobserve = this.bus.observe(message => this.record(message));
+  }
+
+  public stop(): void {
+    this.unobserve?.();
+    this.unobserve = null;
+  }
+
+  /**
+   * Resolves once every entry recorded so far has been written
+   */
+  public flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private record(message: AgentMessage): void {
+    const entry: JournalEntry = { sessionId: this.sessionId, seq: this.seq++, recordedAt: Date.now(), message };
+    // Appends don't wait for each other (readers order entries by seq); flush waits for all of them
+    const written = this.store
+      .append(entry)
+      .catch(error => console.error('MessageJournal: Failed to persist entry:', error));
+    this.pending = this.pending.then(() => written);
+  }
+}
+
+/**
+ * In-memory store (tests, short-lived sessions). Entries are copied through JSON like the
+ * persistent stores, so later mutation of a payload does not rewrite history.
+ */
+export class MemoryJournalStore implements JournalStore {
+  private entries: JournalEntry[] = [];
+
+  async append(entry: JournalEntry): Promise<void> {
+    this.entries.push(JSON.parse(JSON.stringify(entry)));
+  }
+
+  async readSession(sessionId: string): Promise<JournalEntry[]> {
+    return this.entries.filter(e => e.sessionId === sessionId).sort((a, b) => a.seq - b.seq);
+  }
+
+  async listSessions(): Promise<string[]> {
+    return Array.from(new Set(this.entries.map(e => e.sessionId)));
+  }
+}
+
+/**
+ * Browser store: one IndexedDB object store keyed by [sessionId, seq]
+ */
+export class IndexedDBJournalStore implements JournalStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName = 'bitdash_journal') {}
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains('entries')) {
+            const store = db.createObjectStore('entries', { keyPath: ['sessionId', 'seq'] });
+            store.createIndex('sessionId', 'sessionId');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.db();
+    return new Promise((resolve, reject) => {
+      const req = run(db.transaction('entries', mode).objectStore('entries'));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async readSession(sessionId: string): Promise<JournalEntry[]> {
+    const entries = await this.request<JournalEntry[]>('readonly', store => store.index('sessionId').getAll(sessionId));
+    return entries.sort((a, b) => a.seq - b.seq);
+  }
+
+  async listSessions(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.index('sessionId').getAllKeys());
+    return Array.from(new Set(keys.map(key => String((key as [string, number])[0]))));
+  }
+}
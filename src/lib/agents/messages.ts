@@ -0,0 +1,85 @@
+// src/lib/agents/messages.ts
+import { AgentMessageMap, MessageType } from './types';
+import { isIndicatorKind } from '@/lib/indicators/catalog';
+
+/**
+ * Runtime payload checks for the message catalog in types.ts.
+ * Used by the orchestrator in development to catch payloads the type system cannot see
+ * (untyped callers, JSON from other tabs or the server).
+ */
+type PayloadValidator = (payload: unknown) => boolean;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isCandle = (value: unknown): boolean =>
+  isObject(value) && ['time', 'open', 'high', 'low', 'close', 'volume'].every(key => isNumber(value[key]));
+
+const isNullableNumber = (value: unknown): boolean => value === null || isNumber(value);
+
+const isIndicatorDataSet = (value: unknown): boolean =>
+  isObject(value) &&
+  isNumber(value.currentPrice) &&
+  isNumber(value.timestamp) &&
+  ['emaFast', 'emaSlow', 'rsi', 'bbUpper', 'bbMiddle', 'bbLower', 'atr'].every(key => isNullableNumber(value[key])) &&
+  isObject(value.values) &&
+  Object.values(value.values).every(isNullableNumber);
+
+const isIndicatorSetting = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isIndicatorKind(value.kind) &&
+  isObject(value.params) &&
+  Object.values(value.params).every(isNumber) &&
+  typeof value.enabled === 'boolean';
+
+const MESSAGE_VALIDATORS: Record<MessageType, PayloadValidator> = {
+  REQUEST_INITIAL_DATA: p => isObject(p) && (p.limit === undefined || isNumber(p.limit)),
+  MANUAL_DATA_REFRESH_REQUEST: p => p === null,
+  INITIAL_CANDLES_5M: p => Array.isArray(p) && p.every(isCandle),
+  NEW_CLOSED_CANDLE_5M: isCandle,
+  LIVE_CANDLE_UPDATE_5M: isCandle,
+  INDICATORS_READY_5M: isIndicatorDataSet,
+  INDICATORS_PREVIEW_5M: p => isIndicatorDataSet(p) && isObject(p) && p.provisional === true,
+  INITIAL_CANDLES_HTF: p => Array.isArray(p) && p.every(isCandle),
+  NEW_CLOSED_CANDLE_HTF: isCandle,
+  INDICATORS_READY_HTF: isIndicatorDataSet,
+  INDICATOR_SETTINGS_UPDATED: p => Array.isArray(p) && p.every(isIndicatorSetting),
+  MARKET_REGIME_UPDATED: p =>
+    typeof p === 'string' && ['trending-up', 'trending-down', 'ranging', 'volatile', 'undefined'].includes(p),
+  NEW_SIGNAL_5M: p =>
+    isObject(p) &&
+    ['BUY', 'SELL', 'HOLD'].includes(p.action as string) &&
+    isNumber(p.confidence) &&
+    typeof p.reason === 'string' &&
+    isNumber(p.timestamp),
+  DATA_READY: p => isObject(p) && isNumber(p.candleCount) && isNumber(p.lastUpdate),
+  DATA_STATUS_UPDATE: p => isObject(p) && isNumber(p.lastUpdateTime),
+  WEBSOCKET_STATUS: p => isObject(p) && typeof p.connected === 'boolean' && typeof p.message === 'string',
+  DATA_ERROR: p => typeof p === 'string' || (isObject(p) && typeof p.message === 'string'),
+  ERROR: p => isObject(p) && typeof p.message === 'string' && typeof p.context === 'string',
+  AGENT_ERROR: p =>
+    isObject(p) &&
+    typeof p.subscriber === 'string' &&
+    typeof p.error === 'string' &&
+    typeof p.timedOut === 'boolean' &&
+    isObject(p.failedMessage) &&
+    typeof p.failedMessage.type === 'string',
+};
+
+/** Every message type in the catalog */
+export const MESSAGE_TYPES = Object.keys(MESSAGE_VALIDATORS) as MessageType[];
+
+export function isMessageType(type: unknown): type is MessageType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(MESSAGE_VALIDATORS, type);
+}
+
+/**
+ * Describe why a message does not match the catalog, or return null if it does
+ */
+export function validateMessage<K extends MessageType>(type: K, payload: AgentMessageMap[K] | unknown): string | null {
+  if (!isMessageType(type)) return `Unknown message type "${String(type)}"`;
+  return MESSAGE_VALIDATORS[type](payload) ? null : `Invalid payload for ${type}`;
+}
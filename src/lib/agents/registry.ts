@@ -0,0 +1,170 @@
+// src/lib/agents/registry.ts
+import { Agent, AgentHealth } from './BaseAgent';
+import { orchestrator, OrchestratorOptions, OrchestratorService } from './Orchestrator';
+import { browserCandleSource, DataCollectorAgent } from './DataCollector';
+import { IndicatorEngineAgent } from './IndicatorEngine';
+import { SignalGeneratorAgent } from './SignalGenerator';
+import { WATCHLIST_SYMBOLS } from './symbols';
+import { uiAdapter, UIAdapterService } from './UIAdapter';
+import { AgentName } from './types';
+import { loadIndicatorSettings } from '@/lib/storage/indicator-settings';
+
+export interface AgentDefinition {
+  name: AgentName;
+  /** Agents that must be started first when they are part of the same registry */
+  dependsOn?: AgentName[];
+  create: (bus: OrchestratorService) => Agent;
+}
+
+export const DATA_COLLECTOR: AgentDefinition = {
+  name: 'DataCollector',
+  create: bus => new DataCollectorAgent(bus),
+};
+
+export const INDICATOR_ENGINE: AgentDefinition = {
+  name: 'IndicatorEngine',
+  dependsOn: ['DataCollector'],
+  create: bus => new IndicatorEngineAgent(bus),
+};
+
+export const SIGNAL_GENERATOR: AgentDefinition = {
+  name: 'SignalGenerator',
+  dependsOn: ['IndicatorEngine'],
+  create: bus => new SignalGeneratorAgent(bus),
+};
+
+/** UI state adapter; on the app-wide bus this is the `uiAdapter` store that useAppState reads */
+export const UI_ADAPTER: AgentDefinition = {
+  name: 'UI',
+  dependsOn: ['SignalGenerator'],
+  create: bus => (bus === orchestrator ? uiAdapter : new UIAdapterService(bus)),
+};
+
+/** Candles in, indicators and signals out: what backtests and replays need */
+export const PIPELINE_AGENTS: AgentDefinition[] = [INDICATOR_ENGINE, SIGNAL_GENERATOR];
+
+/**
+ * Agents the app runs once across all open tabs, in the leader tab (see tab-bridge.ts).
+ * The DataCollector holds the only Binance stream and covers the whole watchlist; hooks such as
+ * useMarketData read its candles from the bus. The IndicatorEngine starts with the user's saved
+ * indicator settings.
+ */
+export const LEADER_AGENTS: AgentDefinition[] = [
+  { ...DATA_COLLECTOR, create: bus => new DataCollectorAgent(bus, browserCandleSource, WATCHLIST_SYMBOLS) },
+  { ...INDICATOR_ENGINE, create: bus => new IndicatorEngineAgent(bus, [], loadIndicatorSettings()) },
+  SIGNAL_GENERATOR,
+];
+
+/** Agents every tab runs, leader or follower */
+export const TAB_AGENTS: AgentDefinition[] = [UI_ADAPTER];
+
+/**
+ * Order definitions so every agent starts after the agents it depends on.
+ * Dependencies outside the list are ignored; cycles and duplicate names throw.
+ */
+export function orderAgents(definitions: AgentDefinition[]): AgentDefinition[] {
+  const byName = new Map<AgentName, AgentDefinition>();
+  definitions.forEach(definition => {
+    if (byName.has(definition.name)) throw new Error(`Duplicate agent "${definition.name}"`);
+    byName.set(definition.name, definition);
+  });
+
+  const ordered: AgentDefinition[] = [];
+  const state = new Map<AgentName, 'visiting' | 'done'>();
+  const visit = (definition: AgentDefinition, path: AgentName[]) => {
+    const current = state.get(definition.name);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      throw new Error(`Agent dependency cycle: ${[...path, definition.name].join(' -> ')}`);
+    }
+    state.set(definition.name, 'visiting');
+    (definition.dependsOn ?? []).forEach(dep => {
+      const dependency = byName.get(dep);
+      if (dependency) visit(dependency, [...path, definition.name]);
+    });
+    state.set(definition.name, 'done');
+    ordered.push(definition);
+  };
+  definitions.forEach(definition => visit(definition, []));
+  return ordered;
+}
+
+/**
+ * Owns a set of agents on one bus and starts/stops them in dependency order
+ */
+export class AgentRegistry {
+  private readonly definitions: AgentDefinition[];
+  private readonly agents = new Map<AgentName, Agent>();
+  private started: Agent[] = [];
+
+  constructor(public readonly bus: OrchestratorService, definitions: AgentDefinition[]) {
+    this.definitions = orderAgents(definitions);
+  }
+
+  /**
+   * Start every agent in dependency order. If one fails to start, the agents already started
+   * are stopped again and the error is rethrown. Calling start() again is a no-op.
+   */
+  public start(): void {
+    if (this.started.length > 0) return;
+    try {
+      this.definitions.forEach(definition => {
+        const agent = this.get(definition.name) ?? definition.create(this.bus);
+        this.agents.set(definition.name, agent);
+        agent.start();
+        this.started.push(agent);
+      });
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop every started agent in reverse dependency order
+   */
+  public stop(): void {
+    [...this.started].reverse().forEach(agent => {
+      try {
+        agent.stop();
+      } catch (error) {
+        console.error(`AgentRegistry: Failed to stop ${agent.name}:`, error);
+      }
+    });
+    this.started = [];
+  }
+
+  public get<T extends Agent = Agent>(name: AgentName): T | undefined {
+    return this.agents.get(name) as T | undefined;
+  }
+
+  public health(): Partial<Record<AgentName, AgentHealth>> {
+    const health: Partial<Record<AgentName, AgentHealth>> = {};
+    this.definitions.forEach(({ name }) => {
+      health[name] = this.agents.get(name)?.health() ?? { status: 'idle', healthy: false, lastActivity: null };
+    });
+    return health;
+  }
+}
+
+export interface AgentGraph {
+  bus: OrchestratorService;
+  registry: AgentRegistry;
+}
+
+/**
+ * Create and start an isolated orchestrator with its own agents (tests, replays, backtests)
+ */
+export function createAgentGraph(
+  definitions: AgentDefinition[] = PIPELINE_AGENTS,
+  options: OrchestratorOptions = {}
+): AgentGraph {
+  const bus = new OrchestratorService(options);
+  const registry = new AgentRegistry(bus, definitions);
+  registry.start();
+  return { bus, registry };
+}
+
+/** Agents on the app-wide orchestrator, started and stopped by AgentInitializer */
+export const leaderAgents = new AgentRegistry(orchestrator, LEADER_AGENTS);
+export const tabAgents = new AgentRegistry(orchestrator, TAB_AGENTS);
@@ -0,0 +1,76 @@
+// src/lib/agents/replay.ts
+import { OrchestratorService } from './Orchestrator';
+import { AgentRegistry, PIPELINE_AGENTS } from './registry';
+import { AgentMessage, AgentName, MessageOf, MessageType } from './types';
+import { JournalEntry } from './journal';
+
+export interface ReplayOptions {
+  /** 1 replays with the recorded spacing, 10 ten times faster, Infinity without waiting */
+  speed?: number;
+  /** Attach fresh agents to the replay bus; defaults to IndicatorEngine + SignalGenerator */
+  createAgents?: (bus: OrchestratorService) => void;
+  /** Senders whose recorded output is regenerated by the fresh agents and so not re-emitted */
+  recreated?: AgentName[];
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ReplaySession {
+  bus: OrchestratorService;
+  /** Every message seen on the replay bus: re-emitted inputs and the fresh agents' output */
+  messages: AgentMessage[];
+  /** Resolves when the last entry has been re-emitted (or the replay was stopped) */
+  done: Promise<void>;
+  stop: () => void;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function createDefaultAgents(bus: OrchestratorService): void {
+  new AgentRegistry(bus, PIPELINE_AGENTS).start();
+}
+
+/**
+ * Re-emit a recorded session into a fresh, isolated bus and agents.
+ *
+ * Recorded inputs keep their original `from`, `payload` and `timestamp`, so the agents see
+ * exactly what they saw live; their own recorded output is skipped and regenerated instead.
+ */
+export function replayJournal(entries: JournalEntry[], options: ReplayOptions = {}): ReplaySession {
+  const {
+    speed = Infinity,
+    createAgents = createDefaultAgents,
+    recreated = ['IndicatorEngine', 'SignalGenerator'],
+    sleep = defaultSleep,
+  } = options;
+
+  const bus = new OrchestratorService();
+  const messages: AgentMessage[] = [];
+  bus.observe(message => messages.push(message));
+  createAgents(bus);
+
+  const inputs = [...entries]
+    .sort((a, b) => a.seq - b.seq)
+    .filter(entry => !recreated.includes(entry.message.from));
+
+  let stopped = false;
+  const run = async () => {
+    let previous = inputs[0]?.recordedAt ?? 0;
+    for (const entry of inputs) {
+      if (stopped) return;
+      const delay = (entry.recordedAt - previous) / speed;
+      previous = entry.recordedAt;
+      if (delay > 0 && Number.isFinite(delay)) await sleep(delay);
+      if (stopped) return;
+      bus.send(entry.message as MessageOf<MessageType>);
+    }
+  };
+
+  return {
+    bus,
+    messages,
+    done: run(),
+    stop: () => {
+      stopped = true;
+    },
+  };
+}
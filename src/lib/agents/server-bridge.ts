@@ -0,0 +1,88 @@
+// src/lib/agents/server-bridge.ts
+import { OrchestratorService } from './Orchestrator';
+import { FORWARDED_TO_LEADER } from './tab-bridge';
+import { AgentMessage, MessageOf, MessageType } from './types';
+
+/**
+ * Browser side of the server runtime (server-runtime.ts): re-emits the messages streamed by
+ * /api/binance-sse on the local bus and POSTs local requests (refresh, initial data, indicator
+ * settings) back to it.
+ * EventSource reconnects on its own and resumes from the last event id it saw.
+ */
+
+export const SERVER_RUNTIME_URL = '/api/binance-sse';
+
+/** The part of EventSource the bridge uses (injectable for tests) */
+export interface ServerEventSource {
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+export interface ServerBridgeOptions {
+  source: ServerEventSource;
+  /** Deliver a request to the server */
+  post: (type: MessageType, payload: unknown) => Promise<void>;
+}
+
+export class ServerBridge {
+  private readonly source: ServerEventSource;
+  private readonly post: (type: MessageType, payload: unknown) => Promise<void>;
+  /** Messages that came from the server, so they are not sent back */
+  private readonly inbound = new WeakSet<AgentMessage>();
+  private readonly unobserve: () => void;
+
+  constructor(private readonly bus: OrchestratorService, { source, post }: ServerBridgeOptions) {
+    this.source = source;
+    this.post = post;
+    this.source.onmessage = event => this.receive(event.data);
+    this.source.onerror = () => console.warn('ServerBridge: Event stream interrupted, reconnecting...');
+    this.unobserve = this.bus.observe(message => this.outbound(message));
+  }
+
+  public close(): void {
+    this.unobserve();
+    this.source.onmessage = null;
+    this.source.onerror = null;
+    this.source.close();
+  }
+
+  private receive(data: unknown): void {
+    let message: AgentMessage;
+    try {
+      message = JSON.parse(String(data)) as AgentMessage;
+    } catch (error) {
+      console.error('ServerBridge: Ignoring malformed event:', error);
+      return;
+    }
+    // The server answers requests itself; re-emitting them here would only send them back
+    if (FORWARDED_TO_LEADER.includes(message.type)) return;
+    this.inbound.add(message);
+    this.bus.send(message as MessageOf<MessageType>);
+  }
+
+  private outbound(message: AgentMessage): void {
+    if (this.inbound.has(message) || !FORWARDED_TO_LEADER.includes(message.type)) return;
+    this.post(message.type, message.payload).catch(error => {
+      console.error(`ServerBridge: Failed to forward ${message.type}:`, error);
+    });
+  }
+}
+
+/**
+ * Bridge over an EventSource to the server runtime, or null where EventSource is unavailable
+ */
+export function createServerBridge(bus: OrchestratorService, url = SERVER_RUNTIME_URL): ServerBridge | null {
+  if (typeof EventSource === 'undefined') return null;
+  return new ServerBridge(bus, {
+    source: new EventSource(url),
+    post: async (type, payload) => {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, payload }),
+      });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+    },
+  });
+}
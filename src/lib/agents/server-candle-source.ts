@@ -0,0 +1,90 @@
+// src/lib/agents/server-candle-source.ts
+import WebSocket from 'ws';
+import { klineToCandle } from '@/lib/binance';
+import { Candle } from '@/lib/types';
+import { CandleSource } from './DataCollector';
+
+const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
+const BINANCE_STREAM_BASE = 'wss://stream.binance.com:9443/ws';
+const RECONNECT_DELAY_MS = 5000;
+
+interface KlineEvent {
+  k?: { t: number; T: number; o: string; h: string; l: string; c: string; v: string; q: string; n: number; V: string; Q: string; x: boolean };
+}
+
+interface SymbolStream {
+  callbacks: Set<(candle: Candle, isClosed: boolean) => void>;
+  socket: WebSocket | null;
+  reconnectTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Candle source for the Node process: REST klines straight from Binance (no proxy route to go
+ * through) and one kline stream per symbol over the `ws` package. A symbol's stream is opened on
+ * its first subscriber, reconnects after drops and closes when its last subscriber leaves.
+ */
+export function createServerCandleSource(streamInterval = '5m'): CandleSource {
+  const streams = new Map<string, SymbolStream>();
+
+  const connect = (symbol: string, stream: SymbolStream) => {
+    const ws = new WebSocket(`${BINANCE_STREAM_BASE}/${symbol.toLowerCase()}@kline_${streamInterval}`);
+    stream.socket = ws;
+    ws.on('open', () => console.log(`ServerCandleSource: Connected to ${symbol} ${streamInterval} stream`));
+    ws.on('message', data => {
+      try {
+        const { k } = JSON.parse(data.toString()) as KlineEvent;
+        if (!k) return;
+        const candle = klineToCandle([k.t, k.o, k.h, k.l, k.c, k.v, k.T, k.q, k.n, k.V, k.Q]);
+        stream.callbacks.forEach(callback => callback(candle, k.x));
+      } catch (error) {
+        console.error(`ServerCandleSource: Error processing ${symbol} message:`, error);
+      }
+    });
+    ws.on('error', error => console.error(`ServerCandleSource: ${symbol} WebSocket error:`, error));
+    ws.on('close', () => {
+      if (stream.socket !== ws) return;
+      stream.socket = null;
+      if (stream.callbacks.size === 0) return;
+      console.log(`ServerCandleSource: ${symbol} stream closed, reconnecting in ${RECONNECT_DELAY_MS}ms`);
+      stream.reconnectTimer = setTimeout(() => {
+        stream.reconnectTimer = null;
+        if (stream.callbacks.size > 0) connect(symbol, stream);
+      }, RECONNECT_DELAY_MS);
+    });
+  };
+
+  const disconnect = (stream: SymbolStream) => {
+    if (stream.reconnectTimer) {
+      clearTimeout(stream.reconnectTimer);
+      stream.reconnectTimer = null;
+    }
+    stream.socket?.close();
+    stream.socket = null;
+  };
+
+  return {
+    async fetchCandles(symbol, interval, limit) {
+      const res = await fetch(`${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`);
+      if (!res.ok) {
+        throw new Error(`Binance ${symbol} klines request failed with status ${res.status}`);
+      }
+      const rows = (await res.json()) as unknown[][];
+      return rows.map(klineToCandle);
+    },
+
+    subscribe(symbol, callback) {
+      let stream = streams.get(symbol);
+      if (!stream) {
+        stream = { callbacks: new Set(), socket: null, reconnectTimer: null };
+        streams.set(symbol, stream);
+      }
+      const current = stream;
+      current.callbacks.add(callback);
+      if (!current.socket && !current.reconnectTimer) connect(symbol, current);
+      return () => {
+        current.callbacks.delete(callback);
+        if (current.callbacks.size === 0) disconnect(current);
+      };
+    },
+  };
+}
@@ -0,0 +1,200 @@
+// src/lib/agents/server-runtime.ts
+import { DataCollectorAgent } from './DataCollector';
+import { JournalStore, MessageJournal } from './journal';
+import { OrchestratorService } from './Orchestrator';
+import { AgentDefinition, AgentRegistry, DATA_COLLECTOR, INDICATOR_ENGINE, SIGNAL_GENERATOR } from './registry';
+import { createServerCandleSource } from './server-candle-source';
+import { symbolOf, WATCHLIST_SYMBOLS } from './symbols';
+import { timeframeOf } from './timeframes';
+import { FORWARDED_TO_LEADER } from './tab-bridge';
+import { validateMessage } from './messages';
+import { AgentMessage, MessageOf, MessageType } from './types';
+
+/**
+ * Runs the data → indicators → signals pipeline inside the Node process, independent of any
+ * browser, and keeps a bounded log of its messages so SSE clients can resume with Last-Event-ID.
+ */
+
+export interface RuntimeEvent {
+  /** `<runtimeId>:<seq>`, so ids from a previous server process are recognised as stale */
+  id: string;
+  message: AgentMessage;
+}
+
+export interface ServerRuntimeOptions {
+  definitions?: AgentDefinition[];
+  /** How many events to keep for Last-Event-ID resume (ticks count once per symbol and timeframe) */
+  historySize?: number;
+  /** Record every message into this store (e.g. FileJournalStore) */
+  journal?: JournalStore;
+  runtimeId?: string;
+}
+
+export const DEFAULT_HISTORY_SIZE = 500;
+
+/**
+ * High-frequency types of which the log keeps only the newest event per symbol and timeframe, so
+ * ticks don't push candles and signals out of the resume window
+ */
+export const COALESCED_HISTORY_TYPES: MessageType[] = ['LIVE_CANDLE_UPDATE_5M', 'INDICATORS_PREVIEW_5M'];
+
+/** Message types browsers may send to the server runtime (see the SSE route's POST handler) */
+export const CLIENT_REQUEST_TYPES: MessageType[] = FORWARDED_TO_LEADER;
+
+export function serverAgents(symbols: string[] = WATCHLIST_SYMBOLS): AgentDefinition[] {
+  const source = createServerCandleSource();
+  return [
+    { ...DATA_COLLECTOR, create: bus => new DataCollectorAgent(bus, source, symbols) },
+    INDICATOR_ENGINE,
+    SIGNAL_GENERATOR,
+  ];
+}
+
+export class ServerAgentRuntime {
+  public readonly bus = new OrchestratorService();
+  public readonly registry: AgentRegistry;
+  public readonly runtimeId: string;
+  private readonly historySize: number;
+  private readonly journal: MessageJournal | null;
+  private events: RuntimeEvent[] = [];
+  private seq = 0;
+  private listeners = new Set<(event: RuntimeEvent) => void>();
+  private unobserve: (() => void) | null = null;
+
+  constructor({
+    definitions = serverAgents(),
+    historySize = DEFAULT_HISTORY_SIZE,
+    journal,
+    runtimeId = Date.now().toString(36),
+  }: ServerRuntimeOptions = {}) {
+    this.registry = new AgentRegistry(this.bus, definitions);
+    this.historySize = historySize;
+    this.runtimeId = runtimeId;
+    this.journal = journal ? new MessageJournal(this.bus, journal) : null;
+  }
+
+  public isRunning(): boolean {
+    return this.unobserve !== null;
+  }
+
+  /**
+   * Start the agents and ask the DataCollector to load history and open the live stream.
+   */
+  public start(): void {
+    if (this.unobserve) return;
+    this.unobserve = this.bus.observe(message => this.record(message));
+    this.journal?.start();
+    this.registry.start();
+    this.bus.send({ from: 'ServerRuntime', type: 'MANUAL_DATA_REFRESH_REQUEST', payload: null, timestamp: Date.now() });
+  }
+
+  public stop(): void {
+    this.registry.stop();
+    this.journal?.stop();
+    this.unobserve?.();
+    this.unobserve = null;
+  }
+
+  /**
+   * Receive every event from now on. Events after `lastEventId` are delivered first; when the id
+   * is missing, from another runtime or already evicted from the log, the latest event of each message
+   * type, symbol and timeframe is delivered instead so the client still starts from the current state.
+   */
+  public subscribe(listener: (event: RuntimeEvent) => void, lastEventId?: string | null): () => void {
+    this.backlog(lastEventId).forEach(listener);
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a client request (e.g. a manual refresh or new indicator settings) onto the runtime's bus.
+   * Settings apply to every client, since they all share this pipeline.
+   */
+  public request(type: MessageType, payload: unknown = null): boolean {
+    if (!CLIENT_REQUEST_TYPES.includes(type) || validateMessage(type, payload) !== null) return false;
+    this.bus.send({ from: 'UI', type, payload, timestamp: Date.now() } as MessageOf<MessageType>);
+    return true;
+  }
+
+  private backlog(lastEventId?: string | null): RuntimeEvent[] {
+    const [runtimeId, seqText] = (lastEventId ?? '').split(':');
+    const seq = Number(seqText);
+    const oldest = this.events.length > 0 ? this.parseSeq(this.events[0].id) : this.seq + 1;
+    if (runtimeId === this.runtimeId && Number.isInteger(seq) && seq >= oldest - 1 && seq <= this.seq) {
+      return this.events.filter(event => this.parseSeq(event.id) > seq);
+    }
+
+    const latest = new Map<string, RuntimeEvent>();
+    this.events.forEach(event => {
+      if (CLIENT_REQUEST_TYPES.includes(event.message.type)) return;
+      const key = this.keyOf(event.message);
+      latest.delete(key);
+      latest.set(key, event);
+    });
+    return Array.from(latest.values());
+  }
+
+  private keyOf(message: AgentMessage): string {
+    return `${message.type}:${symbolOf(message)}:${timeframeOf(message)}`;
+  }
+
+  private parseSeq(id: string): number {
+    return Number(id.slice(id.indexOf(':') + 1));
+  }
+
+  private record(message: AgentMessage): void {
+    const event: RuntimeEvent = { id: `${this.runtimeId}:${++this.seq}`, message };
+    if (COALESCED_HISTORY_TYPES.includes(message.type)) {
+      const key = this.keyOf(message);
+      this.events = this.events.filter(previous => this.keyOf(previous.message) !== key);
+    }
+    this.events.push(event);
+    if (this.events.length > this.historySize) this.events.shift();
+
+    if (message.type === 'NEW_SIGNAL_5M') {
+      const { action, confidence, reason } = message.payload;
+      console.log(`ServerAgentRuntime: ${symbolOf(message)} ${action} signal (${confidence.toFixed(1)}%): ${reason}`);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('ServerAgentRuntime: Error in event listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Format one event as a Server-Sent Events frame
+ */
+export function formatSseEvent({ id, message }: RuntimeEvent): string {
+  return `id: ${id}\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var agentRuntime: ServerAgentRuntime | undefined;
+}
+
+/**
+ * The process-wide runtime, created and started on first use. Kept on globalThis so dev-mode
+ * module reloads reuse it instead of starting a second pipeline.
+ */
+export async function getServerRuntime(): Promise<ServerAgentRuntime> {
+  if (!global.agentRuntime) {
+    let journal: JournalStore | undefined;
+    if (process.env.AGENT_JOURNAL === 'true') {
+      const { FileJournalStore } = await import('./journal-file-store');
+      journal = new FileJournalStore();
+    }
+    if (!global.agentRuntime) {
+      global.agentRuntime = new ServerAgentRuntime({ journal });
+      global.agentRuntime.start();
+    }
+  }
+  return global.agentRuntime;
+}
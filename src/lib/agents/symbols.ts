@@ -0,0 +1,21 @@
+// src/lib/agents/symbols.ts
+
+/** Market assumed for messages that do not name one (hooks and journals from before multi-symbol) */
+export const DEFAULT_SYMBOL = 'BTCUSDT';
+
+/** Markets the dashboard watchlist shows and the pipeline collects */
+export const WATCHLIST_SYMBOLS: string[] = ['BTCUSDT', 'ETHUSDT', 'SOLUSDT'];
+
+/**
+ * The market a bus message is about
+ */
+export function symbolOf(message: { symbol?: string }): string {
+  return message.symbol ?? DEFAULT_SYMBOL;
+}
+
+/**
+ * 'ETHUSDT' -> 'ETH', for labels and notifications
+ */
+export function baseAsset(symbol: string): string {
+  return symbol.replace(/(USDT|USDC|BUSD|USD)$/, '') || symbol;
+}
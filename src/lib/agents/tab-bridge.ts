@@ -0,0 +1,188 @@
+// src/lib/agents/tab-bridge.ts
+import { OrchestratorService } from './Orchestrator';
+import { symbolOf } from './symbols';
+import { timeframeOf } from './timeframes';
+import { AgentMessage, MessageOf, MessageType } from './types';
+
+/**
+ * Cross-tab sharing of the agent pipeline.
+ *
+ * One tab (the leader, elected through the Web Locks API) runs the pipeline agents and
+ * broadcasts everything on its bus over a BroadcastChannel. The other tabs (followers) run
+ * only UI-side agents, re-emit the leader's messages on their own bus and forward their
+ * requests (refresh, initial data, indicator settings) to the leader. When the leader tab closes, the lock
+ * passes to a follower, which starts the pipeline and takes over broadcasting.
+ */
+
+export type TabRole = 'leader' | 'follower';
+
+/** The part of BroadcastChannel the bridge uses (injectable for tests) */
+export interface BridgeChannel {
+  postMessage(data: unknown): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  close(): void;
+}
+
+type BridgeEnvelope =
+  | { kind: 'message'; origin: string; message: AgentMessage }
+  | { kind: 'sync-request'; origin: string }
+  | { kind: 'snapshot'; origin: string; target: string; messages: AgentMessage[] };
+
+/** Follower messages the leader needs to act on; everything else stays local to the follower */
+export const FORWARDED_TO_LEADER: MessageType[] = [
+  'REQUEST_INITIAL_DATA',
+  'MANUAL_DATA_REFRESH_REQUEST',
+  'INDICATOR_SETTINGS_UPDATED',
+];
+
+export const TAB_CHANNEL_NAME = 'bitdash-agent-bus';
+export const LEADER_LOCK_NAME = 'bitdash-agent-leader';
+
+export interface TabBridgeOptions {
+  channel: BridgeChannel;
+  tabId?: string;
+}
+
+export class TabBridge {
+  public readonly tabId: string;
+  private role: TabRole | null = null;
+  private readonly channel: BridgeChannel;
+  /** Messages that arrived over the channel, so they are not echoed back */
+  private readonly inbound = new WeakSet<AgentMessage>();
+  /** Leader only: latest message per type, symbol and timeframe, replayed to tabs that join later */
+  private readonly latest = new Map<string, AgentMessage>();
+  private readonly unobserve: () => void;
+
+  constructor(
+    private readonly bus: OrchestratorService,
+    { channel, tabId = randomTabId() }: TabBridgeOptions
+  ) {
+    this.channel = channel;
+    this.tabId = tabId;
+    this.channel.onmessage = event => this.receive(event.data as BridgeEnvelope);
+    this.unobserve = this.bus.observe(message => this.outbound(message));
+  }
+
+  public getRole(): TabRole | null {
+    return this.role;
+  }
+
+  public setRole(role: TabRole): void {
+    if (role === this.role) return;
+    this.role = role;
+    this.latest.clear();
+    if (role === 'follower') {
+      this.post({ kind: 'sync-request', origin: this.tabId });
+    }
+  }
+
+  public close(): void {
+    this.unobserve();
+    this.channel.onmessage = null;
+    this.channel.close();
+  }
+
+  private outbound(message: AgentMessage): void {
+    if (this.inbound.has(message) || this.role === null) return;
+
+    if (this.role === 'leader') {
+      if (!FORWARDED_TO_LEADER.includes(message.type)) {
+        const key = `${message.type}:${symbolOf(message)}:${timeframeOf(message)}`;
+        this.latest.delete(key);
+        this.latest.set(key, message);
+      }
+      this.post({ kind: 'message', origin: this.tabId, message });
+    } else if (FORWARDED_TO_LEADER.includes(message.type)) {
+      this.post({ kind: 'message', origin: this.tabId, message });
+    }
+  }
+
+  private receive(envelope: BridgeEnvelope): void {
+    if (!envelope || envelope.origin === this.tabId) return;
+
+    switch (envelope.kind) {
+      case 'message':
+        // Leaders only accept requests; followers accept everything the leader sends
+        if (this.role === 'leader' && !FORWARDED_TO_LEADER.includes(envelope.message.type)) return;
+        this.emit(envelope.message);
+        break;
+      case 'sync-request':
+        if (this.role === 'leader') {
+          const messages = Array.from(this.latest.values());
+          this.post({ kind: 'snapshot', origin: this.tabId, target: envelope.origin, messages });
+        }
+        break;
+      case 'snapshot':
+        if (this.role === 'follower' && envelope.target === this.tabId) {
+          envelope.messages.forEach(message => this.emit(message));
+        }
+        break;
+    }
+  }
+
+  private emit(message: AgentMessage): void {
+    this.inbound.add(message);
+    this.bus.send(message as MessageOf<MessageType>);
+  }
+
+  private post(envelope: BridgeEnvelope): void {
+    try {
+      this.channel.postMessage(envelope);
+    } catch (error) {
+      console.error('TabBridge: Failed to post message:', error);
+    }
+  }
+}
+
+/** The part of the Web Locks API used for leader election (injectable for tests) */
+export interface LeaderLocks {
+  request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>): Promise<unknown>;
+}
+
+/**
+ * Wait to become the leader for `lockName`, then call onLeader. Leadership is held until the
+ * returned function is called or the tab closes. Without the Web Locks API every tab leads.
+ */
+export function electLeader(
+  lockName: string,
+  onLeader: () => void,
+  locks: LeaderLocks | undefined = typeof navigator !== 'undefined' ? navigator.locks : undefined
+): () => void {
+  if (!locks) {
+    onLeader();
+    return () => undefined;
+  }
+
+  const abort = new AbortController();
+  let release: () => void = () => undefined;
+  locks
+    .request(lockName, { signal: abort.signal }, () => {
+      onLeader();
+      return new Promise<void>(resolve => {
+        release = resolve;
+      });
+    })
+    .catch(error => {
+      // Aborting a pending request rejects with AbortError; anything else is unexpected
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        console.error('electLeader: Lock request failed:', error);
+      }
+    });
+
+  return () => {
+    abort.abort();
+    release();
+  };
+}
+
+/**
+ * Bridge over a BroadcastChannel, or null where BroadcastChannel is unavailable (SSR, old browsers)
+ */
+export function createTabBridge(bus: OrchestratorService, channelName = TAB_CHANNEL_NAME): TabBridge | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  return new TabBridge(bus, { channel: new BroadcastChannel(channelName) });
+}
+
+function randomTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
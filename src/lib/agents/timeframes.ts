@@ -0,0 +1,15 @@
+// src/lib/agents/timeframes.ts
+import type { Interval, TimeFrame } from '@/lib/types';
+
+/** Timeframe of the _5M messages, which drive indicators and signals */
+export const BASE_TIMEFRAME: TimeFrame = '5m';
+
+/** Timeframes built from base candles and used to confirm base-timeframe signals, lowest first */
+export const HIGHER_TIMEFRAMES: TimeFrame[] = ['15m', '1h'];
+
+/**
+ * The candle timeframe a bus message is about
+ */
+export function timeframeOf(message: { timeframe?: Interval }): Interval {
+  return message.timeframe ?? BASE_TIMEFRAME;
+}
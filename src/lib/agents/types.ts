@@ -1,5 +1,6 @@
 // src/lib/agents/types.ts
-import { Candle } from '@/lib/types';
+import { Candle, Interval } from '@/lib/types';
+import type { IndicatorSetting } from '@/lib/indicators/catalog';
 export type AgentName =
   | 'DataCollector'
   | 'IndicatorEngine'
@@ -9,17 +10,85 @@ export type AgentName =
   | 'BasicCandleDisplay'
   | 'AgentInitializer'
   | 'DataFreshnessIndicator'
-  | 'MarketDataHook'; // Added for useMarketData hook
+  | 'MarketDataHook' // Added for useMarketData hook
+  | 'SimpleCandleChart'
+  | 'useCandleData'
+  | 'ServerRuntime';
 
 export interface AgentMessage<T = any> {
   from: AgentName;
-  type: string; // e.g., 'LIVE_CANDLE_UPDATE_5M', 'INDICATORS_READY_5M', 'MANUAL_DATA_REFRESH_REQUEST', 'MARKET_REGIME_UPDATED'
+  type: MessageType;
   payload: T;
   timestamp: number;
+  /**
+   * Market the message is about (e.g. 'ETHUSDT'); omitted means DEFAULT_SYMBOL (see symbols.ts).
+   * Requests without a symbol apply to every market.
+   */
+  symbol?: string;
+  /** Candle timeframe of the _HTF messages; omitted means BASE_TIMEFRAME (see timeframes.ts) */
+  timeframe?: Interval;
 }
 
 export type MessageHandler<T = any> = (message: AgentMessage<T>) => void;
 
+export type StreamedCandle = Candle & { isClosed?: boolean };
+
+export interface DataStatusPayload {
+  lastUpdateTime: number;
+  lastCandleTime?: number;
+  text?: string;
+  color?: string;
+}
+
+export interface AgentErrorPayload {
+  message: string;
+  error: string;
+  context: string;
+  timestamp: number;
+}
+
+/**
+ * Sent by the orchestrator when a handler throws, rejects or times out
+ */
+export interface HandlerErrorPayload {
+  /** Subscriber name given at register time, 'anonymous' otherwise */
+  subscriber: string;
+  failedMessage: { from: AgentName; type: MessageType; timestamp: number };
+  error: string;
+  timedOut: boolean;
+}
+
+/**
+ * Every message type on the orchestrator bus and the payload it carries
+ */
+export interface AgentMessageMap {
+  REQUEST_INITIAL_DATA: { limit?: number };
+  MANUAL_DATA_REFRESH_REQUEST: null;
+  INITIAL_CANDLES_5M: Candle[];
+  NEW_CLOSED_CANDLE_5M: StreamedCandle;
+  LIVE_CANDLE_UPDATE_5M: StreamedCandle;
+  INDICATORS_READY_5M: IndicatorDataSet;
+  INDICATORS_PREVIEW_5M: IndicatorPreview;
+  INITIAL_CANDLES_HTF: Candle[];
+  NEW_CLOSED_CANDLE_HTF: Candle;
+  INDICATORS_READY_HTF: IndicatorDataSet;
+  INDICATOR_SETTINGS_UPDATED: IndicatorSetting[];
+  MARKET_REGIME_UPDATED: MarketRegime;
+  NEW_SIGNAL_5M: TradingSignal;
+  DATA_READY: { candleCount: number; lastUpdate: number };
+  DATA_STATUS_UPDATE: DataStatusPayload;
+  WEBSOCKET_STATUS: { connected: boolean; message: string; timestamp: number };
+  DATA_ERROR: string | { message: string };
+  ERROR: AgentErrorPayload;
+  AGENT_ERROR: HandlerErrorPayload;
+}
+
+export type MessageType = keyof AgentMessageMap;
+
+export type MessageOf<K extends MessageType> = AgentMessage<AgentMessageMap[K]> & { type: K };
+
+export type TypedMessageHandler<K extends MessageType> = (message: MessageOf<K>) => void;
+
 export interface IndicatorDataSet {
   emaFast: number | null;
   emaSlow: number | null;
@@ -28,10 +97,20 @@ export interface IndicatorDataSet {
   bbMiddle: number | null;
   bbLower: number | null;
   atr: number | null;
+  /** Every configured indicator's outputs, keyed `<id>` or `<id>.<output>` (see indicators/catalog.ts) */
+  values: Record<string, number | null>;
   currentPrice: number;
   timestamp: number;
 }
 
+/**
+ * Indicators calculated as if the forming 5m bar closed at its current price. Superseded by
+ * INDICATORS_READY_5M once the bar closes; never fed to the signal pipeline.
+ */
+export interface IndicatorPreview extends IndicatorDataSet {
+  provisional: true;
+}
+
 export type MarketRegime =
   | 'trending-up'
   | 'trending-down'
@@ -40,6 +119,7 @@ export type MarketRegime =
   | 'undefined';
 
 export interface TradingSignal {
+  symbol?: string;
   action: 'BUY' | 'SELL' | 'HOLD';
   confidence: number;
   reason: string;
@@ -51,12 +131,25 @@ export interface TradingSignal {
   rawIndicators?: IndicatorDataSet;
 }
 
-export interface AppState {
+/**
+ * Pipeline output for one market
+ */
+export interface SymbolState {
   latestSignal: TradingSignal | null;
   signalHistory: TradingSignal[];
   candlesForChart: Candle[];
   latestIndicators: IndicatorDataSet | null;
-  currentPrice: number | null; // Added for the current price display
+  /** Preview for the bar after latestIndicators, cleared when that bar's confirmed values arrive */
+  indicatorPreview: IndicatorPreview | null;
+  currentPrice: number | null;
+}
+
+export interface AppState extends SymbolState {
+  /** Market shown by the dashboard; the SymbolState fields above mirror symbols[selectedSymbol] */
+  selectedSymbol: string;
+  symbols: Record<string, SymbolState>;
   dataStatus: { text: string; color: string; lastUpdateTime: number | null };
   dataError: string | null;
+  /** Most recent handler failures, newest first */
+  agentErrors: HandlerErrorPayload[];
 }
@@ -0,0 +1,75 @@
+import { Candle } from '../types';
+import { OrchestratorService } from '../agents/Orchestrator';
+import { createAgentGraph } from '../agents/registry';
+import { AgentMessage, TradingSignal } from '../agents/types';
+import { runBacktest, BacktestOptions, BacktestResult, SignalSource } from './engine';
+
+export interface AgentReplay {
+  bus: OrchestratorService;
+  signals: TradingSignal[]; // every NEW_SIGNAL_5M emitted during the replay
+  signalSource: SignalSource;
+}
+
+export interface AgentBacktestResult extends BacktestResult {
+  signals: TradingSignal[];
+}
+
+/**
+ * Build an isolated agent pipeline (own orchestrator, indicator engine and signal generator)
+ * and expose it as a backtest signal source.
+ *
+ * Candles[0..warmup-1] are delivered as INITIAL_CANDLES_5M; every later candle is delivered
+ * as NEW_CLOSED_CANDLE_5M the first time the backtest asks for a signal at or after it, so the
+ * agents see every bar in order even while the backtest is in a trade.
+ */
+export function createAgentReplay(candles: Candle[], warmup: number): AgentReplay {
+  const { bus } = createAgentGraph();
+
+  const signals: TradingSignal[] = [];
+  let latest: TradingSignal | null = null;
+  bus.register('NEW_SIGNAL_5M', (msg: AgentMessage<TradingSignal>) => {
+    signals.push(msg.payload);
+    latest = msg.payload;
+  });
+
+  bus.send({
+    from: 'Orchestrator',
+    type: 'INITIAL_CANDLES_5M',
+    payload: candles.slice(0, warmup),
+    timestamp: Date.now(),
+  });
+  let fed = warmup - 1;
+
+  const signalSource: SignalSource = (_candles, index) => {
+    while (fed < index) {
+      fed++;
+      latest = null;
+      bus.send({
+        from: 'Orchestrator',
+        type: 'NEW_CLOSED_CANDLE_5M',
+        payload: { ...candles[fed], isClosed: true },
+        timestamp: Date.now(),
+      });
+    }
+    const signal: TradingSignal | null = latest;
+    if (!signal || signal.action === 'HOLD') return null;
+    return {
+      direction: signal.action === 'BUY' ? 'long' : 'short',
+      confidence: signal.confidence,
+      stopLoss: signal.stopLoss,
+      takeProfit: signal.takeProfit,
+    };
+  };
+
+  return { bus, signals, signalSource };
+}
+
+/**
+ * Backtest the live agent pipeline (IndicatorEngine -> SignalGenerator) over historical candles
+ */
+export function runAgentBacktest(options: Omit<BacktestOptions, 'signalSource'>): AgentBacktestResult {
+  const { candles, startIndex = 50 } = options;
+  const replay = createAgentReplay(candles, startIndex);
+  const result = runBacktest({ ...options, startIndex, signalSource: replay.signalSource });
+  return { ...result, signals: replay.signals };
+}
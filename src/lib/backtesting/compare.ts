@@ -0,0 +1,91 @@
+import { Candle } from '../types';
+import { runBacktest, BacktestOptions, BacktestResult, Trade } from './engine';
+import { tradeReturns } from './statistics';
+import { StrategyId, getStrategy } from './strategies';
+
+export interface StrategyRun {
+  id: StrategyId;
+  label: string;
+  result: BacktestResult;
+  equityByCandle: number[]; // one point per candle in [startIndex, endIndex]
+}
+
+export interface StrategyComparison {
+  times: number[]; // candle open times shared by every curve
+  runs: StrategyRun[];
+  benchmark: number[]; // buy-and-hold equity per candle
+  benchmarkReturn: number; // percentage
+}
+
+export interface ComparisonOptions extends Omit<BacktestOptions, 'signalSource'> {
+  strategies: StrategyId[];
+}
+
+/**
+ * Equity of buying at the first candle's close and holding to each later close
+ */
+export function buyAndHoldEquity(candles: Candle[], startIndex: number, endIndex: number, initialBalance: number): number[] {
+  const entry = candles[startIndex]?.close;
+  if (!entry) return [];
+  return candles.slice(startIndex, endIndex + 1).map(c => initialBalance * (c.close / entry));
+}
+
+/**
+ * Realized equity at every candle, stepping when a trade closes, so curves from different
+ * strategies share one time axis
+ */
+export function equityByCandle(
+  trades: Trade[],
+  candles: Candle[],
+  startIndex: number,
+  endIndex: number,
+  initialBalance: number
+): number[] {
+  const returns = tradeReturns(trades, initialBalance);
+  const equity: number[] = [];
+  let balance = initialBalance;
+  let next = 0;
+  for (let i = startIndex; i <= endIndex; i++) {
+    while (next < returns.length && returns[next].time <= candles[i].time) {
+      balance *= 1 + returns[next].return;
+      next++;
+    }
+    equity.push(balance);
+  }
+  return equity;
+}
+
+/**
+ * Backtest several strategies over the same candles and settings, plus a buy-and-hold benchmark
+ */
+export function runStrategyComparison(options: ComparisonOptions): StrategyComparison {
+  const { strategies, ...backtest } = options;
+  const { candles, initialBalance = 1000, startIndex = 50 } = backtest;
+  const endIndex = backtest.endIndex ?? candles.length - 1;
+
+  const runs = strategies.map(id => {
+    const strategy = getStrategy(id);
+    const result = runBacktest({
+      ...strategy.defaults,
+      ...backtest,
+      initialBalance,
+      startIndex,
+      endIndex,
+      signalSource: strategy.createSource(candles, startIndex),
+    });
+    return {
+      id,
+      label: strategy.label,
+      result,
+      equityByCandle: equityByCandle(result.trades, candles, startIndex, endIndex, initialBalance),
+    };
+  });
+
+  const benchmark = buyAndHoldEquity(candles, startIndex, endIndex, initialBalance);
+  return {
+    times: candles.slice(startIndex, endIndex + 1).map(c => c.time),
+    runs,
+    benchmark,
+    benchmarkReturn: benchmark.length ? (benchmark[benchmark.length - 1] / initialBalance - 1) * 100 : 0,
+  };
+}
@@ -0,0 +1,85 @@
+import { Candle } from '../types';
+import { atrSeries } from '../indicators/volatility';
+import { toMs } from './time';
+
+export type SlippageModel =
+  | { type: 'fixed'; bps: number }
+  | { type: 'atr'; multiplier: number; period?: number };
+
+export interface CostModel {
+  makerFeeBps?: number; // applied to limit (take-profit) exits
+  takerFeeBps?: number; // applied to market entries and stop exits
+  slippage?: SlippageModel; // applied to taker fills only
+  fundingRatePer8h?: number; // in decimal, positive = longs pay shorts
+}
+
+export interface TradeCosts {
+  fees: number; // in decimal of entry notional
+  slippage: number;
+  funding: number;
+}
+
+export type FillType = 'maker' | 'taker';
+
+const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Precompute whatever the slippage model needs for a candle series
+ * (currently the ATR series for ATR-scaled slippage)
+ */
+export function prepareSlippage(candles: Candle[], model?: SlippageModel): number[] | null {
+  if (!model || model.type !== 'atr') return null;
+  return atrSeries(candles, model.period ?? 14);
+}
+
+/**
+ * Adjust an ideal fill price against the trader
+ * @param side 'buy' fills slip up, 'sell' fills slip down
+ */
+export function applySlippage(
+  price: number,
+  side: 'buy' | 'sell',
+  model: SlippageModel | undefined,
+  atrSeries: number[] | null,
+  index: number
+): number {
+  if (!model) return price;
+  // No slippage while the ATR is still warming up (NaN)
+  const atr = atrSeries?.[index] ?? NaN;
+  const offset = model.type === 'fixed'
+    ? price * (model.bps / 10000)
+    : (isNaN(atr) ? 0 : atr) * model.multiplier;
+  return side === 'buy' ? price + offset : price - offset;
+}
+
+/**
+ * Fee rate in decimal for a fill
+ */
+export function feeRate(costs: CostModel | undefined, fill: FillType): number {
+  const bps = fill === 'maker' ? costs?.makerFeeBps : costs?.takerFeeBps;
+  return (bps ?? 0) / 10000;
+}
+
+/**
+ * Number of 8h funding timestamps (00:00, 08:00, 16:00 UTC) crossed while holding
+ */
+export function fundingPeriods(entryTime: number, exitTime: number): number {
+  const start = Math.floor(toMs(entryTime) / FUNDING_INTERVAL_MS);
+  const end = Math.floor(toMs(exitTime) / FUNDING_INTERVAL_MS);
+  return Math.max(0, end - start);
+}
+
+/**
+ * Funding paid (positive) or received (negative) in decimal of notional
+ */
+export function fundingCost(
+  costs: CostModel | undefined,
+  direction: 'long' | 'short',
+  entryTime: number,
+  exitTime: number
+): number {
+  const rate = costs?.fundingRatePer8h ?? 0;
+  if (rate === 0) return 0;
+  const periods = fundingPeriods(entryTime, exitTime);
+  return (direction === 'long' ? rate : -rate) * periods;
+}
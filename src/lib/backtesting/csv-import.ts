@@ -0,0 +1,167 @@
+import type { Candle } from '../types';
+import { toMs } from './time';
+
+export type CsvFormat = 'binance' | 'ohlcv';
+
+/**
+ * Header names (or zero-based column indices) of a generic OHLCV CSV
+ */
+export interface ColumnMapping {
+  time: string | number;
+  open: string | number;
+  high: string | number;
+  low: string | number;
+  close: string | number;
+  volume: string | number;
+}
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  time: 'time',
+  open: 'open',
+  high: 'high',
+  low: 'low',
+  close: 'close',
+  volume: 'volume',
+};
+
+export interface CandleIssue {
+  index: number; // position in the parsed candle array
+  message: string;
+}
+
+export interface CsvImportResult {
+  candles: Candle[];
+  issues: CandleIssue[]; // empty when the series is safe to backtest
+}
+
+export interface CsvImportOptions {
+  format: CsvFormat;
+  mapping?: ColumnMapping; // generic format only
+  delimiter?: string;
+}
+
+function splitRows(text: string, delimiter: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1')));
+}
+
+function isNumeric(value: string | undefined): boolean {
+  return value !== undefined && value !== '' && Number.isFinite(Number(value));
+}
+
+// Binance dumps switched from milliseconds to microseconds in 2025; synthetic data uses seconds
+function parseTimestamp(value: string): number {
+  if (isNumeric(value)) {
+    const n = Number(value);
+    return n >= 1e14 ? Math.floor(n / 1000) : toMs(n);
+  }
+  return new Date(value).getTime();
+}
+
+/**
+ * Parse a Binance kline CSV (data.binance.vision layout, with or without a header row)
+ */
+export function parseBinanceKlineCsv(text: string, delimiter = ','): Candle[] {
+  const rows = splitRows(text, delimiter);
+  const body = rows.length > 0 && !isNumeric(rows[0][0]) ? rows.slice(1) : rows;
+  return body.map((row, i) => {
+    if (row.length < 11) {
+      throw new Error(`Invalid Binance kline row ${i + 1}: expected at least 11 columns, got ${row.length}`);
+    }
+    return {
+      time: parseTimestamp(row[0]),
+      open: Number(row[1]),
+      high: Number(row[2]),
+      low: Number(row[3]),
+      close: Number(row[4]),
+      volume: Number(row[5]),
+      closeTime: parseTimestamp(row[6]),
+      quoteAssetVolume: Number(row[7]),
+      trades: Number(row[8]),
+      takerBuyBaseAssetVolume: Number(row[9]),
+      takerBuyQuoteAssetVolume: Number(row[10]),
+    };
+  });
+}
+
+/**
+ * Parse a generic OHLCV CSV with a header row. Fields Binance provides but the file lacks
+ * are derived: closeTime from the bar spacing, volume-based fields as zero.
+ */
+export function parseOhlcvCsv(text: string, mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING, delimiter = ','): Candle[] {
+  const [header, ...body] = splitRows(text, delimiter);
+  if (!header) return [];
+  const normalized = header.map(h => h.toLowerCase());
+  const columnOf = (key: keyof ColumnMapping): number => {
+    const column = mapping[key];
+    const index = typeof column === 'number' ? column : normalized.indexOf(column.toLowerCase());
+    if (index < 0 || index >= header.length) {
+      throw new Error(`Column for "${key}" not found in CSV header: ${String(column)}`);
+    }
+    return index;
+  };
+  const columns = {
+    time: columnOf('time'),
+    open: columnOf('open'),
+    high: columnOf('high'),
+    low: columnOf('low'),
+    close: columnOf('close'),
+    volume: columnOf('volume'),
+  };
+
+  const parsed = body.map(row => ({
+    time: parseTimestamp(row[columns.time]),
+    open: Number(row[columns.open]),
+    high: Number(row[columns.high]),
+    low: Number(row[columns.low]),
+    close: Number(row[columns.close]),
+    volume: Number(row[columns.volume]),
+  }));
+  const interval = parsed.length > 1 ? parsed[1].time - parsed[0].time : 0;
+  return parsed.map(c => ({
+    ...c,
+    closeTime: c.time + Math.max(interval, 1) - 1,
+    quoteAssetVolume: c.volume * c.close,
+    trades: 0,
+    takerBuyBaseAssetVolume: 0,
+    takerBuyQuoteAssetVolume: 0,
+  }));
+}
+
+/**
+ * Check that a candle series is usable for backtesting: finite values, strictly increasing
+ * timestamps and OHLC values consistent with the high/low range
+ */
+export function validateCandles(candles: Candle[]): CandleIssue[] {
+  const issues: CandleIssue[] = [];
+  candles.forEach((c, index) => {
+    const values = [c.time, c.open, c.high, c.low, c.close, c.volume];
+    if (values.some(v => !Number.isFinite(v))) {
+      issues.push({ index, message: 'non-numeric or missing value' });
+      return;
+    }
+    if (index > 0 && c.time <= candles[index - 1].time) {
+      issues.push({ index, message: `timestamp ${c.time} is not after the previous candle (${candles[index - 1].time})` });
+    }
+    if (c.high < Math.max(c.open, c.close, c.low) || c.low > Math.min(c.open, c.close)) {
+      issues.push({ index, message: 'open/close outside the high-low range' });
+    }
+    if (c.low <= 0 || c.volume < 0) {
+      issues.push({ index, message: 'non-positive price or negative volume' });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Parse and validate a candle CSV export
+ */
+export function importCandlesCsv(text: string, { format, mapping, delimiter = ',' }: CsvImportOptions): CsvImportResult {
+  const candles = format === 'binance'
+    ? parseBinanceKlineCsv(text, delimiter)
+    : parseOhlcvCsv(text, mapping, delimiter);
+  return { candles, issues: validateCandles(candles) };
+}
@@ -4,43 +4,147 @@ export interface Trade {
   entryPrice: number;
   exitPrice: number;
   direction: 'long' | 'short';
-  profit: number; // in decimal, e.g. 0.01 = 1%
+  profit: number; // in decimal, e.g. 0.01 = 1%, net of costs
+  grossProfit?: number; // in decimal, before fees, slippage and funding
+  costs?: TradeCosts;
+  positionId?: number; // trades closed from the same position share an id
+  quantity?: number; // units closed by this record
+  pnl?: number; // in account currency
+  exitReason?: 'stop' | 'target' | 'partial';
+  risk?: number; // initial stop distance in decimal of entry price, used for R-multiples
 }
 
 export interface Metrics {
-  totalTrades: number;
+  totalTrades: number; // positions, so partial take-profits don't count as extra trades
   winRate: number;
   profitFactor: number;
   maxDrawdown: number; // percentage
   netProfit: number;
+  sharpeRatio: number; // annualized from daily returns
+  sortinoRatio: number; // annualized from daily returns
+  calmarRatio: number; // annualized return / max drawdown
+  expectancyR: number; // average profit in multiples of initial risk
+  avgHoldingTime: number; // milliseconds
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  timeUnderWater: number; // percentage of equity points below the running peak
+  exposurePct: number; // percentage of time with an open position
+  dailyReturns: PeriodReturn[];
+  monthlyReturns: PeriodReturn[];
 }
 
 export interface BacktestResult {
   trades: Trade[];
   equity: number[];
   metrics: Metrics;
+  ambiguousBars: number; // bars where both stop and take-profit were touched
+  ambiguousBarTimes: number[]; // open times of those bars, e.g. to fetch their 1m candles
+  subCandleFallbacks: number; // ambiguous bars fillPolicy 'subcandles' resolved pessimistically for lack of 1m candles
+  skippedEntries: number; // signals not taken because the position size was below minQuantity
+  exposure: ExposurePoint[]; // one point per simulated candle
+}
+
+export interface ExposurePoint {
+  time: number;
+  openPositions: number;
+  notional: number; // open quantity marked at the candle close
+  exposurePct: number; // notional as a percentage of realized balance
 }
 
 import { Candle } from '../types';
 import { generateSignals, getTopSignal } from '../signals/generator';
+import { CostModel, TradeCosts, applySlippage, feeRate, fundingCost, prepareSlippage } from './costs';
+import { FillPolicy, resolveIntrabarExit, subCandleExit } from './intrabar';
+import { PositionSizer, PositionSizeParams } from '../signals/position-sizer';
+import {
+  PeriodReturn,
+  annualizedReturn,
+  averageHoldingTime,
+  consecutiveStreaks,
+  dailyReturnSeries,
+  expectancyR,
+  exposurePercentage,
+  periodReturns,
+  positionTrades,
+  sharpeRatio,
+  sortinoRatio,
+  timeUnderWater,
+} from './statistics';
+
+export interface BacktestParams {
+  stopLossPct: number; // in decimal, e.g. 0.008 = 0.8%
+  takeProfitPct: number;
+  minConfidence: number; // 0-100
+  cooldownCandles: number;
+}
+
+export const DEFAULT_BACKTEST_PARAMS: BacktestParams = {
+  stopLossPct: 0.008,
+  takeProfitPct: 0.02,
+  minConfidence: 60,
+  cooldownCandles: 3,
+};
 
-export interface BacktestOptions {
+export interface EntrySignal {
+  direction: 'long' | 'short';
+  confidence: number; // 0-100
+  stopLoss?: number; // absolute price; falls back to stopLossPct
+  takeProfit?: number; // absolute price; falls back to takeProfitPct
+}
+
+/**
+ * Supplies the entry decision for the candle at `index` (only candles[0..index] may be used)
+ */
+export type SignalSource = (candles: Candle[], index: number) => EntrySignal | null;
+
+/**
+ * Default signal source: the legacy generateSignals/getTopSignal path
+ */
+export const legacySignalSource: SignalSource = (candles, index) => {
+  const top = getTopSignal(generateSignals(candles.slice(0, index + 1)));
+  if (!top || top.direction === 'neutral') return null;
+  return { direction: top.direction === 'buy' ? 'long' : 'short', confidence: top.confidence };
+};
+
+export interface PartialTakeProfit {
+  rMultiple: number; // distance from entry in multiples of the initial stop distance
+  fraction: number; // fraction of the original quantity to close, e.g. 0.5
+}
+
+export interface BacktestOptions extends Partial<BacktestParams> {
   candles: Candle[];
   initialBalance?: number;
   startIndex?: number;
   endIndex?: number;
   preset?: 'default' | 'aggressive';
+  costs?: CostModel;
+  fillPolicy?: FillPolicy;
+  subCandles?: Candle[]; // 1m candles sorted by time, required for fillPolicy 'subcandles'
+  signalSource?: SignalSource;
+  sizing?: 'full' | 'risk'; // 'full' splits the balance across maxPositions, 'risk' risks PositionSizer's amount at the stop
+  sizingRegime?: PositionSizeParams['regime'];
+  minQuantity?: number; // smallest tradable size in units; smaller entries are skipped and counted
+  maxPositions?: number;
+  pyramiding?: boolean; // allow additional positions in the direction of an open one
+  partialTakeProfits?: PartialTakeProfit[];
 }
 
 /**
- * Compute metrics from a list of trades and equity curve
+ * Compute metrics from a list of trades and equity curve. Trade counts, win rate, profit factor,
+ * streaks, expectancy and holding time are per position: chunks sharing a positionId count once.
+ * @param exposure optional per-candle exposure series; without it exposure is derived from trade durations
  */
-export function computeMetrics(trades: Trade[], equity: number[], initialBalance: number): Metrics {
-  const wins = trades.filter(t => t.profit > 0).length;
-  const losses = trades.filter(t => t.profit <= 0).length;
+export function computeMetrics(
+  trades: Trade[],
+  equity: number[],
+  initialBalance: number,
+  exposure?: ExposurePoint[]
+): Metrics {
+  const positions = positionTrades(trades);
+  const wins = positions.filter(t => t.profit > 0).length;
   let grossProfit = 0;
   let grossLoss = 0;
-  for (const t of trades) {
+  for (const t of positions) {
     if (t.profit > 0) grossProfit += t.profit;
     else grossLoss += Math.abs(t.profit);
   }
@@ -55,63 +159,244 @@ export function computeMetrics(trades: Trade[], equity: number[], initialBalance
   }
   const finalBalance = equity[equity.length - 1] || initialBalance;
   const netProfit = finalBalance - initialBalance;
+  const daily = dailyReturnSeries(trades, initialBalance);
+  const cagr = annualizedReturn(trades, initialBalance, finalBalance);
+  const streaks = consecutiveStreaks(positions);
 
   return {
-    totalTrades: trades.length,
-    winRate: trades.length ? (wins / trades.length) * 100 : 0,
+    totalTrades: positions.length,
+    winRate: positions.length ? (wins / positions.length) * 100 : 0,
     profitFactor: grossLoss === 0 ? Infinity : grossProfit / grossLoss,
     maxDrawdown,
     netProfit,
+    sharpeRatio: sharpeRatio(daily),
+    sortinoRatio: sortinoRatio(daily),
+    calmarRatio: maxDrawdown === 0 ? 0 : cagr / maxDrawdown,
+    expectancyR: expectancyR(positions),
+    avgHoldingTime: averageHoldingTime(positions),
+    maxConsecutiveWins: streaks.wins,
+    maxConsecutiveLosses: streaks.losses,
+    timeUnderWater: timeUnderWater(equity),
+    exposurePct: exposurePercentage(trades, exposure),
+    dailyReturns: periodReturns(trades, initialBalance, 'day'),
+    monthlyReturns: periodReturns(trades, initialBalance, 'month'),
   };
 }
 
+interface OpenPosition {
+  id: number;
+  direction: 'long' | 'short';
+  entryPrice: number; // signal price, used for stop/limit levels
+  entryFill: number; // price actually paid after slippage
+  entryIndex: number;
+  initialStop: number;
+  stop: number;
+  limit: number;
+  quantity: number; // units still open
+  originalQuantity: number;
+  partialsTaken: number;
+}
+
 /**
  * Run a simple backtest using existing signal logic
  */
-export function runBacktest({ candles, initialBalance = 1000, startIndex = 50, endIndex = candles.length - 1, preset = 'default' }: BacktestOptions): BacktestResult {
+export function runBacktest({
+  candles,
+  initialBalance = 1000,
+  startIndex = 50,
+  endIndex = candles.length - 1,
+  preset = 'default',
+  stopLossPct = DEFAULT_BACKTEST_PARAMS.stopLossPct,
+  takeProfitPct = DEFAULT_BACKTEST_PARAMS.takeProfitPct,
+  minConfidence = DEFAULT_BACKTEST_PARAMS.minConfidence,
+  cooldownCandles = DEFAULT_BACKTEST_PARAMS.cooldownCandles,
+  costs,
+  fillPolicy = 'pessimistic',
+  subCandles = [],
+  signalSource = legacySignalSource,
+  sizing = 'full',
+  sizingRegime = 'ranging',
+  minQuantity = 0,
+  maxPositions = 1,
+  pyramiding = false,
+  partialTakeProfits = [],
+}: BacktestOptions): BacktestResult {
   const trades: Trade[] = [];
   const equity: number[] = [initialBalance];
+  const exposure: ExposurePoint[] = [];
   let balance = initialBalance;
-  let openTrade: { direction: 'long' | 'short'; entryPrice: number; entryIndex: number; stop: number; limit: number } | null = null;
+  let positions: OpenPosition[] = [];
+  let nextPositionId = 1;
   let cooldown = 0;
+  let ambiguousBars = 0;
+  const ambiguousBarTimes: number[] = [];
+  let subCandleFallbacks = 0;
+  let skippedEntries = 0;
+  const atrSeries = prepareSlippage(candles, costs?.slippage);
+  const partials = [...partialTakeProfits].sort((a, b) => a.rMultiple - b.rMultiple);
+
+  const partialPrice = (pos: OpenPosition): number | null => {
+    const partial = partials[pos.partialsTaken];
+    if (!partial) return null;
+    const distance = Math.abs(pos.entryPrice - pos.initialStop) * partial.rMultiple;
+    return pos.direction === 'long' ? pos.entryPrice + distance : pos.entryPrice - distance;
+  };
+
+  const reached = (pos: OpenPosition, candle: Candle, price: number, kind: 'stop' | 'target'): boolean => {
+    const below = candle.low <= price;
+    const above = candle.high >= price;
+    if (kind === 'stop') return pos.direction === 'long' ? below : above;
+    return pos.direction === 'long' ? above : below;
+  };
+
+  const closeChunk = (pos: OpenPosition, quantity: number, idealExit: number, reason: 'stop' | 'target' | 'partial', i: number) => {
+    const current = candles[i];
+    const stopped = reason === 'stop';
+    // Stops fill as market orders (taker, slipped); take-profits rest as limit orders (maker)
+    const exitPrice = stopped
+      ? applySlippage(idealExit, pos.direction === 'long' ? 'sell' : 'buy', costs?.slippage, atrSeries, i)
+      : idealExit;
+    const sign = pos.direction === 'long' ? 1 : -1;
+    const grossProfit = sign * (idealExit - pos.entryPrice) / pos.entryPrice;
+    const filledProfit = sign * (exitPrice - pos.entryFill) / pos.entryFill;
+    const tradeCosts: TradeCosts = {
+      fees: feeRate(costs, 'taker') + feeRate(costs, stopped ? 'taker' : 'maker') * (exitPrice / pos.entryFill),
+      slippage: grossProfit - filledProfit,
+      funding: fundingCost(costs, pos.direction, candles[pos.entryIndex].time, current.time),
+    };
+    const profit = filledProfit - tradeCosts.fees - tradeCosts.funding;
+    const pnl = profit * quantity * pos.entryFill;
+    balance += pnl;
+    pos.quantity -= quantity;
+    trades.push({
+      entryTime: candles[pos.entryIndex].time,
+      exitTime: current.time,
+      entryPrice: pos.entryFill,
+      exitPrice,
+      direction: pos.direction,
+      profit,
+      grossProfit,
+      costs: tradeCosts,
+      positionId: pos.id,
+      quantity,
+      pnl,
+      exitReason: reason,
+      risk: Math.abs(pos.entryPrice - pos.initialStop) / pos.entryPrice,
+    });
+    equity.push(balance);
+  };
 
   for (let i = startIndex; i <= endIndex; i++) {
-    const slice = candles.slice(0, i + 1);
     const current = candles[i];
-    if (openTrade) {
-      const { direction, entryPrice, stop, limit, entryIndex } = openTrade;
-      const reachedStop = direction === 'long' ? current.low <= stop : current.high >= stop;
-      const reachedLimit = direction === 'long' ? current.high >= limit : current.low <= limit;
-      if (reachedStop || reachedLimit) {
-        const exitPrice = reachedStop ? stop : limit;
-        const profit = direction === 'long' ? (exitPrice - entryPrice) / entryPrice : (entryPrice - exitPrice) / entryPrice;
-        balance *= 1 + profit;
-        trades.push({ entryTime: candles[entryIndex].time, exitTime: current.time, entryPrice, exitPrice, direction, profit });
-        equity.push(balance);
-        openTrade = null;
-        cooldown = 3; // wait 3 candles before next trade
-        continue;
+    let closedThisBar = false;
+
+    for (const pos of positions) {
+      const reachedStop = reached(pos, current, pos.stop, 'stop');
+      const reachedLimit = reached(pos, current, pos.limit, 'target');
+      const nextPartial = partialPrice(pos);
+      const reachedPartial = nextPartial !== null && reached(pos, current, nextPartial, 'target');
+
+      let first: 'stop' | 'limit' | null = reachedStop ? 'stop' : reachedLimit || reachedPartial ? 'limit' : null;
+      if (reachedStop && (reachedLimit || reachedPartial)) {
+        ambiguousBars++;
+        if (ambiguousBarTimes[ambiguousBarTimes.length - 1] !== current.time) ambiguousBarTimes.push(current.time);
+        const target = reachedPartial && nextPartial !== null ? nextPartial : pos.limit;
+        if (fillPolicy === 'subcandles') {
+          const resolved = subCandleExit(current, pos.direction, pos.stop, target, subCandles);
+          if (resolved === null) subCandleFallbacks++;
+          first = resolved ?? 'stop';
+        } else {
+          first = resolveIntrabarExit(current, pos.direction, pos.stop, target, fillPolicy);
+        }
+      }
+
+      if (first === 'stop') {
+        closeChunk(pos, pos.quantity, pos.stop, 'stop', i);
+      } else if (first === 'limit') {
+        let level = partialPrice(pos);
+        // Partials only apply to levels between entry and the final target
+        while (level !== null && pos.quantity > 0 && reached(pos, current, level, 'target') && (pos.direction === 'long' ? level < pos.limit : level > pos.limit)) {
+          const quantity = Math.min(pos.quantity, pos.originalQuantity * partials[pos.partialsTaken].fraction);
+          closeChunk(pos, quantity, level, 'partial', i);
+          pos.partialsTaken++;
+          level = partialPrice(pos);
+        }
+        if (reachedLimit && pos.quantity > 0) {
+          closeChunk(pos, pos.quantity, pos.limit, 'target', i);
+        }
+        // The partials filled before the stop, which then takes what is left in the same bar
+        if (reachedStop && pos.quantity > 0) {
+          closeChunk(pos, pos.quantity, pos.stop, 'stop', i);
+        }
+      }
+
+      if (first !== null) {
+        closedThisBar = true;
+        cooldown = cooldownCandles; // wait before next trade
       }
       // move stop to breakeven after 6 candles
-      if (i - entryIndex >= 6) {
-        openTrade.stop = entryPrice;
+      if (pos.quantity > 0 && i - pos.entryIndex >= 6) {
+        pos.stop = pos.entryPrice;
       }
-    } else if (cooldown === 0) {
-      const signals = generateSignals(slice);
-      const top = getTopSignal(signals);
-      if (top && top.confidence >= 60 && top.direction !== 'neutral') {
-        const direction = top.direction === 'buy' ? 'long' : 'short';
+    }
+    positions = positions.filter(p => p.quantity > 1e-12);
+
+    if (!closedThisBar && cooldown === 0 && positions.length < maxPositions) {
+      const signal = signalSource(candles, i);
+      const blocked = signal && positions.some(p => p.direction === signal.direction) && !pyramiding;
+      if (signal && signal.confidence >= minConfidence && !blocked) {
+        const { direction } = signal;
         const entryPrice = current.close;
-        const stop = direction === 'long' ? entryPrice * (1 - 0.008) : entryPrice * (1 + 0.008);
-        const limit = direction === 'long' ? entryPrice * (1 + 0.02) : entryPrice * (1 - 0.02);
-        openTrade = { direction, entryPrice, entryIndex: i, stop, limit };
+        const stop = signal.stopLoss ?? (direction === 'long' ? entryPrice * (1 - stopLossPct) : entryPrice * (1 + stopLossPct));
+        const limit = signal.takeProfit ?? (direction === 'long' ? entryPrice * (1 + takeProfitPct) : entryPrice * (1 - takeProfitPct));
+        const entryFill = applySlippage(entryPrice, direction === 'long' ? 'buy' : 'sell', costs?.slippage, atrSeries, i);
+
+        let quantity = balance / maxPositions / entryFill;
+        if (sizing === 'risk') {
+          // PositionSizer decides how much to risk; the distance from the fill to this trade's stop sets the size
+          const { riskAmount } = PositionSizer.calculatePositionSize(candles.slice(0, i + 1), {
+            accountBalance: balance,
+            currentPrice: entryPrice,
+            direction: direction === 'long' ? 'BUY' : 'SELL',
+            regime: sizingRegime,
+            confidenceScore: signal.confidence,
+          });
+          const riskPerUnit = Math.abs(entryFill - stop);
+          quantity = Math.min(quantity, riskPerUnit > 0 ? riskAmount / riskPerUnit : 0);
+        }
+
+        if (quantity <= 0 || quantity < minQuantity) {
+          skippedEntries++;
+        } else {
+          positions.push({
+            id: nextPositionId++,
+            direction,
+            entryPrice,
+            entryFill,
+            entryIndex: i,
+            initialStop: stop,
+            stop,
+            limit,
+            quantity,
+            originalQuantity: quantity,
+            partialsTaken: 0,
+          });
+        }
       }
     }
 
-    if (cooldown > 0 && !openTrade) cooldown--;
-    if (!openTrade) equity.push(balance);
+    if (cooldown > 0 && !closedThisBar) cooldown--;
+    if (!closedThisBar && positions.length === 0) equity.push(balance);
+
+    const notional = positions.reduce((sum, p) => sum + p.quantity * current.close, 0);
+    exposure.push({
+      time: current.time,
+      openPositions: positions.length,
+      notional,
+      exposurePct: balance > 0 ? (notional / balance) * 100 : 0,
+    });
   }
 
-  const metrics = computeMetrics(trades, equity, initialBalance);
-  return { trades, equity, metrics };
+  const metrics = computeMetrics(trades, equity, initialBalance, exposure);
+  return { trades, equity, metrics, ambiguousBars, ambiguousBarTimes, subCandleFallbacks, skippedEntries, exposure };
 }
@@ -0,0 +1,40 @@
+import type { Candle, Interval, TimeFrame } from '../types';
+import type { CandleGap } from '../candle-archive';
+import { aggregateCandles, bucketStart, canAggregate } from '../candle-aggregator';
+
+export interface CandleHistory {
+  timeframe: Interval;
+  candles: Candle[];
+  gaps: CandleGap[];
+}
+
+/** Timeframes the archive stores, longest first */
+const ARCHIVED_TIMEFRAMES: TimeFrame[] = ['1h', '15m', '5m', '1m'];
+
+/**
+ * Load a date range of candles from the server-side archive (/api/candles/history),
+ * which backfills anything it has not stored yet. Other intervals (3m, 30m, 4h, 1d, ...) are
+ * built from the longest archived timeframe that divides them; an unfinished last bar is dropped.
+ */
+export async function fetchCandleHistory(interval: Interval, from: number, to: number): Promise<CandleHistory> {
+  const source = ARCHIVED_TIMEFRAMES.find(timeFrame => canAggregate(timeFrame, interval));
+  if (!source) {
+    throw new Error(`Cannot build ${interval} candles from archived timeframes`);
+  }
+  // Start at a bar boundary so the first aggregated bar is complete
+  const start = source === interval ? from : bucketStart(from, interval);
+
+  const res = await fetch(`/api/candles/history?timeframe=${source}&from=${start}&to=${to}`);
+  const body = await res.json();
+  if (!res.ok) {
+    throw new Error(body?.error ?? `fetch_failed: Status ${res.status}.`);
+  }
+  if (source === interval) {
+    return { timeframe: body.timeframe, candles: body.candles, gaps: body.gaps };
+  }
+  return {
+    timeframe: interval,
+    candles: aggregateCandles(body.candles, interval, { sourceInterval: source, closedOnly: true }),
+    gaps: body.gaps,
+  };
+}
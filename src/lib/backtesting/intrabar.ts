@@ -0,0 +1,105 @@
+import { Candle } from '../types';
+import { klineToCandle } from '../binance';
+import { toMs } from './time';
+
+/**
+ * How to resolve a bar where both the stop and the take-profit were touched:
+ * - pessimistic: assume the stop filled first
+ * - optimistic: assume the take-profit filled first
+ * - subcandles: replay 1m candles inside the bar, falling back to pessimistic
+ */
+export type FillPolicy = 'pessimistic' | 'optimistic' | 'subcandles';
+
+const BINANCE_MAX_LIMIT = 1000;
+const ONE_MINUTE_MS = 60 * 1000;
+
+function lowerBound(subCandles: Candle[], time: number): number {
+  let lo = 0;
+  let hi = subCandles.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (subCandles[mid].time < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Which exit the 1m candles inside `bar` touch first, or null when none of them touches either
+ * (usually because the bar's sub-candles weren't fetched)
+ * @param subCandles 1m candles sorted by time, in the same time unit as `bar`
+ */
+export function subCandleExit(
+  bar: Candle,
+  direction: 'long' | 'short',
+  stop: number,
+  limit: number,
+  subCandles: Candle[]
+): 'stop' | 'limit' | null {
+  for (let i = lowerBound(subCandles, bar.time); i < subCandles.length; i++) {
+    const sub = subCandles[i];
+    if (sub.time > bar.closeTime) break;
+    const hitStop = direction === 'long' ? sub.low <= stop : sub.high >= stop;
+    const hitLimit = direction === 'long' ? sub.high >= limit : sub.low <= limit;
+    // Still ambiguous at 1m resolution: stay conservative
+    if (hitStop) return 'stop';
+    if (hitLimit) return 'limit';
+  }
+  return null;
+}
+
+/**
+ * Decide which exit filled first inside an ambiguous bar
+ * @param subCandles 1m candles sorted by time, in the same time unit as `bar`
+ */
+export function resolveIntrabarExit(
+  bar: Candle,
+  direction: 'long' | 'short',
+  stop: number,
+  limit: number,
+  policy: FillPolicy,
+  subCandles: Candle[] = []
+): 'stop' | 'limit' {
+  if (policy === 'optimistic') return 'limit';
+  if (policy === 'pessimistic') return 'stop';
+  return subCandleExit(bar, direction, stop, limit, subCandles) ?? 'stop';
+}
+
+/**
+ * Fetch the 1m candles inside the given bars (normally a backtest's ambiguous bars) for sub-candle
+ * fill resolution. Touching bars are merged into one range and each range is paged through the
+ * klines proxy with startTime/endTime, so bars anywhere in history are covered.
+ */
+export async function fetchSubCandles(bars: Candle[], symbol = 'BTCUSDT'): Promise<Candle[]> {
+  const ranges: { from: number; to: number }[] = [];
+  for (const bar of [...bars].sort((a, b) => a.time - b.time)) {
+    const from = toMs(bar.time);
+    const to = toMs(bar.closeTime);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last.to + 1) last.to = Math.max(last.to, to);
+    else ranges.push({ from, to });
+  }
+
+  const subCandles: Candle[] = [];
+  for (const { from, to } of ranges) {
+    let cursor = from;
+    while (cursor <= to) {
+      const res = await fetch(
+        `/api/binance-proxy/klines?symbol=${symbol}&interval=1m&limit=${BINANCE_MAX_LIMIT}&startTime=${cursor}&endTime=${to}`
+      );
+      if (!res.ok) {
+        throw new Error(`fetch_failed: Status ${res.status}.`);
+      }
+      const klines = await res.json();
+      if (!Array.isArray(klines)) {
+        throw new Error('Invalid response format from Binance API: Expected array');
+      }
+      const page = klines.map(klineToCandle);
+      if (page.length === 0) break;
+      subCandles.push(...page);
+      cursor = page[page.length - 1].time + ONE_MINUTE_MS;
+      if (page.length < BINANCE_MAX_LIMIT) break;
+    }
+  }
+  return subCandles.sort((a, b) => a.time - b.time);
+}
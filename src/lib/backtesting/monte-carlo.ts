@@ -0,0 +1,130 @@
+import { Trade } from './engine';
+import { positionTrades, tradeReturns } from './statistics';
+
+export interface PercentileBands {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  method?: 'shuffle' | 'bootstrap'; // reorder the trades, or resample them with replacement
+  initialBalance?: number;
+  ruinThreshold?: number; // in decimal of initial balance, e.g. 0.5 = losing half the account
+  random?: () => number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  finalEquity: PercentileBands;
+  maxDrawdown: PercentileBands; // percentage
+  longestLosingStreak: PercentileBands;
+  riskOfRuin: number; // percentage of paths that touched the ruin threshold
+  equityFan: { p5: number[]; p50: number[]; p95: number[] }; // equity after each trade
+}
+
+/**
+ * Linear-interpolated percentile of an ascending-sorted array
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+function bands(values: number[]): PercentileBands {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+  };
+}
+
+function samplePath(profits: number[], method: 'shuffle' | 'bootstrap', random: () => number): number[] {
+  if (method === 'bootstrap') {
+    return profits.map(() => profits[Math.floor(random() * profits.length)]);
+  }
+  // Fisher-Yates shuffle
+  const path = [...profits];
+  for (let i = path.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [path[i], path[j]] = [path[j], path[i]];
+  }
+  return path;
+}
+
+/**
+ * Resample the trade sequence to estimate the spread of outcomes the strategy could have produced.
+ * Each position is one draw (partial exits are merged), and its return is relative to the balance
+ * it was taken with in the backtest (pnl / balance), so sized positions aren't compounded as if
+ * they had used the whole account.
+ */
+export function runMonteCarlo(
+  trades: Trade[],
+  {
+    iterations = 1000,
+    method = 'shuffle',
+    initialBalance = 1000,
+    ruinThreshold = 0.5,
+    random = Math.random,
+  }: MonteCarloOptions = {}
+): MonteCarloResult {
+  const profits = tradeReturns(positionTrades(trades), initialBalance).map(r => r.return);
+  const finals: number[] = [];
+  const drawdowns: number[] = [];
+  const streaks: number[] = [];
+  const stepValues: number[][] = profits.map(() => []);
+  const ruinLevel = initialBalance * (1 - ruinThreshold);
+  let ruined = 0;
+
+  for (let n = 0; n < iterations; n++) {
+    const path = samplePath(profits, method, random);
+    let balance = initialBalance;
+    let peak = initialBalance;
+    let maxDrawdown = 0;
+    let streak = 0;
+    let longestStreak = 0;
+    let hitRuin = false;
+
+    path.forEach((profit, step) => {
+      balance *= 1 + profit;
+      stepValues[step].push(balance);
+      if (balance > peak) peak = balance;
+      const dd = (peak - balance) / peak * 100;
+      if (dd > maxDrawdown) maxDrawdown = dd;
+      streak = profit <= 0 ? streak + 1 : 0;
+      if (streak > longestStreak) longestStreak = streak;
+      if (balance <= ruinLevel) hitRuin = true;
+    });
+
+    finals.push(balance);
+    drawdowns.push(maxDrawdown);
+    streaks.push(longestStreak);
+    if (hitRuin) ruined++;
+  }
+
+  const equityFan = { p5: [initialBalance], p50: [initialBalance], p95: [initialBalance] };
+  for (const values of stepValues) {
+    const sorted = values.sort((a, b) => a - b);
+    equityFan.p5.push(percentile(sorted, 5));
+    equityFan.p50.push(percentile(sorted, 50));
+    equityFan.p95.push(percentile(sorted, 95));
+  }
+
+  return {
+    iterations,
+    finalEquity: bands(finals),
+    maxDrawdown: bands(drawdowns),
+    longestLosingStreak: bands(streaks),
+    riskOfRuin: iterations ? (ruined / iterations) * 100 : 0,
+    equityFan,
+  };
+}
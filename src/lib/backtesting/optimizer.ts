@@ -0,0 +1,189 @@
+import { Candle } from '../types';
+import {
+  runBacktest,
+  computeMetrics,
+  BacktestParams,
+  BacktestOptions,
+  Metrics,
+  Trade,
+  DEFAULT_BACKTEST_PARAMS,
+} from './engine';
+
+export type ParameterSpace = { [K in keyof BacktestParams]?: number[] };
+
+/** Backtest options shared by every run of an optimization */
+export type BacktestSettings = Pick<
+  BacktestOptions,
+  | 'initialBalance'
+  | 'preset'
+  | 'costs'
+  | 'fillPolicy'
+  | 'subCandles'
+  | 'sizing'
+  | 'sizingRegime'
+  | 'minQuantity'
+  | 'maxPositions'
+  | 'pyramiding'
+  | 'partialTakeProfits'
+>;
+
+export interface WalkForwardOptions extends BacktestSettings {
+  candles: Candle[];
+  inSampleSize: number; // candles per in-sample window
+  outOfSampleSize: number; // candles per out-of-sample window
+  stepSize?: number; // defaults to outOfSampleSize; smaller steps would overlap the OOS windows
+  warmup?: number; // candles reserved for indicator history before the first window
+  space: ParameterSpace;
+  search?: 'grid' | 'random';
+  samples?: number; // number of random draws when search = 'random'
+  objective?: (metrics: Metrics) => number;
+  random?: () => number;
+}
+
+export interface WalkForwardFold {
+  inSample: { startIndex: number; endIndex: number };
+  outOfSample: { startIndex: number; endIndex: number };
+  params: BacktestParams;
+  inSampleMetrics: Metrics;
+  outOfSampleMetrics: Metrics;
+  outOfSampleTrades: Trade[];
+}
+
+export interface WalkForwardResult {
+  folds: WalkForwardFold[];
+  trades: Trade[];
+  equity: number[]; // stitched out-of-sample equity curve
+  metrics: Metrics; // metrics over the stitched out-of-sample curve
+}
+
+/**
+ * Default objective: rank parameter sets by net profit
+ */
+export const netProfitObjective = (metrics: Metrics): number => metrics.netProfit;
+
+/**
+ * Expand a parameter space into every combination (cartesian product).
+ * Parameters missing from the space keep their default value.
+ */
+export function gridCombinations(space: ParameterSpace): BacktestParams[] {
+  let combos: BacktestParams[] = [{ ...DEFAULT_BACKTEST_PARAMS }];
+  for (const key of Object.keys(space) as (keyof BacktestParams)[]) {
+    const values = space[key];
+    if (!values || values.length === 0) continue;
+    const next: BacktestParams[] = [];
+    for (const combo of combos) {
+      for (const value of values) {
+        next.push({ ...combo, [key]: value });
+      }
+    }
+    combos = next;
+  }
+  return combos;
+}
+
+/**
+ * Draw random parameter sets from the space (sampling with replacement)
+ */
+export function randomCombinations(space: ParameterSpace, samples: number, random: () => number = Math.random): BacktestParams[] {
+  const combos: BacktestParams[] = [];
+  for (let i = 0; i < samples; i++) {
+    const combo = { ...DEFAULT_BACKTEST_PARAMS };
+    for (const key of Object.keys(space) as (keyof BacktestParams)[]) {
+      const values = space[key];
+      if (!values || values.length === 0) continue;
+      combo[key] = values[Math.floor(random() * values.length)];
+    }
+    combos.push(combo);
+  }
+  return combos;
+}
+
+/**
+ * Find the best parameter set for a single candle window
+ */
+export function optimizeWindow(
+  candles: Candle[],
+  startIndex: number,
+  endIndex: number,
+  candidates: BacktestParams[],
+  objective: (metrics: Metrics) => number = netProfitObjective,
+  settings: BacktestSettings = {}
+): { params: BacktestParams; metrics: Metrics } {
+  let best: { params: BacktestParams; metrics: Metrics; score: number } | null = null;
+  for (const params of candidates) {
+    const { metrics } = runBacktest({ ...settings, candles, startIndex, endIndex, ...params });
+    const score = objective(metrics);
+    if (!best || score > best.score) {
+      best = { params, metrics, score };
+    }
+  }
+  if (!best) {
+    throw new Error('optimizeWindow requires at least one candidate parameter set');
+  }
+  return { params: best.params, metrics: best.metrics };
+}
+
+/**
+ * Walk-forward optimization: search parameters on each rolling in-sample window,
+ * then score the winner on the out-of-sample window that follows it.
+ */
+export function runWalkForward({
+  candles,
+  inSampleSize,
+  outOfSampleSize,
+  stepSize = outOfSampleSize,
+  warmup = 50,
+  space,
+  search = 'grid',
+  samples = 20,
+  objective = netProfitObjective,
+  random = Math.random,
+  ...settings
+}: WalkForwardOptions): WalkForwardResult {
+  const initialBalance = settings.initialBalance ?? 1000;
+  if (inSampleSize <= 0 || outOfSampleSize <= 0 || stepSize <= 0) {
+    throw new Error('Walk-forward window sizes must be positive');
+  }
+  // Overlapping out-of-sample windows would count the same candles twice in the stitched equity curve
+  if (stepSize < outOfSampleSize) {
+    throw new Error('Walk-forward stepSize must be at least outOfSampleSize');
+  }
+
+  const candidates = search === 'random' ? randomCombinations(space, samples, random) : gridCombinations(space);
+  const folds: WalkForwardFold[] = [];
+  const trades: Trade[] = [];
+  const equity: number[] = [initialBalance];
+  let balance = initialBalance;
+
+  for (let start = warmup; start + inSampleSize + outOfSampleSize <= candles.length; start += stepSize) {
+    const inSample = { startIndex: start, endIndex: start + inSampleSize - 1 };
+    const outOfSample = { startIndex: start + inSampleSize, endIndex: start + inSampleSize + outOfSampleSize - 1 };
+
+    const best = optimizeWindow(candles, inSample.startIndex, inSample.endIndex, candidates, objective, { ...settings, initialBalance });
+    const oos = runBacktest({ ...settings, initialBalance, candles, ...outOfSample, ...best.params });
+
+    // Chain each fold onto the running balance so the curve compounds across folds; the fold's
+    // positions were sized from initialBalance, so their quantities and pnl scale the same way
+    const scale = balance / initialBalance;
+    for (const value of oos.equity.slice(1)) {
+      equity.push(value * scale);
+    }
+    balance = equity[equity.length - 1];
+    trades.push(...oos.trades.map(t => ({
+      ...t,
+      quantity: t.quantity !== undefined ? t.quantity * scale : undefined,
+      pnl: t.pnl !== undefined ? t.pnl * scale : undefined,
+    })));
+
+    folds.push({
+      inSample,
+      outOfSample,
+      params: best.params,
+      inSampleMetrics: best.metrics,
+      outOfSampleMetrics: oos.metrics,
+      outOfSampleTrades: oos.trades,
+    });
+  }
+
+  return { folds, trades, equity, metrics: computeMetrics(trades, equity, initialBalance) };
+}
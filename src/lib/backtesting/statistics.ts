@@ -0,0 +1,197 @@
+import type { Trade, ExposurePoint } from './engine';
+import { toMs, dayKey, monthKey, DAY_MS } from './time';
+
+export interface PeriodReturn {
+  period: string; // 'YYYY-MM-DD' or 'YYYY-MM' (UTC)
+  return: number; // percentage
+}
+
+const PERIODS_PER_YEAR = 365; // crypto trades every day
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Return of each trade relative to the balance before it closed, replaying the trades in exit order
+ */
+export function tradeReturns(trades: Trade[], initialBalance: number): { time: number; return: number }[] {
+  let balance = initialBalance;
+  return [...trades]
+    .sort((a, b) => a.exitTime - b.exitTime)
+    .map(t => {
+      const r = t.pnl !== undefined && balance > 0 ? t.pnl / balance : t.profit;
+      balance *= 1 + r;
+      return { time: t.exitTime, return: r };
+    });
+}
+
+/**
+ * One trade per position: chunks sharing a positionId (partial take-profits) are merged into a trade
+ * that exits with the last chunk, with quantity-weighted exit price, profit and costs and summed pnl
+ */
+export function positionTrades(trades: Trade[]): Trade[] {
+  const positions = new Map<number | Trade, Trade[]>();
+  for (const t of trades) {
+    const key = t.positionId ?? t;
+    positions.set(key, [...(positions.get(key) ?? []), t]);
+  }
+  return [...positions.values()].map(chunks => {
+    if (chunks.length === 1) return chunks[0];
+    const quantity = chunks.reduce((sum, t) => sum + (t.quantity ?? 0), 0);
+    const weighted = (value: (t: Trade) => number) => quantity > 0
+      ? chunks.reduce((sum, t) => sum + value(t) * (t.quantity ?? 0), 0) / quantity
+      : mean(chunks.map(value));
+    const last = chunks.reduce((a, b) => (b.exitTime >= a.exitTime ? b : a));
+    return {
+      ...last,
+      exitPrice: weighted(t => t.exitPrice),
+      profit: weighted(t => t.profit),
+      grossProfit: weighted(t => t.grossProfit ?? t.profit),
+      costs: last.costs && {
+        fees: weighted(t => t.costs?.fees ?? 0),
+        slippage: weighted(t => t.costs?.slippage ?? 0),
+        funding: weighted(t => t.costs?.funding ?? 0),
+      },
+      quantity,
+      pnl: chunks.every(t => t.pnl !== undefined) ? chunks.reduce((sum, t) => sum + t.pnl!, 0) : undefined,
+    };
+  });
+}
+
+/**
+ * Compound trade returns into calendar-period returns (periods without trades are omitted)
+ */
+export function periodReturns(trades: Trade[], initialBalance: number, period: 'day' | 'month'): PeriodReturn[] {
+  const keyOf = period === 'day' ? dayKey : monthKey;
+  const growth = new Map<string, number>();
+  for (const r of tradeReturns(trades, initialBalance)) {
+    const key = keyOf(r.time);
+    growth.set(key, (growth.get(key) ?? 1) * (1 + r.return));
+  }
+  return Array.from(growth, ([key, g]) => ({ period: key, return: (g - 1) * 100 }));
+}
+
+/**
+ * Daily returns in decimal including flat days between the first entry and last exit
+ */
+export function dailyReturnSeries(trades: Trade[], initialBalance: number): number[] {
+  if (trades.length === 0) return [];
+  const byDay = new Map(periodReturns(trades, initialBalance, 'day').map(r => [r.period, r.return / 100]));
+  const first = Math.floor(Math.min(...trades.map(t => toMs(t.entryTime))) / DAY_MS);
+  const last = Math.floor(Math.max(...trades.map(t => toMs(t.exitTime))) / DAY_MS);
+  const series: number[] = [];
+  for (let day = first; day <= last; day++) {
+    series.push(byDay.get(dayKey(day * DAY_MS)) ?? 0);
+  }
+  return series;
+}
+
+/**
+ * Annualized Sharpe ratio of daily returns (risk-free rate 0)
+ */
+export function sharpeRatio(dailyReturns: number[]): number {
+  const sd = stdDev(dailyReturns);
+  return sd === 0 ? 0 : (mean(dailyReturns) / sd) * Math.sqrt(PERIODS_PER_YEAR);
+}
+
+/**
+ * Annualized Sortino ratio: like Sharpe but only penalises downside deviation
+ */
+export function sortinoRatio(dailyReturns: number[]): number {
+  if (dailyReturns.length < 2) return 0;
+  const downside = Math.sqrt(dailyReturns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / dailyReturns.length);
+  return downside === 0 ? 0 : (mean(dailyReturns) / downside) * Math.sqrt(PERIODS_PER_YEAR);
+}
+
+/**
+ * Compound annual growth rate in percent over the traded span
+ */
+export function annualizedReturn(trades: Trade[], initialBalance: number, finalBalance: number): number {
+  if (trades.length === 0 || initialBalance <= 0 || finalBalance <= 0) return 0;
+  const start = Math.min(...trades.map(t => toMs(t.entryTime)));
+  const end = Math.max(...trades.map(t => toMs(t.exitTime)));
+  const years = Math.max(end - start, DAY_MS) / (DAY_MS * PERIODS_PER_YEAR);
+  return (Math.pow(finalBalance / initialBalance, 1 / years) - 1) * 100;
+}
+
+export function consecutiveStreaks(trades: Trade[]): { wins: number; losses: number } {
+  let wins = 0;
+  let losses = 0;
+  let currentWins = 0;
+  let currentLosses = 0;
+  for (const t of [...trades].sort((a, b) => a.exitTime - b.exitTime)) {
+    if (t.profit > 0) {
+      currentWins++;
+      currentLosses = 0;
+    } else {
+      currentLosses++;
+      currentWins = 0;
+    }
+    wins = Math.max(wins, currentWins);
+    losses = Math.max(losses, currentLosses);
+  }
+  return { wins, losses };
+}
+
+/**
+ * Mean R-multiple (profit divided by initial risk) over trades that record their risk
+ */
+export function expectancyR(trades: Trade[]): number {
+  const rs = trades.filter(t => t.risk && t.risk > 0).map(t => t.profit / t.risk!);
+  return mean(rs);
+}
+
+/**
+ * Average holding time in milliseconds
+ */
+export function averageHoldingTime(trades: Trade[]): number {
+  return mean(trades.map(t => toMs(t.exitTime) - toMs(t.entryTime)));
+}
+
+/**
+ * Percentage of equity points spent below a previous peak
+ */
+export function timeUnderWater(equity: number[]): number {
+  if (equity.length === 0) return 0;
+  let peak = -Infinity;
+  let under = 0;
+  for (const value of equity) {
+    if (value >= peak) peak = value;
+    else under++;
+  }
+  return (under / equity.length) * 100;
+}
+
+/**
+ * Percentage of time with at least one open position. Uses the per-candle exposure series when
+ * available, otherwise the trades' holding periods over the traded span.
+ */
+export function exposurePercentage(trades: Trade[], exposure?: ExposurePoint[]): number {
+  if (exposure && exposure.length > 0) {
+    return (exposure.filter(e => e.openPositions > 0).length / exposure.length) * 100;
+  }
+  if (trades.length === 0) return 0;
+  const start = Math.min(...trades.map(t => toMs(t.entryTime)));
+  const end = Math.max(...trades.map(t => toMs(t.exitTime)));
+  if (end <= start) return 0;
+  const held = trades.reduce((sum, t) => sum + toMs(t.exitTime) - toMs(t.entryTime), 0);
+  return Math.min(100, (held / (end - start)) * 100);
+}
+
+/**
+ * Rebuild an equity curve (initial balance followed by one point per trade) from trade returns
+ */
+export function equityFromTrades(trades: Trade[], initialBalance: number): number[] {
+  const equity = [initialBalance];
+  for (const r of tradeReturns(trades, initialBalance)) {
+    equity.push(equity[equity.length - 1] * (1 + r.return));
+  }
+  return equity;
+}
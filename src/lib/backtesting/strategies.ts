@@ -0,0 +1,112 @@
+import { Candle } from '../types';
+import { volumeSMA } from '../indicators';
+import { MarketRegimeDetector, MarketRegime } from '../market/regime';
+import { StrategyAutomaticSwitcher } from '../signals/strategy-switcher';
+import { detectEMACross } from '../signals/ema-crossover';
+import config from '../../config/signals.json';
+import { BacktestParams, EntrySignal, SignalSource, legacySignalSource } from './engine';
+import { createAgentReplay } from './agent-replay';
+
+export type StrategyId = 'legacy' | 'signal-pipeline' | 'strategy-switcher' | 'ema-crossover' | 'agents';
+
+export interface StrategyDefinition {
+  id: StrategyId;
+  label: string;
+  /** Build a fresh signal source for one run (sources may keep per-run state) */
+  createSource: (candles: Candle[], startIndex: number) => SignalSource;
+  /** Backtest parameters the strategy was designed for; explicit options still win */
+  defaults?: Partial<BacktestParams>;
+}
+
+// Threshold getSignal passes to StrategyAutomaticSwitcher
+const SWITCHER_MIN_CONFIDENCE = 55;
+
+// Candles handed to per-bar strategies; keeps each call O(lookback) instead of O(index)
+const STRATEGY_LOOKBACK = 200;
+
+function recentCandles(candles: Candle[], index: number): Candle[] {
+  return candles.slice(Math.max(0, index + 1 - STRATEGY_LOOKBACK), index + 1);
+}
+
+/**
+ * Regime for candles[index], feeding the detector every candle in order even when the
+ * backtest skips bars while a position is open
+ */
+function regimeTracker(candles: Candle[]): (index: number) => MarketRegime {
+  const detector = new MarketRegimeDetector();
+  let fed = -1;
+  let regime: MarketRegime = 'ranging';
+  return index => {
+    while (fed < index) {
+      fed++;
+      regime = detector.update(candles[fed]).regime;
+    }
+    return index >= 27 ? regime : 'ranging'; // ADX needs 28 candles, as in getSignal
+  };
+}
+
+function switcherSource(candles: Candle[], volumeConfirmation: boolean): SignalSource {
+  const regimeAt = regimeTracker(candles);
+  return (_candles, index) => {
+    const recent = recentCandles(candles, index);
+    const price = candles[index].close;
+    const signal = StrategyAutomaticSwitcher.generateSignal(recent, regimeAt(index), price, {
+      accountBalance: 10000,
+      enablePositionSizing: true,
+      minConfidenceThreshold: SWITCHER_MIN_CONFIDENCE,
+    });
+    if (signal.action === 'HOLD' || !StrategyAutomaticSwitcher.shouldExecuteSignal(signal)) return null;
+    if (volumeConfirmation && candles[index].volume < volumeSMA(recent, 20) * config.volumeMultiplier) {
+      return null;
+    }
+    const entry: EntrySignal = {
+      direction: signal.action === 'BUY' ? 'long' : 'short',
+      confidence: signal.confidence,
+    };
+    if (signal.positionSize) {
+      entry.stopLoss = signal.positionSize.stopLoss;
+      entry.takeProfit = signal.positionSize.takeProfit;
+    }
+    return entry;
+  };
+}
+
+const emaCrossoverSource: SignalSource = (candles, index) => {
+  const { signal } = detectEMACross(recentCandles(candles, index));
+  if (signal.type === 'NEUTRAL') return null;
+  return { direction: signal.type === 'BUY' ? 'long' : 'short', confidence: signal.confidence * 100 };
+};
+
+/**
+ * Strategies selectable for backtests and comparisons.
+ *
+ * 'signal-pipeline' follows getSignal (regime -> StrategyAutomaticSwitcher -> execution check ->
+ * volume confirmation); its wall-clock cooldown and trade tracking are replaced by the engine's.
+ */
+export const STRATEGIES: StrategyDefinition[] = [
+  { id: 'legacy', label: 'Legacy signals', createSource: () => legacySignalSource },
+  {
+    id: 'signal-pipeline',
+    label: 'getSignal pipeline',
+    createSource: candles => switcherSource(candles, true),
+    defaults: { minConfidence: SWITCHER_MIN_CONFIDENCE },
+  },
+  {
+    id: 'strategy-switcher',
+    label: 'Strategy switcher',
+    createSource: candles => switcherSource(candles, false),
+    defaults: { minConfidence: SWITCHER_MIN_CONFIDENCE },
+  },
+  { id: 'ema-crossover', label: 'EMA crossover', createSource: () => emaCrossoverSource },
+  {
+    id: 'agents',
+    label: 'Agent pipeline',
+    createSource: (candles, startIndex) => createAgentReplay(candles, startIndex).signalSource,
+  },
+];
+
+export function getStrategy(id: StrategyId): StrategyDefinition {
+  const strategy = STRATEGIES.find(s => s.id === id);
+  if (!strategy) throw new Error(`Unknown strategy: ${id}`);
+  return strategy;
+}
@@ -0,0 +1,17 @@
+// Candle times are milliseconds from Binance but seconds in synthetic/cached data
+export function toMs(time: number): number {
+  return time < 1e12 ? time * 1000 : time;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC calendar keys used for return tables
+ */
+export function dayKey(time: number): string {
+  return new Date(toMs(time)).toISOString().slice(0, 10);
+}
+
+export function monthKey(time: number): string {
+  return new Date(toMs(time)).toISOString().slice(0, 7);
+}
@@ -6,13 +6,18 @@ class BinanceWebSocket {
   private socket: WebSocket | null = null;
   private callbacks: CandleCallback[] = [];
   private reconnectTimer: NodeJS.Timeout | null = null;
-  private readonly symbol = 'btcusdt';
+  private readonly symbol: string;
   private readonly interval = '5m';
 
-  constructor() {
+  constructor(symbol = 'btcusdt') {
+    this.symbol = symbol.toLowerCase();
     // this.connect(); // REMOVED: Do not auto-connect on instantiation
   }
 
+  public isOpen(): boolean {
+    return this.socket !== null || this.reconnectTimer !== null;
+  }
+
   // Make connect public so DataCollectorAgent can call it.
   public connect(): void { // MODIFIED: Made explicitly public (though it was implicitly before)
     if (this.reconnectTimer) {
@@ -159,4 +164,22 @@ const binanceWebSocket = new BinanceWebSocket();
 // Export the public API
 export const subscribeToCandleUpdates = binanceWebSocket.subscribe.bind(binanceWebSocket);
 
+// One stream per symbol, shared by every subscriber of that symbol
+const streams = new Map<string, BinanceWebSocket>([['BTCUSDT', binanceWebSocket]]);
+
+/**
+ * Subscribe to a symbol's 5m klines, connecting its stream on first use
+ */
+export function subscribeToSymbolCandleUpdates(symbol: string, callback: CandleCallback): () => void {
+  const key = symbol.toUpperCase();
+  let stream = streams.get(key);
+  if (!stream) {
+    stream = new BinanceWebSocket(key);
+    streams.set(key, stream);
+  }
+  const unsubscribe = stream.subscribe(callback);
+  if (!stream.isOpen()) stream.connect();
+  return unsubscribe;
+}
+
 export default binanceWebSocket;
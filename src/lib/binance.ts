@@ -1,7 +1,26 @@
 import type { Candle, TimeFrame } from './types';
 
-export async function getBinanceCandles(timeFrame: TimeFrame = '5m', limit = 100): Promise<Candle[]> {
-  const url = `/api/binance-proxy/klines?symbol=BTCUSDT&interval=${timeFrame}&limit=${limit}`;
+/**
+ * Convert a raw /api/v3/klines row into a Candle (times stay in milliseconds)
+ */
+export function klineToCandle(k: unknown[]): Candle {
+  return {
+    time: Number(k[0]),
+    open: Number(k[1]),
+    high: Number(k[2]),
+    low: Number(k[3]),
+    close: Number(k[4]),
+    volume: Number(k[5]),
+    closeTime: Number(k[6]),
+    quoteAssetVolume: Number(k[7]),
+    trades: Number(k[8]),
+    takerBuyBaseAssetVolume: Number(k[9]),
+    takerBuyQuoteAssetVolume: Number(k[10]),
+  };
+}
+
+export async function getBinanceCandles(timeFrame: TimeFrame = '5m', limit = 100, symbol = 'BTCUSDT'): Promise<Candle[]> {
+  const url = `/api/binance-proxy/klines?symbol=${symbol}&interval=${timeFrame}&limit=${limit}`;
   
   try {
     console.log(`Fetching ${limit} ${timeFrame} candles from Binance...`);
@@ -48,19 +67,7 @@ export async function getBinanceCandles(timeFrame: TimeFrame = '5m', limit = 100
       throw new Error('Invalid response format from Binance API: Expected array');
     }
     
-    const candles = klines.map((k: any) => ({
-      time: Number(k[0]), // Keep as milliseconds for consistency
-      open: Number(k[1]),
-      high: Number(k[2]),
-      low: Number(k[3]),
-      close: Number(k[4]),
-      volume: Number(k[5]),
-      closeTime: Number(k[6]),
-      quoteAssetVolume: Number(k[7]),
-      trades: Number(k[8]),
-      takerBuyBaseAssetVolume: Number(k[9]),
-      takerBuyQuoteAssetVolume: Number(k[10]),
-    }));
+    const candles = klines.map(klineToCandle);
     
     console.log(`Fetched ${candles.length} candles in ${responseTime}ms`);
     
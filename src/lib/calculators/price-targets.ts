@@ -1,5 +1,5 @@
 import { Candle } from '@/lib/types';
-import { calculateATR } from '@/lib/indicators/atr';
+import { atr as averageTrueRange } from '@/lib/indicators/volatility';
 
 export interface PriceTargets {
   entry: number;
@@ -36,7 +36,7 @@ export function calculatePriceTargets(
   }
 
   // Calculate ATR for volatility-based stop loss
-  const atr = calculateATR(candles, atrPeriod)[candles.length - 1] || 0;
+  const atr = averageTrueRange(candles, atrPeriod) || 0;
   const atrStopDistance = atr * atrMultiplier;
   
   // Calculate stop loss and take profit based on position direction
@@ -0,0 +1,194 @@
+import type { Candle, Interval, TimeFrame } from './types';
+
+/**
+ * Build candles for any interval (3m, 10m, 30m, 4h, 1d, ...) from shorter ones, usually 1m.
+ * Bars are aligned to UTC multiples of the interval, like Binance's own klines, and every
+ * volume field (base, quote, trades, taker buy) is summed. Times are epoch milliseconds.
+ */
+
+export const TIMEFRAME_MS: Record<TimeFrame, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+const UNIT_MS = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 } as const;
+
+export function isInterval(value: string): value is Interval {
+  return /^[1-9]\d*[mhd]$/.test(value);
+}
+
+/**
+ * Length of an interval in milliseconds; throws on anything that is not `<n>m`, `<n>h` or `<n>d`
+ */
+export function intervalMs(interval: Interval): number {
+  if (!isInterval(interval)) throw new Error(`Invalid candle interval "${interval}"`);
+  return parseInt(interval, 10) * UNIT_MS[interval.slice(-1) as keyof typeof UNIT_MS];
+}
+
+/**
+ * Whether `to` bars can be built from `from` candles (a longer interval that is a whole multiple)
+ */
+export function canAggregate(from: Interval, to: Interval): boolean {
+  const source = intervalMs(from);
+  const target = intervalMs(to);
+  return target >= source && target % source === 0;
+}
+
+/**
+ * Open time of the `interval` bar that contains `time`
+ */
+export function bucketStart(time: number, interval: Interval): number {
+  const step = intervalMs(interval);
+  return Math.floor(time / step) * step;
+}
+
+/**
+ * Whether `candle` (a `from` candle) is the last one of its `to` bar
+ */
+export function completesBar(candle: Candle, from: Interval, to: Interval): boolean {
+  return candle.time + intervalMs(from) >= bucketStart(candle.time, to) + intervalMs(to);
+}
+
+export interface AggregateOptions {
+  /** Interval of the input candles (default '1m'); only needed for `closedOnly` */
+  sourceInterval?: Interval;
+  /** Drop the newest bar when its last source candle has not arrived yet */
+  closedOnly?: boolean;
+}
+
+/**
+ * Aggregate candles into `interval` bars, one per bucket that has at least one candle.
+ * Input may be unsorted and may contain several updates of the same candle (the last one wins).
+ * The newest bar is kept even if it is still in progress, unless `closedOnly` is set.
+ */
+export function aggregateCandles(
+  candles: Candle[],
+  interval: Interval,
+  { sourceInterval = '1m', closedOnly = false }: AggregateOptions = {}
+): Candle[] {
+  const latest = new Map<number, Candle>();
+  candles.forEach(candle => latest.set(candle.time, candle));
+  const sorted = Array.from(latest.values()).sort((a, b) => a.time - b.time);
+
+  const bars: Candle[] = [];
+  sorted.forEach(candle => {
+    const time = bucketStart(candle.time, interval);
+    const bar = bars[bars.length - 1];
+    if (!bar || bar.time !== time) {
+      bars.push({
+        time,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+        closeTime: time + intervalMs(interval) - 1,
+        quoteAssetVolume: candle.quoteAssetVolume,
+        trades: candle.trades,
+        takerBuyBaseAssetVolume: candle.takerBuyBaseAssetVolume,
+        takerBuyQuoteAssetVolume: candle.takerBuyQuoteAssetVolume,
+      });
+      return;
+    }
+    bar.high = Math.max(bar.high, candle.high);
+    bar.low = Math.min(bar.low, candle.low);
+    bar.close = candle.close;
+    bar.volume += candle.volume;
+    bar.quoteAssetVolume += candle.quoteAssetVolume;
+    bar.trades += candle.trades;
+    bar.takerBuyBaseAssetVolume += candle.takerBuyBaseAssetVolume;
+    bar.takerBuyQuoteAssetVolume += candle.takerBuyQuoteAssetVolume;
+  });
+
+  if (closedOnly && sorted.length > 0 && !completesBar(sorted[sorted.length - 1], sourceInterval, interval)) {
+    bars.pop();
+  }
+  return bars;
+}
+
+export interface AggregatedBar {
+  bar: Candle;
+  isClosed: boolean;
+}
+
+/**
+ * Streaming aggregation for live feeds. Source candles may arrive several times while they are
+ * still forming; each update replaces the previous one, so the in-progress bar never double counts.
+ * A bar closes when its last source candle closes, or when a candle from a later bar arrives
+ * (the feed skipped the rest of it).
+ */
+export class CandleAggregator {
+  /** Source candles of the bar in progress, by open time */
+  private forming = new Map<number, Candle>();
+  private formingStart: number | null = null;
+  private lastClosedStart: number | null = null;
+
+  constructor(
+    public readonly interval: Interval,
+    public readonly sourceInterval: Interval = '1m'
+  ) {
+    if (!canAggregate(sourceInterval, interval)) {
+      throw new Error(`Cannot build ${interval} candles from ${sourceInterval} candles`);
+    }
+  }
+
+  /**
+   * Add or replace a source candle; returns the bars it changed, oldest first.
+   * Candles of bars already closed or older than the bar in progress are ignored.
+   */
+  public update(candle: Candle, isClosed: boolean): AggregatedBar[] {
+    const start = bucketStart(candle.time, this.interval);
+    if (this.formingStart !== null && start < this.formingStart) return [];
+    if (this.lastClosedStart !== null && start <= this.lastClosedStart) return [];
+
+    const changed: AggregatedBar[] = [];
+    if (this.formingStart !== null && start > this.formingStart) {
+      const skipped = this.current();
+      if (skipped) changed.push({ bar: skipped, isClosed: true });
+      this.lastClosedStart = this.formingStart;
+      this.forming.clear();
+    }
+    this.formingStart = start;
+    this.forming.set(candle.time, candle);
+
+    const bar = this.current() as Candle;
+    const closes = isClosed && completesBar(candle, this.sourceInterval, this.interval);
+    if (closes) {
+      this.forming.clear();
+      this.formingStart = null;
+      this.lastClosedStart = start;
+    }
+    changed.push({ bar, isClosed: closes });
+    return changed;
+  }
+
+  /**
+   * Start over from a source-candle history and return its closed bars. Candles of the newest bar
+   * become the bar in progress: the newest candle may itself still be forming, so that bar only
+   * closes through later updates.
+   */
+  public seed(candles: Candle[]): Candle[] {
+    this.reset();
+    if (candles.length === 0) return [];
+    const latest = candles.reduce((time, candle) => Math.max(time, candle.time), -Infinity);
+    const current = bucketStart(latest, this.interval);
+    candles.filter(candle => candle.time >= current).forEach(candle => this.update(candle, false));
+    return aggregateCandles(candles, this.interval).filter(bar => bar.time < current);
+  }
+
+  /**
+   * The bar in progress, or null between bars
+   */
+  public current(): Candle | null {
+    const [bar] = aggregateCandles(Array.from(this.forming.values()), this.interval);
+    return bar ?? null;
+  }
+
+  public reset(): void {
+    this.forming.clear();
+    this.formingStart = null;
+    this.lastClosedStart = null;
+  }
+}
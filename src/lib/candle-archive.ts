@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import type { Candle, TimeFrame } from './types';
+import { klineToCandle } from './binance';
+import { TIMEFRAME_MS } from './candle-aggregator';
+
+/**
+ * Server-side candle archive: one JSON file per symbol/timeframe under .cache/archive,
+ * backfilled from Binance /api/v3/klines whenever a requested range has gaps.
+ */
+
+const ARCHIVE_DIR = path.join(process.cwd(), '.cache', 'archive');
+const KLINES_PAGE_LIMIT = 1000;
+
+export interface CandleGap {
+  from: number; // open time of the first missing candle (ms)
+  to: number; // open time of the last missing candle (ms)
+}
+
+export interface ArchiveOptions {
+  symbol?: string;
+  dir?: string;
+  fetcher?: typeof fetch;
+}
+
+export interface ArchiveRange {
+  candles: Candle[];
+  gaps: CandleGap[]; // gaps Binance could not fill (e.g. exchange downtime)
+}
+
+function archiveFile(dir: string, symbol: string, timeFrame: TimeFrame): string {
+  return path.join(dir, `${symbol}_${timeFrame}.json`);
+}
+
+/**
+ * Align a timestamp down to the open time of its candle
+ */
+export function alignToTimeFrame(time: number, timeFrame: TimeFrame): number {
+  const step = TIMEFRAME_MS[timeFrame];
+  return Math.floor(time / step) * step;
+}
+
+export function loadArchive(timeFrame: TimeFrame, { symbol = 'BTCUSDT', dir = ARCHIVE_DIR }: ArchiveOptions = {}): Candle[] {
+  const file = archiveFile(dir, symbol, timeFrame);
+  try {
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    }
+  } catch (e) {
+    console.error(`Failed to load ${symbol} ${timeFrame} candle archive:`, e);
+  }
+  return [];
+}
+
+export function saveArchive(
+  candles: Candle[],
+  timeFrame: TimeFrame,
+  { symbol = 'BTCUSDT', dir = ARCHIVE_DIR }: ArchiveOptions = {}
+): void {
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(archiveFile(dir, symbol, timeFrame), JSON.stringify(candles), 'utf8');
+  } catch (e) {
+    console.error(`Failed to save ${symbol} ${timeFrame} candle archive:`, e);
+  }
+}
+
+/**
+ * Merge candles by open time; incoming candles replace archived ones with the same time
+ */
+export function mergeCandles(existing: Candle[], incoming: Candle[]): Candle[] {
+  const byTime = new Map<number, Candle>();
+  for (const c of existing) byTime.set(c.time, c);
+  for (const c of incoming) byTime.set(c.time, c);
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Find missing candle open times in [from, to] for a sorted candle series
+ */
+export function findGaps(candles: Candle[], timeFrame: TimeFrame, from: number, to: number): CandleGap[] {
+  const step = TIMEFRAME_MS[timeFrame];
+  const start = alignToTimeFrame(from, timeFrame);
+  const end = alignToTimeFrame(to, timeFrame);
+  const gaps: CandleGap[] = [];
+  let expected = start;
+  for (const c of candles) {
+    if (c.time < start) continue;
+    if (c.time > end) break;
+    if (c.time > expected) gaps.push({ from: expected, to: c.time - step });
+    expected = Math.max(expected, c.time + step);
+  }
+  if (expected <= end) gaps.push({ from: expected, to: end });
+  return gaps;
+}
+
+/**
+ * Page through /api/v3/klines for every candle opening in [from, to]
+ */
+export async function fetchKlinesRange(
+  timeFrame: TimeFrame,
+  from: number,
+  to: number,
+  { symbol = 'BTCUSDT', fetcher = fetch }: ArchiveOptions = {}
+): Promise<Candle[]> {
+  const baseUrl = process.env.BINANCE_BASE_URL ?? 'https://api.binance.com/api/v3';
+  const candles: Candle[] = [];
+  let cursor = from;
+  while (cursor <= to) {
+    const url = `${baseUrl}/klines?symbol=${symbol}&interval=${timeFrame}` +
+      `&startTime=${cursor}&endTime=${to}&limit=${KLINES_PAGE_LIMIT}`;
+    const res = await fetcher(url);
+    if (!res.ok) {
+      const status = res.status;
+      if (status === 429 || status === 418) {
+        throw new Error(`fetch_failed_rate_limit: Retry-After: ${res.headers.get('Retry-After') || 'N/A'} Status: ${status}`);
+      }
+      throw new Error(`fetch_failed: Status ${status}.`);
+    }
+    const klines = await res.json();
+    if (!Array.isArray(klines)) {
+      throw new Error('Invalid response format from Binance API: Expected array');
+    }
+    const page = klines.map(klineToCandle);
+    if (page.length === 0) break;
+    candles.push(...page);
+    cursor = page[page.length - 1].time + TIMEFRAME_MS[timeFrame];
+    if (page.length < KLINES_PAGE_LIMIT) break;
+  }
+  return candles;
+}
+
+/**
+ * Return archived candles opening in [from, to], backfilling any gaps from Binance first.
+ * Candles that have not closed yet are never archived.
+ */
+export async function getArchivedCandles(
+  timeFrame: TimeFrame,
+  from: number,
+  to: number,
+  options: ArchiveOptions = {}
+): Promise<ArchiveRange> {
+  const step = TIMEFRAME_MS[timeFrame];
+  // Only closed candles belong in the archive
+  const end = Math.min(alignToTimeFrame(to, timeFrame), alignToTimeFrame(Date.now(), timeFrame) - step);
+  let archive = loadArchive(timeFrame, options);
+  const gaps = findGaps(archive, timeFrame, from, end);
+
+  if (gaps.length > 0) {
+    let fetched: Candle[] = [];
+    for (const gap of gaps) {
+      fetched = fetched.concat(await fetchKlinesRange(timeFrame, gap.from, gap.to, options));
+    }
+    if (fetched.length > 0) {
+      archive = mergeCandles(archive, fetched);
+      saveArchive(archive, timeFrame, options);
+    }
+  }
+
+  const start = alignToTimeFrame(from, timeFrame);
+  return {
+    candles: archive.filter(c => c.time >= start && c.time <= end),
+    gaps: findGaps(archive, timeFrame, from, end),
+  };
+}
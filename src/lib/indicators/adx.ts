@@ -0,0 +1,61 @@
+import { Candle } from '../types';
+import { smoothSeries, Smoothing } from './moving-averages';
+import { trueRangeSeries } from './volatility';
+
+export interface DirectionalMovement {
+  /** Average Directional Index: trend strength from 0 to 100, whichever the direction */
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+/**
+ * Wilder's Directional Movement System for every candle, aligned with `candles`. +DI and -DI start
+ * at index `period` (they need `period` moves, and the first candle has none); ADX averages DX
+ * over another `period` candles, so it starts at index `2 * period - 1`. NaN before that.
+ * @param period DI and ADX period (default: 14)
+ * @param smoothing 'wilder' (default, the standard ADX) or 'simple'
+ */
+export function adxSeries(candles: Candle[], period = 14, smoothing: Smoothing = 'wilder'): DirectionalMovement[] {
+  const result = candles.map(() => ({ adx: NaN, plusDI: NaN, minusDI: NaN }));
+
+  // Moves, like true ranges with a previous close, start at the second candle
+  const plusDMs: number[] = [];
+  const minusDMs: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const upMove = candles[i].high - candles[i - 1].high;
+    const downMove = candles[i - 1].low - candles[i].low;
+    plusDMs.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDMs.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  const ranges = smoothSeries(trueRangeSeries(candles).slice(1), period, smoothing);
+  const plus = smoothSeries(plusDMs, period, smoothing);
+  const minus = smoothSeries(minusDMs, period, smoothing);
+
+  const dxs: number[] = [];
+  ranges.forEach((range, j) => {
+    if (isNaN(range)) return;
+    const plusDI = range > 0 ? (plus[j] / range) * 100 : 0;
+    const minusDI = range > 0 ? (minus[j] / range) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    dxs.push(diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0);
+    result[j + 1].plusDI = plusDI;
+    result[j + 1].minusDI = minusDI;
+  });
+
+  // The first DX belongs to candle `period`
+  smoothSeries(dxs, period, smoothing).forEach((value, k) => {
+    result[period + k].adx = value;
+  });
+  return result;
+}
+
+/**
+ * Latest ADX, +DI and -DI; NaN until the series has them
+ * @param candles Array of candles
+ * @param period DI and ADX period (default: 14)
+ */
+export function adx(candles: Candle[], period = 14, smoothing: Smoothing = 'wilder'): DirectionalMovement {
+  return adxSeries(candles, period, smoothing)[candles.length - 1] ?? { adx: NaN, plusDI: NaN, minusDI: NaN };
+}
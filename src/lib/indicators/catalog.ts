@@ -0,0 +1,257 @@
+import { Candle } from '../types';
+import { ichimoku } from './ichimoku';
+import { vwap } from './moving-averages';
+import { stochastic } from './oscillators';
+import {
+  StreamingATR,
+  StreamingBollingerBands,
+  StreamingCMF,
+  StreamingEMA,
+  StreamingIndicator,
+  StreamingMACD,
+  StreamingOBV,
+  StreamingRSI,
+} from './streaming';
+import { keltnerChannels } from './volatility';
+
+/**
+ * The indicators the IndicatorEngine can calculate, and the settings that choose which ones run
+ * with which parameters. Each configured indicator publishes its outputs in IndicatorDataSet.values,
+ * as `<id>` for single values and `<id>.<output>` (e.g. `macd.histogram`) for the rest.
+ */
+
+export type IndicatorKind =
+  | 'ema'
+  | 'rsi'
+  | 'bollinger'
+  | 'atr'
+  | 'macd'
+  | 'stochastic'
+  | 'vwap'
+  | 'keltner'
+  | 'ichimoku'
+  | 'obv'
+  | 'cmf';
+
+export type IndicatorParams = Record<string, number>;
+
+export interface IndicatorSetting {
+  /** Prefix of the indicator's keys in IndicatorDataSet.values */
+  id: string;
+  kind: IndicatorKind;
+  params: IndicatorParams;
+  enabled: boolean;
+}
+
+export interface IndicatorParamSpec {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  /** Whole numbers only unless set */
+  step?: number;
+}
+
+type IndicatorOutput = number | Record<string, number>;
+
+/** Per-series state of one indicator; streaming ones keep their own, batch ones read the history */
+export interface IndicatorCalculator {
+  /** Feed a closed candle, in time order; sending the newest candle again replaces it */
+  update(candle: Candle): void;
+  /** Current output; `history` is every stored candle of the series, oldest first */
+  read(history: Candle[]): IndicatorOutput;
+  /** Output if the forming `candle` closed now, without changing state; `history` ends with it */
+  peek(candle: Candle, history: Candle[]): IndicatorOutput;
+}
+
+export interface IndicatorDefinition {
+  label: string;
+  params: IndicatorParamSpec[];
+  /** Candles needed before the indicator has a value */
+  warmup(params: IndicatorParams): number;
+  create(params: IndicatorParams): IndicatorCalculator;
+}
+
+function streaming(indicator: StreamingIndicator<unknown, number | object>): IndicatorCalculator {
+  const output = (value: number | object): IndicatorOutput =>
+    typeof value === 'number' ? value : { ...(value as Record<string, number>) };
+  return {
+    update: candle => {
+      indicator.update(candle);
+    },
+    read: () => output(indicator.snapshot()),
+    peek: candle => output(indicator.peek(candle)),
+  };
+}
+
+function batch(compute: (history: Candle[]) => IndicatorOutput): IndicatorCalculator {
+  return { update: () => undefined, read: compute, peek: (_, history) => compute(history) };
+}
+
+const period = (defaultValue: number): IndicatorParamSpec => ({ key: 'period', label: 'Period', defaultValue, min: 1 });
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorKind, IndicatorDefinition> = {
+  ema: {
+    label: 'EMA',
+    params: [period(9)],
+    warmup: p => p.period,
+    create: p => streaming(new StreamingEMA(p.period)),
+  },
+  rsi: {
+    label: 'RSI',
+    params: [period(14)],
+    warmup: p => p.period,
+    create: p => streaming(new StreamingRSI(p.period)),
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    params: [period(20), { key: 'stdDev', label: 'Std dev', defaultValue: 2, min: 0.1, step: 0.1 }],
+    warmup: p => p.period,
+    create: p => streaming(new StreamingBollingerBands(p.period, p.stdDev)),
+  },
+  atr: {
+    label: 'ATR',
+    params: [period(14)],
+    warmup: p => p.period,
+    create: p => streaming(new StreamingATR(p.period)),
+  },
+  macd: {
+    label: 'MACD',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 1 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1 },
+    ],
+    warmup: p => Math.max(p.fast, p.slow) + p.signal - 1,
+    create: p => streaming(new StreamingMACD(p.fast, p.slow, p.signal)),
+  },
+  stochastic: {
+    label: 'Stochastic',
+    params: [
+      { key: 'k', label: '%K', defaultValue: 14, min: 1 },
+      { key: 'd', label: '%D', defaultValue: 3, min: 1 },
+    ],
+    warmup: p => p.k,
+    create: p => batch(history => ({ ...stochastic(history.slice(-(p.k + p.d)), p.k, p.d) })),
+  },
+  vwap: {
+    label: 'VWAP',
+    params: [period(20)],
+    warmup: p => p.period,
+    create: p => batch(history => (history.length < p.period ? NaN : vwap(history.slice(-p.period)))),
+  },
+  keltner: {
+    label: 'Keltner Channels',
+    params: [
+      { key: 'emaPeriod', label: 'EMA', defaultValue: 20, min: 1 },
+      { key: 'atrPeriod', label: 'ATR', defaultValue: 10, min: 1 },
+      { key: 'multiplier', label: 'Multiplier', defaultValue: 2, min: 0.1, step: 0.1 },
+    ],
+    warmup: p => Math.max(p.emaPeriod, p.atrPeriod),
+    create: p => batch(history => ({ ...keltnerChannels(history, p.emaPeriod, p.atrPeriod, p.multiplier) })),
+  },
+  ichimoku: {
+    label: 'Ichimoku',
+    params: [
+      { key: 'conversion', label: 'Conversion', defaultValue: 9, min: 1 },
+      { key: 'base', label: 'Base', defaultValue: 26, min: 1 },
+      { key: 'spanB', label: 'Span B', defaultValue: 52, min: 1 },
+    ],
+    warmup: p => p.spanB,
+    create: p =>
+      batch(history => ({
+        ...ichimoku(history.slice(-Math.max(p.spanB, p.base + 1)), p.conversion, p.base, p.spanB),
+      })),
+  },
+  obv: {
+    label: 'OBV',
+    params: [],
+    warmup: () => 2,
+    create: () => streaming(new StreamingOBV()),
+  },
+  cmf: {
+    label: 'CMF',
+    params: [period(20)],
+    warmup: p => p.period,
+    create: p => streaming(new StreamingCMF(p.period)),
+  },
+};
+
+export const INDICATOR_KINDS = Object.keys(INDICATOR_DEFINITIONS) as IndicatorKind[];
+
+/** Always calculated: the fixed IndicatorDataSet fields, and so the signal pipeline, read them */
+export const CORE_INDICATOR_IDS = ['emaFast', 'emaSlow', 'rsi', 'bb', 'atr'];
+
+const setting = (id: string, kind: IndicatorKind, params: IndicatorParams = {}, enabled = false): IndicatorSetting => ({
+  id,
+  kind,
+  params: { ...defaultParams(kind), ...params },
+  enabled,
+});
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSetting[] = [
+  setting('emaFast', 'ema', { period: 9 }, true),
+  setting('emaSlow', 'ema', { period: 21 }, true),
+  setting('rsi', 'rsi', {}, true),
+  setting('bb', 'bollinger', {}, true),
+  setting('atr', 'atr', {}, true),
+  setting('macd', 'macd'),
+  setting('stochastic', 'stochastic'),
+  setting('vwap', 'vwap'),
+  setting('keltner', 'keltner'),
+  setting('ichimoku', 'ichimoku'),
+  setting('obv', 'obv'),
+  setting('cmf', 'cmf'),
+];
+
+export function defaultParams(kind: IndicatorKind): IndicatorParams {
+  return Object.fromEntries(INDICATOR_DEFINITIONS[kind].params.map(({ key, defaultValue }) => [key, defaultValue]));
+}
+
+export function isIndicatorKind(value: unknown): value is IndicatorKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(INDICATOR_DEFINITIONS, value);
+}
+
+/**
+ * Turn stored or received settings into a complete, valid list: every default indicator appears
+ * (core ones always enabled), unknown kinds and malformed entries are dropped, and parameters
+ * missing or below their minimum fall back to the default. Extra ids (e.g. a second EMA) are kept.
+ */
+export function normalizeIndicatorSettings(raw: unknown): IndicatorSetting[] {
+  const entries = new Map<string, Record<string, unknown>>();
+  (Array.isArray(raw) ? raw : []).forEach(entry => {
+    if (typeof entry === 'object' && entry !== null && typeof entry.id === 'string' && isIndicatorKind(entry.kind)) {
+      entries.set(entry.id, entry);
+    }
+  });
+
+  const normalize = (base: IndicatorSetting, entry: Record<string, unknown> | undefined): IndicatorSetting => {
+    // A default id stored with another kind keeps its default settings
+    const stored = entry?.kind === base.kind ? entry : undefined;
+    const storedParams = (typeof stored?.params === 'object' && stored.params !== null ? stored.params : {}) as Record<string, unknown>;
+    const params = Object.fromEntries(
+      INDICATOR_DEFINITIONS[base.kind].params.map(({ key, min, step }) => {
+        const value = storedParams[key];
+        const valid = typeof value === 'number' && Number.isFinite(value) && value >= min && (step !== undefined || Number.isInteger(value));
+        return [key, valid ? value : base.params[key]];
+      })
+    );
+    const enabled = CORE_INDICATOR_IDS.includes(base.id) || (typeof stored?.enabled === 'boolean' ? stored.enabled : base.enabled);
+    return { ...base, params, enabled };
+  };
+
+  const defaults = DEFAULT_INDICATOR_SETTINGS.map(base => normalize(base, entries.get(base.id)));
+  const extras = Array.from(entries.values())
+    .filter(entry => !DEFAULT_INDICATOR_SETTINGS.some(({ id }) => id === entry.id))
+    .map(entry => normalize(setting(entry.id as string, entry.kind as IndicatorKind), entry));
+  return [...defaults, ...extras];
+}
+
+/**
+ * Flatten one indicator's output into IndicatorDataSet.values entries; NaN becomes null
+ */
+export function indicatorValues(id: string, output: IndicatorOutput): Record<string, number | null> {
+  const finite = (value: number) => (Number.isFinite(value) ? value : null);
+  if (typeof output === 'number') return { [id]: finite(output) };
+  return Object.fromEntries(Object.entries(output).map(([key, value]) => [`${id}.${key}`, finite(value)]));
+}
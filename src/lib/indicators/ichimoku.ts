@@ -18,6 +18,10 @@ function lowestLow(candles: Candle[], period: number, offset = 0) {
   return Math.min(...slice.map(c => c.low));
 }
 
+/**
+ * Latest Ichimoku values as calculated on the last candle; the Senkou spans are not shifted, so
+ * they are the cloud `basePeriod` candles ahead (see ichimokuSeries for the plotted lines)
+ */
 export function ichimoku(
   candles: Candle[],
   conversionPeriod = 9,
@@ -37,3 +41,36 @@ export function ichimoku(
 
   return { tenkan, kijun, senkouA, senkouB, chikou };
 }
+
+/** Middle of the highest high and lowest low of the `period` candles ending at `index`; NaN if there aren't enough */
+function midpoint(candles: Candle[], index: number, period: number) {
+  if (index < period - 1 || index >= candles.length) return NaN;
+  const window = candles.slice(index - period + 1, index + 1);
+  return (Math.max(...window.map(c => c.high)) + Math.min(...window.map(c => c.low))) / 2;
+}
+
+/**
+ * Ichimoku lines as they are plotted, with `displacement` extra entries after the last candle for
+ * the cloud ahead of price. Entry i holds candle i's Tenkan and Kijun, the Senkou spans calculated
+ * `displacement` candles earlier, and as Chikou the close `displacement` candles later. Values that
+ * don't exist (yet) are NaN.
+ * @param displacement How far the spans are shifted forward and Chikou back (default: basePeriod)
+ */
+export function ichimokuSeries(
+  candles: Candle[],
+  conversionPeriod = 9,
+  basePeriod = 26,
+  spanBPeriod = 52,
+  displacement = basePeriod
+): IchimokuValues[] {
+  return Array.from({ length: candles.length + displacement }, (_, i) => {
+    const source = i - displacement;
+    return {
+      tenkan: midpoint(candles, i, conversionPeriod),
+      kijun: midpoint(candles, i, basePeriod),
+      senkouA: (midpoint(candles, source, conversionPeriod) + midpoint(candles, source, basePeriod)) / 2,
+      senkouB: midpoint(candles, source, spanBPeriod),
+      chikou: candles[i + displacement]?.close ?? NaN,
+    };
+  });
+}
@@ -0,0 +1,14 @@
+/**
+ * Technical indicators. Every indicator has one implementation here: `<name>Series` functions
+ * return a value per candle (NaN until the indicator has enough data), and the plain functions
+ * return the latest value. RSI, ATR and ADX take a Smoothing ('wilder' by default, or 'simple').
+ *
+ * The IndicatorEngine calculates the same values incrementally (see ./streaming and ./catalog).
+ */
+export * from './moving-averages';
+export * from './oscillators';
+export * from './volatility';
+export * from './volume';
+export * from './ichimoku';
+export * from './adx';
+export * from './trailing-stops';
@@ -13,6 +13,43 @@ export function sma(values: number[], period: number): number {
   return sum / period;
 }
 
+/**
+ * SMA of every window of `period` values, aligned with `values`; NaN until `period` values
+ */
+export function smaSeries(values: number[], period: number): number[] {
+  return values.map((_, i) => (i < period - 1 ? NaN : sma(values.slice(i - period + 1, i + 1), period)));
+}
+
+/**
+ * How RSI and ATR average their inputs: Wilder's running average (the standard definitions) or the
+ * simple average of the last `period` values (Cutler's RSI, simple ATR)
+ */
+export type Smoothing = 'wilder' | 'simple';
+
+/**
+ * Wilder's running average, aligned with `values`: the SMA of the first `period` values, then
+ * `(previous * (period - 1) + value) / period`. NaN until `period` values.
+ */
+export function wilderSeries(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (values.length < period) return result;
+
+  let average = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = average;
+  for (let i = period; i < values.length; i++) {
+    average = (average * (period - 1) + values[i]) / period;
+    result[i] = average;
+  }
+  return result;
+}
+
+/**
+ * Average `values` the way `smoothing` says
+ */
+export function smoothSeries(values: number[], period: number, smoothing: Smoothing = 'wilder'): number[] {
+  return smoothing === 'wilder' ? wilderSeries(values, period) : smaSeries(values, period);
+}
+
 /**
  * Calculate SMA from candles using close prices
  */
@@ -22,10 +59,11 @@ export function candleSMA(candles: Candle[], period: number): number {
 }
 
 /**
- * Create an Exponential Moving Average calculator with the specified period
+ * Exponential Moving Average of every value, aligned with `values`. Seeded with the SMA of the
+ * first `period` values; NaN before that.
  * @param period EMA period
  */
-export function ema(values: number[], period: number): number[] {
+export function emaSeries(values: number[], period: number): number[] {
   if (values.length < period) return values.map(() => NaN); // Return array of NaNs
 
   const k = 2 / (period + 1);
@@ -49,7 +87,7 @@ export function ema(values: number[], period: number): number[] {
  */
 export function candleEMA(candles: Candle[], period: number): number {
   const closes = candles.map(c => c.close);
-  const emaValues = ema(closes, period);
+  const emaValues = emaSeries(closes, period);
   return emaValues.length > 0 ? emaValues[emaValues.length -1] : NaN;
 }
 
@@ -62,7 +100,7 @@ export function candleEMA(candles: Candle[], period: number): number {
 export function multiEMA(candles: Candle[], periods: number[]): Record<number, number> {
   const closes = candles.map(c => c.close);
   return periods.reduce((acc, period) => {
-    const emaValues = ema(closes, period);
+    const emaValues = emaSeries(closes, period);
     acc[period] = emaValues.length > 0 ? emaValues[emaValues.length -1] : NaN;
     return acc;
   }, {} as Record<number, number>);
@@ -1,61 +1,54 @@
 import { Candle } from '../types';
-import { ema } from './moving-averages';
+import { emaSeries, smoothSeries, Smoothing } from './moving-averages';
 
 /**
- * Calculate Relative Strength Index (RSI)
- * @param candles Array of candles
+ * RSI from average gain and loss. No losses reads 100, and a flat market (no gains either) 50.
+ */
+export function relativeStrengthIndex(avgGain: number, avgLoss: number): number {
+  if (isNaN(avgGain) || isNaN(avgLoss)) return NaN;
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  const rs = avgGain / avgLoss;
+  return 100 - (100 / (1 + rs));
+}
+
+/**
+ * Relative Strength Index of every candle, aligned with `candles`; NaN until `period + 1` candles
  * @param period RSI period (default: 14)
+ * @param smoothing 'wilder' (default, the standard RSI) or 'simple' (Cutler's RSI)
  */
-export function rsi(candles: Candle[], period = 14): number {
-  if (candles.length < period + 1) return NaN;
-  
-  let gainSum = 0;
-  let lossSum = 0;
-  
-  // Initial RS calculation
-  for (let i = 1; i <= period; i++) {
-    const diff = candles[candles.length - i].close - candles[candles.length - i - 1].close;
-    if (diff >= 0) {
-      gainSum += diff;
-    } else {
-      lossSum += Math.abs(diff);
-    }
+export function rsiSeries(candles: Candle[], period = 14, smoothing: Smoothing = 'wilder'): number[] {
+  const gains: number[] = [];
+  const losses: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const change = candles[i].close - candles[i - 1].close;
+    gains.push(change > 0 ? change : 0);
+    losses.push(change < 0 ? Math.abs(change) : 0);
   }
-  
-  // Avoid division by zero
-  if (lossSum === 0) return 100;
-  
-  // Calculate initial RS and RSI
-  const initialRS = gainSum / lossSum;
-  return 100 - (100 / (1 + initialRS));
+
+  const avgGains = smoothSeries(gains, period, smoothing);
+  const avgLosses = smoothSeries(losses, period, smoothing);
+  return candles.map((_, i) => (i === 0 ? NaN : relativeStrengthIndex(avgGains[i - 1], avgLosses[i - 1])));
 }
 
 /**
- * RSI with smoothing for more stability
+ * Latest RSI; NaN until `period + 1` candles
  */
-export function smoothedRSI(candles: Candle[], period = 14): number {
-  if (candles.length < period + 1) return NaN;
-  
-  let upMoves = [];
-  let downMoves = [];
-  
-  // Calculate up and down moves
-  for (let i = 1; i < candles.length; i++) {
-    const diff = candles[i].close - candles[i - 1].close;
-    upMoves.push(diff > 0 ? diff : 0);
-    downMoves.push(diff < 0 ? Math.abs(diff) : 0);
+export function rsi(candles: Candle[], period = 14, smoothing: Smoothing = 'wilder'): number {
+  return candles.length > period ? rsiSeries(candles, period, smoothing)[candles.length - 1] : NaN;
+}
+
+/**
+ * Get RSI signal state (overbought/oversold/neutral)
+ * @param rsiValue Current RSI value
+ * @returns Signal state and strength (0-1)
+ */
+export function getRSISignal(rsiValue: number): { state: 'OVERBOUGHT' | 'OVERSOLD' | 'NEUTRAL'; strength: number } {
+  if (rsiValue >= 70) {
+    return { state: 'OVERBOUGHT', strength: Math.min((rsiValue - 70) / 30, 1) };
+  } else if (rsiValue <= 30) {
+    return { state: 'OVERSOLD', strength: Math.min((30 - rsiValue) / 30, 1) };
   }
-  
-  // Calculate smoothed averages
-  const avgGain = ema(period)(upMoves);
-  const avgLoss = ema(period)(downMoves);
-  
-  // Avoid division by zero
-  if (avgLoss === 0) return 100;
-  
-  // Calculate RS and RSI
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
+  return { state: 'NEUTRAL', strength: 0 };
 }
 
 /**
@@ -111,53 +104,43 @@ export function stochastic(candles: Candle[], periodK = 14, periodD = 3): { k: n
   return { k, d };
 }
 
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
 /**
- * Calculate Moving Average Convergence Divergence (MACD)
- * @param candles Array of candles
+ * Moving Average Convergence Divergence of every candle, aligned with `candles`. The signal line
+ * is the EMA of the MACD line from the first candle both EMAs are defined; everything is NaN
+ * until the longest of the three periods.
  * @param fastPeriod Fast EMA period (default: 12)
  * @param slowPeriod Slow EMA period (default: 26)
  * @param signalPeriod Signal EMA period (default: 9)
  */
-export function macd(
-  candles: Candle[],
-  fastPeriod = 12,
-  slowPeriod = 26,
-  signalPeriod = 9
-): { macd: number; signal: number; histogram: number } {
-  if (candles.length < Math.max(fastPeriod, slowPeriod, signalPeriod)) {
-    return { macd: NaN, signal: NaN, histogram: NaN };
-  }
-  
+export function macdSeries(candles: Candle[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MACDValue[] {
   const closes = candles.map(c => c.close);
-  
-  // Calculate fast and slow EMAs
-  const fastEMA = ema(fastPeriod)(closes);
-  const slowEMA = ema(slowPeriod)(closes);
-  
-  // Calculate MACD line
-  const macdLine = fastEMA - slowEMA;
-  
-  // Create an array of MACD values
-  const macdValues = [];
-  let i = 0;
-  while (macdValues.length < signalPeriod) {
-    const tempFastEma = ema(fastPeriod)(closes.slice(0, closes.length - i));
-    const tempSlowEma = ema(slowPeriod)(closes.slice(0, closes.length - i));
-    macdValues.unshift(tempFastEma - tempSlowEma);
-    i++;
-  }
-  
-  // Calculate signal line (EMA of MACD)
-  const signalLine = ema(signalPeriod)(macdValues);
-  
-  // Calculate histogram (MACD - signal)
-  const histogram = macdLine - signalLine;
-  
-  return {
-    macd: macdLine,
-    signal: signalLine,
-    histogram: histogram,
-  };
+  const fastEMA = emaSeries(closes, fastPeriod);
+  const slowEMA = emaSeries(closes, slowPeriod);
+  const macdLine = slowEMA.map((slow, i) => fastEMA[i] - slow);
+
+  const start = macdLine.findIndex(value => !isNaN(value));
+  const signalLine = start === -1 ? [] : emaSeries(macdLine.slice(start), signalPeriod);
+  const minCandles = Math.max(fastPeriod, slowPeriod, signalPeriod);
+
+  return macdLine.map((macd, i) => {
+    if (i + 1 < minCandles) return { macd: NaN, signal: NaN, histogram: NaN };
+    const signal = start !== -1 && i >= start ? signalLine[i - start] : NaN;
+    return { macd, signal, histogram: macd - signal };
+  });
+}
+
+/**
+ * Latest MACD, signal and histogram; NaN until the longest of the three periods
+ */
+export function macd(candles: Candle[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MACDValue {
+  if (candles.length === 0) return { macd: NaN, signal: NaN, histogram: NaN };
+  return macdSeries(candles, fastPeriod, slowPeriod, signalPeriod)[candles.length - 1];
 }
 
 /**
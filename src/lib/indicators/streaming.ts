@@ -0,0 +1,281 @@
+import { Candle } from '../types';
+import { MACDValue, relativeStrengthIndex } from './oscillators';
+import { BollingerBands } from './volatility';
+
+/**
+ * Stateful counterparts of the batch indicators. Each one is fed closed candles in time order and
+ * returns the same value the batch function would return for all candles fed so far:
+ *
+ * - `update(candle)` adds a closed candle; sending the last candle again replaces it
+ * - `peek(candle)` returns the value if `candle` closed now, without changing any state
+ * - `snapshot()` returns the value as of the last update
+ *
+ * EMA, RSI, ATR, MACD and OBV cost O(1) per update; Bollinger Bands and CMF recompute over their
+ * fixed window, so no update depends on how much history has been fed.
+ */
+export abstract class StreamingIndicator<S, T> {
+  protected abstract state: S;
+  /** State before the last update, so that candle can be replaced */
+  private previous: S | null = null;
+  private lastTime: number | null = null;
+
+  protected abstract advance(state: S, candle: Candle): S;
+  protected abstract valueOf(state: S): T;
+
+  public update(candle: Candle): T {
+    if (this.lastTime !== null && candle.time < this.lastTime) {
+      throw new Error(`Candle at ${candle.time} is older than the last update at ${this.lastTime}`);
+    }
+    const base = this.baseFor(candle);
+    this.previous = base;
+    this.state = this.advance(base, candle);
+    this.lastTime = candle.time;
+    return this.snapshot();
+  }
+
+  public peek(candle: Candle): T {
+    return this.valueOf(this.advance(this.baseFor(candle), candle));
+  }
+
+  public snapshot(): T {
+    return this.valueOf(this.state);
+  }
+
+  /** The state `candle` builds on: before the last update when it replaces that candle */
+  private baseFor(candle: Candle): S {
+    return candle.time === this.lastTime && this.previous !== null ? this.previous : this.state;
+  }
+}
+
+/** Running EMA seeded with the SMA of the first `period` values, like `ema()` */
+interface EmaState {
+  count: number;
+  sum: number;
+  value: number;
+}
+
+const EMPTY_EMA: EmaState = { count: 0, sum: 0, value: NaN };
+
+function stepEma(state: EmaState, value: number, period: number): EmaState {
+  const count = state.count + 1;
+  if (count < period) return { count, sum: state.sum + value, value: NaN };
+  if (count === period) return { count, sum: state.sum, value: (state.sum + value) / period };
+  const k = 2 / (period + 1);
+  return { count, sum: state.sum, value: value * k + state.value * (1 - k) };
+}
+
+/**
+ * Last value of `candleEMA(candles, period)`; NaN until `period` candles
+ */
+export class StreamingEMA extends StreamingIndicator<EmaState, number> {
+  protected state = EMPTY_EMA;
+
+  constructor(private readonly period: number) {
+    super();
+  }
+
+  protected advance(state: EmaState, candle: Candle): EmaState {
+    return stepEma(state, candle.close, this.period);
+  }
+
+  protected valueOf(state: EmaState): number {
+    return state.value;
+  }
+}
+
+interface RsiState {
+  prevClose: number | null;
+  changes: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+/**
+ * `rsi(candles, period)` from `./oscillators` (Wilder smoothing); NaN until `period + 1` candles
+ */
+export class StreamingRSI extends StreamingIndicator<RsiState, number> {
+  protected state: RsiState = { prevClose: null, changes: 0, avgGain: 0, avgLoss: 0 };
+
+  constructor(private readonly period: number = 14) {
+    super();
+  }
+
+  protected advance(state: RsiState, candle: Candle): RsiState {
+    if (state.prevClose === null) return { ...state, prevClose: candle.close };
+    const { period } = this;
+    const change = candle.close - state.prevClose;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? Math.abs(change) : 0;
+    const changes = state.changes + 1;
+
+    if (changes < period) {
+      return { prevClose: candle.close, changes, avgGain: state.avgGain + gain, avgLoss: state.avgLoss + loss };
+    }
+    if (changes === period) {
+      return {
+        prevClose: candle.close,
+        changes,
+        avgGain: (state.avgGain + gain) / period,
+        avgLoss: (state.avgLoss + loss) / period,
+      };
+    }
+    return {
+      prevClose: candle.close,
+      changes,
+      avgGain: (state.avgGain * (period - 1) + gain) / period,
+      avgLoss: (state.avgLoss * (period - 1) + loss) / period,
+    };
+  }
+
+  protected valueOf({ changes, avgGain, avgLoss }: RsiState): number {
+    return changes < this.period ? NaN : relativeStrengthIndex(avgGain, avgLoss);
+  }
+}
+
+interface AtrState {
+  prevClose: number | null;
+  count: number;
+  sum: number;
+  atr: number;
+}
+
+/**
+ * `atr(candles, period)` from `./volatility` (Wilder smoothing); NaN until `period` candles
+ */
+export class StreamingATR extends StreamingIndicator<AtrState, number> {
+  protected state: AtrState = { prevClose: null, count: 0, sum: 0, atr: NaN };
+
+  constructor(private readonly period: number = 14) {
+    super();
+  }
+
+  protected advance(state: AtrState, candle: Candle): AtrState {
+    const { period } = this;
+    const tr = state.prevClose === null
+      ? candle.high - candle.low
+      : Math.max(candle.high - candle.low, Math.abs(candle.high - state.prevClose), Math.abs(candle.low - state.prevClose));
+    const count = state.count + 1;
+
+    if (count < period) return { prevClose: candle.close, count, sum: state.sum + tr, atr: NaN };
+    if (count === period) return { prevClose: candle.close, count, sum: state.sum, atr: (state.sum + tr) / period };
+    return { prevClose: candle.close, count, sum: state.sum, atr: (state.atr * (period - 1) + tr) / period };
+  }
+
+  protected valueOf(state: AtrState): number {
+    return state.atr;
+  }
+}
+
+/**
+ * `bollingerBands(candles, period, stdDevMultiplier)` from `./volatility`; NaN until `period` candles
+ */
+export class StreamingBollingerBands extends StreamingIndicator<number[], BollingerBands> {
+  /** Closes of the last `period` candles */
+  protected state: number[] = [];
+
+  constructor(private readonly period = 20, private readonly stdDevMultiplier = 2) {
+    super();
+  }
+
+  protected advance(closes: number[], candle: Candle): number[] {
+    return [...closes.slice(Math.max(0, closes.length - this.period + 1)), candle.close];
+  }
+
+  protected valueOf(closes: number[]): BollingerBands {
+    const { period, stdDevMultiplier } = this;
+    if (closes.length < period) return { upper: NaN, middle: NaN, lower: NaN };
+    const middle = closes.reduce((sum, close) => sum + close, 0) / period;
+    const variance = closes.reduce((sum, close) => sum + Math.pow(close - middle, 2), 0) / period;
+    const stdDev = Math.sqrt(variance);
+    return { upper: middle + (stdDevMultiplier * stdDev), middle, lower: middle - (stdDevMultiplier * stdDev) };
+  }
+}
+
+interface MacdState {
+  count: number;
+  fast: EmaState;
+  slow: EmaState;
+  signal: EmaState;
+}
+
+/**
+ * `macd(candles, fastPeriod, slowPeriod, signalPeriod)` from `./oscillators`. The signal line is
+ * the EMA of the MACD line from the first candle both EMAs are defined.
+ */
+export class StreamingMACD extends StreamingIndicator<MacdState, MACDValue> {
+  protected state: MacdState = { count: 0, fast: EMPTY_EMA, slow: EMPTY_EMA, signal: EMPTY_EMA };
+
+  constructor(
+    private readonly fastPeriod = 12,
+    private readonly slowPeriod = 26,
+    private readonly signalPeriod = 9
+  ) {
+    super();
+  }
+
+  protected advance(state: MacdState, candle: Candle): MacdState {
+    const fast = stepEma(state.fast, candle.close, this.fastPeriod);
+    const slow = stepEma(state.slow, candle.close, this.slowPeriod);
+    const line = fast.value - slow.value;
+    const signal = isNaN(line) ? state.signal : stepEma(state.signal, line, this.signalPeriod);
+    return { count: state.count + 1, fast, slow, signal };
+  }
+
+  protected valueOf({ count, fast, slow, signal }: MacdState): MACDValue {
+    if (count < Math.max(this.fastPeriod, this.slowPeriod, this.signalPeriod)) {
+      return { macd: NaN, signal: NaN, histogram: NaN };
+    }
+    const macd = fast.value - slow.value;
+    return { macd, signal: signal.value, histogram: macd - signal.value };
+  }
+}
+
+interface ObvState {
+  prevClose: number | null;
+  obv: number;
+}
+
+/**
+ * `obv(candles)` from `./volume`; 0 until 2 candles
+ */
+export class StreamingOBV extends StreamingIndicator<ObvState, number> {
+  protected state: ObvState = { prevClose: null, obv: 0 };
+
+  protected advance({ prevClose, obv }: ObvState, candle: Candle): ObvState {
+    if (prevClose === null || candle.close === prevClose) return { prevClose: candle.close, obv };
+    return { prevClose: candle.close, obv: candle.close > prevClose ? obv + candle.volume : obv - candle.volume };
+  }
+
+  protected valueOf(state: ObvState): number {
+    return state.obv;
+  }
+}
+
+/**
+ * `cmf(candles, period)` from `./volume`; NaN until `period` candles
+ */
+export class StreamingCMF extends StreamingIndicator<Candle[], number> {
+  /** The last `period` candles */
+  protected state: Candle[] = [];
+
+  constructor(private readonly period = 20) {
+    super();
+  }
+
+  protected advance(window: Candle[], candle: Candle): Candle[] {
+    return [...window.slice(Math.max(0, window.length - this.period + 1)), candle];
+  }
+
+  protected valueOf(window: Candle[]): number {
+    if (window.length < this.period) return NaN;
+    let sumMoneyFlowVolume = 0;
+    let sumVolume = 0;
+    for (const { high, low, close, volume } of window) {
+      const range = high - low;
+      if (range === 0) continue;
+      sumMoneyFlowVolume += (((close - low) - (high - close)) / range) * volume;
+      sumVolume += volume;
+    }
+    return sumVolume === 0 ? 0 : sumMoneyFlowVolume / sumVolume;
+  }
+}
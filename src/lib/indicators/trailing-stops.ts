@@ -0,0 +1,114 @@
+import { Candle } from '../types';
+import { atrSeries } from './volatility';
+
+/**
+ * A stop that trails price and flips sides when price crosses it
+ */
+export interface TrailingStop {
+  value: number;
+  /** 1 while the stop is below price (uptrend), -1 while it is above (downtrend) */
+  direction: number;
+}
+
+const NO_STOP: TrailingStop = { value: NaN, direction: NaN };
+
+/**
+ * Supertrend of every candle, aligned with `candles`; NaN until the ATR has a value (index
+ * `period - 1`). The bands sit `multiplier` ATRs from the candle's midpoint and only tighten,
+ * unless the previous close went through them. The first value starts in a downtrend unless the
+ * close is already above the upper band.
+ * @param period ATR period (default: 10)
+ * @param multiplier ATR multiplier (default: 3)
+ */
+export function supertrendSeries(candles: Candle[], period = 10, multiplier = 3): TrailingStop[] {
+  const atrs = atrSeries(candles, period);
+  let upper = NaN;
+  let lower = NaN;
+  let direction = -1;
+
+  return candles.map((candle, i) => {
+    if (isNaN(atrs[i])) return { ...NO_STOP };
+
+    const midpoint = (candle.high + candle.low) / 2;
+    const basicUpper = midpoint + multiplier * atrs[i];
+    const basicLower = midpoint - multiplier * atrs[i];
+    const prevClose = candles[i - 1]?.close;
+
+    upper = isNaN(upper) || basicUpper < upper || prevClose > upper ? basicUpper : upper;
+    lower = isNaN(lower) || basicLower > lower || prevClose < lower ? basicLower : lower;
+    direction = direction === -1 ? (candle.close > upper ? 1 : -1) : candle.close < lower ? -1 : 1;
+
+    return { value: direction === 1 ? lower : upper, direction };
+  });
+}
+
+/**
+ * Latest Supertrend
+ * @param candles Array of candles
+ * @param period ATR period (default: 10)
+ * @param multiplier ATR multiplier (default: 3)
+ */
+export function supertrend(candles: Candle[], period = 10, multiplier = 3): TrailingStop {
+  return supertrendSeries(candles, period, multiplier)[candles.length - 1] ?? { ...NO_STOP };
+}
+
+/**
+ * Wilder's Parabolic SAR of every candle, aligned with `candles`; NaN for the first candle. The
+ * second candle's close sets the first trend. Each candle moves the SAR `step` (growing by `step`
+ * at every new extreme, up to `maxStep`) closer to the extreme price of the trend, never past the
+ * last two candles' range, and a candle that reaches the SAR reverses it to the extreme.
+ * @param step Acceleration factor and its increment (default: 0.02)
+ * @param maxStep Largest acceleration factor (default: 0.2)
+ */
+export function parabolicSarSeries(candles: Candle[], step = 0.02, maxStep = 0.2): TrailingStop[] {
+  if (candles.length < 2) return candles.map(() => ({ ...NO_STOP }));
+
+  const [first, second] = candles;
+  let direction = second.close >= first.close ? 1 : -1;
+  let sar = direction === 1 ? Math.min(first.low, second.low) : Math.max(first.high, second.high);
+  let extreme = direction === 1 ? Math.max(first.high, second.high) : Math.min(first.low, second.low);
+  let factor = step;
+  const result: TrailingStop[] = [{ ...NO_STOP }, { value: sar, direction }];
+
+  for (let i = 2; i < candles.length; i++) {
+    const candle = candles[i];
+    sar += factor * (extreme - sar);
+
+    if (direction === 1) {
+      sar = Math.min(sar, candles[i - 1].low, candles[i - 2].low);
+      if (candle.low <= sar) {
+        direction = -1;
+        sar = extreme;
+        extreme = candle.low;
+        factor = step;
+      } else if (candle.high > extreme) {
+        extreme = candle.high;
+        factor = Math.min(factor + step, maxStep);
+      }
+    } else {
+      sar = Math.max(sar, candles[i - 1].high, candles[i - 2].high);
+      if (candle.high >= sar) {
+        direction = 1;
+        sar = extreme;
+        extreme = candle.high;
+        factor = step;
+      } else if (candle.low < extreme) {
+        extreme = candle.low;
+        factor = Math.min(factor + step, maxStep);
+      }
+    }
+
+    result.push({ value: sar, direction });
+  }
+  return result;
+}
+
+/**
+ * Latest Parabolic SAR
+ * @param candles Array of candles
+ * @param step Acceleration factor and its increment (default: 0.02)
+ * @param maxStep Largest acceleration factor (default: 0.2)
+ */
+export function parabolicSar(candles: Candle[], step = 0.02, maxStep = 0.2): TrailingStop {
+  return parabolicSarSeries(candles, step, maxStep)[candles.length - 1] ?? { ...NO_STOP };
+}
@@ -1,78 +1,84 @@
 import { Candle } from '../types';
-import { sma } from './moving-averages';
+import { candleEMA, sma, smoothSeries, Smoothing } from './moving-averages';
 
-/**
- * Calculate Bollinger Bands
- * @param candles Array of candles
- * @param period Period for moving average (default: 20)
- * @param stdDevMultiplier Standard deviation multiplier (default: 2)
- */
-export function bollingerBands(
-  candles: Candle[],
-  period = 20,
-  stdDevMultiplier = 2
-): { upper: number; middle: number; lower: number } {
-  if (candles.length < period) {
+export interface BollingerBands {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+/** Bands around the SMA of `closes`, which holds the last `period` closes */
+function bandsOf(closes: number[], period: number, stdDevMultiplier: number): BollingerBands {
+  if (closes.length < period) {
     return { upper: NaN, middle: NaN, lower: NaN };
   }
-  
+
   // Calculate middle band (SMA)
-  const closes = candles.map(c => c.close);
   const middle = sma(closes, period);
-  
+
   // Calculate standard deviation
-  const slice = closes.slice(-period);
-  const variance = slice.reduce((sum, close) => sum + Math.pow(close - middle, 2), 0) / period;
+  const variance = closes.reduce((sum, close) => sum + Math.pow(close - middle, 2), 0) / period;
   const stdDev = Math.sqrt(variance);
-  
+
   // Calculate upper and lower bands
   const upper = middle + (stdDevMultiplier * stdDev);
   const lower = middle - (stdDevMultiplier * stdDev);
-  
+
   return { upper, middle, lower };
 }
 
 /**
- * Calculate Average True Range (ATR)
+ * Bollinger Bands of every candle, aligned with `candles`; NaN until `period` candles
+ * @param period Period for moving average (default: 20)
+ * @param stdDevMultiplier Standard deviation multiplier (default: 2)
+ */
+export function bollingerBandsSeries(candles: Candle[], period = 20, stdDevMultiplier = 2): BollingerBands[] {
+  const closes = candles.map(c => c.close);
+  return closes.map((_, i) => bandsOf(closes.slice(Math.max(0, i - period + 1), i + 1), period, stdDevMultiplier));
+}
+
+/**
+ * Latest Bollinger Bands
  * @param candles Array of candles
- * @param period ATR period (default: 14)
+ * @param period Period for moving average (default: 20)
+ * @param stdDevMultiplier Standard deviation multiplier (default: 2)
  */
-export function atr(candles: Candle[], period = 14): number {
-  if (candles.length < period + 1) {
-    return NaN;
-  }
-  
-  // Calculate True Range series
-  const trueRanges = [];
-  
-  for (let i = 1; i < candles.length; i++) {
-    const high = candles[i].high;
-    const low = candles[i].low;
+export function bollingerBands(candles: Candle[], period = 20, stdDevMultiplier = 2): BollingerBands {
+  return bandsOf(candles.slice(-period).map(c => c.close), period, stdDevMultiplier);
+}
+
+/**
+ * True Range of every candle: the greatest of high - low, |high - previous close| and
+ * |low - previous close|. The first candle has no previous close, so it is just high - low.
+ */
+export function trueRangeSeries(candles: Candle[]): number[] {
+  return candles.map((candle, i) => {
+    const tr1 = candle.high - candle.low;
+    if (i === 0) return tr1;
     const prevClose = candles[i - 1].close;
-    
-    // True Range is the greatest of:
-    // 1. Current High minus current Low
-    // 2. Absolute value of current High minus previous Close
-    // 3. Absolute value of current Low minus previous Close
-    const tr1 = high - low;
-    const tr2 = Math.abs(high - prevClose);
-    const tr3 = Math.abs(low - prevClose);
-    
-    const trueRange = Math.max(tr1, tr2, tr3);
-    trueRanges.push(trueRange);
-  }
-  
-  // Calculate ATR as SMA of true ranges for first `period` values
-  if (trueRanges.length <= period) {
-    return sma(trueRanges, trueRanges.length);
-  }
-  
-  // For subsequent periods, use the smoothing formula
-  const initialATR = sma(trueRanges.slice(0, period), period);
-  
-  return trueRanges.slice(period).reduce((atrValue, tr) => {
-    return ((atrValue * (period - 1)) + tr) / period;
-  }, initialATR);
+    const tr2 = Math.abs(candle.high - prevClose);
+    const tr3 = Math.abs(candle.low - prevClose);
+    return Math.max(tr1, tr2, tr3);
+  });
+}
+
+/**
+ * Average True Range of every candle, aligned with `candles`; NaN until `period` candles. As in
+ * Wilder's definition, the first average includes the first candle's high - low.
+ * @param period ATR period (default: 14)
+ * @param smoothing 'wilder' (default, the standard ATR) or 'simple'
+ */
+export function atrSeries(candles: Candle[], period = 14, smoothing: Smoothing = 'wilder'): number[] {
+  return smoothSeries(trueRangeSeries(candles), period, smoothing);
+}
+
+/**
+ * Latest Average True Range; NaN until `period` candles
+ * @param candles Array of candles
+ * @param period ATR period (default: 14)
+ */
+export function atr(candles: Candle[], period = 14, smoothing: Smoothing = 'wilder'): number {
+  return candles.length >= period ? atrSeries(candles, period, smoothing)[candles.length - 1] : NaN;
 }
 
 /**
@@ -124,7 +130,7 @@ export function historicalVolatility(
  * @returns 'high', 'medium', or 'low' volatility regime
  */
 export function volatilityRegime(
-  bands: { upper: number; middle: number; lower: number },
+  bands: BollingerBands,
   thresholdHigh = 0.1,
   thresholdLow = 0.03
 ): 'high' | 'medium' | 'low' {
@@ -162,20 +168,7 @@ export function keltnerChannels(
   }
   
   // Calculate middle band (EMA)
-  const closes = candles.map(c => c.close);
-  const emaValues = [];
-  
-  // Calculate initial SMA
-  const initialSma = sma(closes.slice(0, emaPeriod), emaPeriod);
-  emaValues.push(initialSma);
-  
-  // Calculate EMA for remaining values
-  const k = 2 / (emaPeriod + 1);
-  for (let i = emaPeriod; i < closes.length; i++) {
-    emaValues.push(closes[i] * k + emaValues[emaValues.length - 1] * (1 - k));
-  }
-  
-  const middle = emaValues[emaValues.length - 1];
+  const middle = candleEMA(candles, emaPeriod);
   
   // Calculate ATR
   const atrValue = atr(candles, atrPeriod);
@@ -193,7 +186,7 @@ export function keltnerChannels(
  */
 export function priceRelativeToBands(
   price: number,
-  bands: { upper: number; middle: number; lower: number }
+  bands: BollingerBands
 ): number {
   if (isNaN(bands.upper) || isNaN(bands.lower)) {
     return 0;
@@ -1,4 +1,7 @@
 import { Candle } from '@/lib/types';
+import { candleEMA } from '@/lib/indicators/moving-averages';
+import { rsi } from '@/lib/indicators/oscillators';
+import { adx } from '@/lib/indicators/adx';
 
 export type MarketRegime = 'strong-trend-up' | 'strong-trend-down' | 'weak-trend-up' | 'weak-trend-down' | 'ranging';
 
@@ -37,9 +40,6 @@ export class MarketRegimeDetector {
   private candles: Candle[] = [];
   
   // Indicator values
-  private trueRanges: number[] = [];
-  private plusDMs: number[] = [];
-  private minusDMs: number[] = [];
   private atr: number | null = null;
   private plusDI: number | null = null;
   private minusDI: number | null = null;
@@ -131,50 +131,13 @@ export class MarketRegimeDetector {
   }
 
   private calculateRSI(): void {
-    if (this.closePrices.length < this.rsiPeriod + 1) return;
-    
-    let gains: number[] = [];
-    let losses: number[] = [];
-    
-    // Calculate price changes
-    for (let i = 1; i < this.closePrices.length; i++) {
-      const change = this.closePrices[i] - this.closePrices[i - 1];
-      gains.push(Math.max(0, change));
-      losses.push(Math.max(0, -change));
-    }
-    
-    // Calculate average gains and losses
-    let avgGain = gains.slice(0, this.rsiPeriod).reduce((a, b) => a + b, 0) / this.rsiPeriod;
-    let avgLoss = losses.slice(0, this.rsiPeriod).reduce((a, b) => a + b, 0) / this.rsiPeriod;
-    
-    // Calculate RSI
-    for (let i = this.rsiPeriod; i < gains.length; i++) {
-      avgGain = (avgGain * (this.rsiPeriod - 1) + gains[i]) / this.rsiPeriod;
-      avgLoss = (avgLoss * (this.rsiPeriod - 1) + losses[i]) / this.rsiPeriod;
-    }
-    
-    const rs = avgGain / (avgLoss || 0.0001); // Avoid division by zero
-    this.rsi = 100 - (100 / (1 + rs));
+    if (this.candles.length < this.rsiPeriod + 1) return;
+    this.rsi = rsi(this.candles, this.rsiPeriod);
   }
   
   private calculateEMA(): void {
-    if (this.closePrices.length < this.emaPeriod) return;
-    
-    // Simple SMA for the first value
-    let sum = 0;
-    for (let i = 0; i < this.emaPeriod; i++) {
-      sum += this.closePrices[i];
-    }
-    
-    const multiplier = 2 / (this.emaPeriod + 1);
-    let ema = sum / this.emaPeriod;
-    
-    // EMA calculation
-    for (let i = this.emaPeriod; i < this.closePrices.length; i++) {
-      ema = (this.closePrices[i] - ema) * multiplier + ema;
-    }
-    
-    this.ema = ema;
+    if (this.candles.length < this.emaPeriod) return;
+    this.ema = candleEMA(this.candles, this.emaPeriod);
   }
   
   private calculateVolumeRatio(): number {
@@ -212,85 +175,20 @@ export class MarketRegimeDetector {
   }
   
   private calculateEMAValue(period: number): number {
-    if (this.closePrices.length < period) {
+    if (this.candles.length < period) {
       return this.closePrices.length > 0 ? this.closePrices[0] : 0;
     }
-    
-    const multiplier = 2 / (period + 1);
-    let ema = this.closePrices[0];
-    
-    for (let i = 1; i < this.closePrices.length; i++) {
-      ema = (this.closePrices[i] - ema) * multiplier + ema;
-    }
-    
-    return ema;
+    return candleEMA(this.candles, period);
   }
 
 
 
   private calculateADX(): void {
-    if (this.highPrices.length < 2 || this.lowPrices.length < 2 || this.closePrices.length < 2) {
-      return;
-    }
-
-    // Calculate True Range (TR)
-    const currentHigh = this.highPrices[this.highPrices.length - 1];
-    const currentLow = this.lowPrices[this.lowPrices.length - 1];
-    const previousClose = this.closePrices[this.closePrices.length - 2];
-    
-    const tr = Math.max(
-      currentHigh - currentLow,
-      Math.abs(currentHigh - previousClose),
-      Math.abs(currentLow - previousClose)
-    );
-
-    // Calculate +DM and -DM
-    const upMove = currentHigh - this.highPrices[this.highPrices.length - 2];
-    const downMove = this.lowPrices[this.lowPrices.length - 2] - currentLow;
-    
-    let plusDM = 0;
-    let minusDM = 0;
-    
-    if (upMove > downMove && upMove > 0) {
-      plusDM = upMove;
-    }
-    
-    if (downMove > upMove && downMove > 0) {
-      minusDM = downMove;
-    }
-
-    // Store calculations
-    this.trueRanges.push(tr);
-    this.plusDMs.push(plusDM);
-    this.minusDMs.push(minusDM);
-
-    // Keep only necessary history
-    if (this.trueRanges.length > this.adxPeriod) {
-      this.trueRanges.shift();
-      this.plusDMs.shift();
-      this.minusDMs.shift();
-    }
-
-    // Need enough data to calculate ADX
-    if (this.trueRanges.length < this.adxPeriod) {
-      return;
-    }
-
-    // Calculate smoothed averages
-    const atr = this.trueRanges.reduce((sum: number, val: number) => sum + val, 0) / this.adxPeriod;
-    const plusDIAvg = this.plusDMs.reduce((sum: number, val: number) => sum + val, 0) / this.adxPeriod;
-    const minusDIAvg = this.minusDMs.reduce((sum: number, val: number) => sum + val, 0) / this.adxPeriod;
-
-    // Calculate +DI and -DI
-    this.plusDI = (plusDIAvg / (atr || 0.0001)) * 100;
-    this.minusDI = (minusDIAvg / (atr || 0.0001)) * 100;
-
-    // Calculate DX (avoid division by zero)
-    const diSum = this.plusDI! + this.minusDI!;
-    const dx = diSum > 0 ? (Math.abs(this.plusDI! - this.minusDI!) / diSum) * 100 : 0;
-
-    // Calculate ADX (smoothed average of DX)
-    this.adx = this.adx ? ((this.adx * (this.adxPeriod - 1)) + dx) / this.adxPeriod : dx;
+    const { adx: value, plusDI, minusDI } = adx(this.candles, this.adxPeriod);
+    if (isNaN(value)) return;
+    this.adx = value;
+    this.plusDI = plusDI;
+    this.minusDI = minusDI;
   }
 
   private determineRegime(): void {
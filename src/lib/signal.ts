@@ -1,12 +1,9 @@
 import type { Candle } from './types';
-import { rsi14, ema, volumeSMA, bollingerBands } from './indicators';
+import { emaSeries, volumeSMA } from './indicators';
 import { StrategyAutomaticSwitcher, TradingSignal } from './signals/strategy-switcher';
 import { MarketRegimeDetector, MarketRegime } from './market/regime';
 import config from '../config/signals.json';
 
-const emaFast = ema(config.emaPeriodFast);
-const emaSlow = ema(config.emaPeriodSlow);
-
 // Store last signal times for cooldown per trade side
 let lastBuyTime = 0;
 let lastSellTime = 0;
@@ -63,11 +60,9 @@ const regimeDetector = new MarketRegimeDetector();
 function getFallbackSignal(candles: Candle[]): SignalResult {
   if (candles.length < 30) return { signal: 'HOLD', reason: 'Insufficient data for fallback' };
   
-  const emaFast = ema(9);
-  const emaSlow = ema(21);
-  
-  const fast = emaFast(candles.map(c => c.close));
-  const slow = emaSlow(candles.map(c => c.close));
+  const closes = candles.map(c => c.close);
+  const fast = emaSeries(closes, 9);
+  const slow = emaSeries(closes, 21);
   
   if (fast[fast.length - 1] > slow[slow.length - 1] && fast[fast.length - 2] <= slow[slow.length - 2]) {
     return { signal: 'BUY', reason: 'EMA Crossover (Fallback)' };
@@ -3,6 +3,9 @@ import { bollingerBands } from '../indicators/volatility';
 import { rsi } from '../indicators/oscillators';
 import { candleEMA, multiEMA, detectCrossover } from '../indicators/moving-averages';
 import { isVolumeConfirming } from '../indicators/volume';
+import { adx } from '../indicators/adx';
+import { ichimokuSeries } from '../indicators/ichimoku';
+import { parabolicSarSeries, supertrendSeries, TrailingStop } from '../indicators/trailing-stops';
 
 export interface ConditionResult {
   met: boolean;
@@ -10,6 +13,51 @@ export interface ConditionResult {
   reason?: string;
 }
 
+/**
+ * Price is on the `direction` side of a trailing stop series. Confidence grows with the distance
+ * to the stop and is higher on the candle where the stop flipped.
+ */
+function trailingStopCondition(candles: Candle[], stops: TrailingStop[], direction: 1 | -1, name: string): ConditionResult {
+  const current = stops[stops.length - 1];
+  if (!current || current.direction !== direction) {
+    return { met: false, confidence: 0 };
+  }
+
+  const price = candles[candles.length - 1].close;
+  const flipped = stops[stops.length - 2]?.direction === -direction;
+  const distance = Math.abs(price - current.value) / price;
+  const confidence = Math.min(100, Math.floor((flipped ? 70 : 40) + distance * 1000));
+  const side = direction === 1 ? 'below' : 'above';
+
+  return {
+    met: true,
+    confidence,
+    reason: `${name} ${flipped ? 'flipped' : 'is'} ${side} price (${current.value.toFixed(2)})`
+  };
+}
+
+/**
+ * Price on the `direction` side of the cloud plotted under the latest candle, i.e. the Senkou
+ * spans calculated 26 candles earlier. Confidence grows with the distance from the cloud.
+ */
+function cloudCondition(candles: Candle[], direction: 1 | -1): ConditionResult {
+  const lines = ichimokuSeries(candles)[candles.length - 1];
+  if (!lines || isNaN(lines.senkouA) || isNaN(lines.senkouB) || isNaN(lines.tenkan) || isNaN(lines.kijun)) {
+    return { met: false, confidence: 0 };
+  }
+
+  const price = candles[candles.length - 1].close;
+  const edge = direction === 1 ? Math.max(lines.senkouA, lines.senkouB) : Math.min(lines.senkouA, lines.senkouB);
+  const met = (price - edge) * direction > 0 && (lines.tenkan - lines.kijun) * direction > 0;
+  const side = direction === 1 ? 'above' : 'below';
+
+  return {
+    met,
+    confidence: met ? Math.min(100, Math.floor(50 + (Math.abs(price - edge) / price) * 1000)) : 0,
+    reason: met ? `Price ${side} the Ichimoku cloud (${edge.toFixed(2)})` : undefined
+  };
+}
+
 /**
  * Detect price action patterns
  */
@@ -449,6 +497,76 @@ export const indicatorConditions = {
       confidence,
       reason: met ? `Triple EMA confirmation (${sentiment})` : undefined
     };
+  },
+  
+  /**
+   * Strong trend (ADX above threshold) with +DI above -DI
+   */
+  adxTrendUp(candles: Candle[], period = 14, threshold = 25): ConditionResult {
+    const { adx: strength, plusDI, minusDI } = adx(candles, period);
+    const met = strength > threshold && plusDI > minusDI;
+    
+    return {
+      met,
+      confidence: met ? Math.min(100, Math.floor(strength * 2)) : 0,
+      reason: met ? `ADX uptrend (${strength.toFixed(1)}, +DI ${plusDI.toFixed(1)} > -DI ${minusDI.toFixed(1)})` : undefined
+    };
+  },
+  
+  /**
+   * Strong trend (ADX above threshold) with -DI above +DI
+   */
+  adxTrendDown(candles: Candle[], period = 14, threshold = 25): ConditionResult {
+    const { adx: strength, plusDI, minusDI } = adx(candles, period);
+    const met = strength > threshold && minusDI > plusDI;
+    
+    return {
+      met,
+      confidence: met ? Math.min(100, Math.floor(strength * 2)) : 0,
+      reason: met ? `ADX downtrend (${strength.toFixed(1)}, -DI ${minusDI.toFixed(1)} > +DI ${plusDI.toFixed(1)})` : undefined
+    };
+  },
+  
+  /**
+   * Supertrend below price
+   */
+  supertrendBullish(candles: Candle[], period = 10, multiplier = 3): ConditionResult {
+    return trailingStopCondition(candles, supertrendSeries(candles, period, multiplier), 1, 'Supertrend');
+  },
+  
+  /**
+   * Supertrend above price
+   */
+  supertrendBearish(candles: Candle[], period = 10, multiplier = 3): ConditionResult {
+    return trailingStopCondition(candles, supertrendSeries(candles, period, multiplier), -1, 'Supertrend');
+  },
+  
+  /**
+   * Parabolic SAR below price
+   */
+  parabolicSarBullish(candles: Candle[], step = 0.02, maxStep = 0.2): ConditionResult {
+    return trailingStopCondition(candles, parabolicSarSeries(candles, step, maxStep), 1, 'Parabolic SAR');
+  },
+  
+  /**
+   * Parabolic SAR above price
+   */
+  parabolicSarBearish(candles: Candle[], step = 0.02, maxStep = 0.2): ConditionResult {
+    return trailingStopCondition(candles, parabolicSarSeries(candles, step, maxStep), -1, 'Parabolic SAR');
+  },
+  
+  /**
+   * Price above the Ichimoku cloud, with Tenkan above Kijun
+   */
+  priceAboveCloud(candles: Candle[]): ConditionResult {
+    return cloudCondition(candles, 1);
+  },
+  
+  /**
+   * Price below the Ichimoku cloud, with Tenkan below Kijun
+   */
+  priceBelowCloud(candles: Candle[]): ConditionResult {
+    return cloudCondition(candles, -1);
   }
 };
 
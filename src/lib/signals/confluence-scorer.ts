@@ -1,7 +1,7 @@
 import { Candle } from '../types';
 import { MarketRegime } from '../agents/types'; // Changed to use MarketRegime from agents/types
 import { rsi } from '../indicators/oscillators';
-import { ema } from '../indicators/moving-averages';
+import { emaSeries } from '../indicators/moving-averages';
 import { atr, bollingerBands } from '../indicators/volatility';
 
 export interface ConfluenceSignal {
@@ -74,8 +74,8 @@ export class ConfluenceScorer {
 
   private static evaluateEMACrossover(candles: Candle[]): SignalComponent {
     const closes = candles.map(c => c.close);
-    const ema9 = ema(closes, 9);
-    const ema21 = ema(closes, 21);
+    const ema9 = emaSeries(closes, 9);
+    const ema21 = emaSeries(closes, 21);
     
     if (candles.length < 3) {
       return {
@@ -1,5 +1,6 @@
 import { Candle } from '@/lib/types';
-import { calculateRSI, getRSISignal } from '@/lib/indicators/rsi';
+import { emaSeries } from '@/lib/indicators/moving-averages';
+import { getRSISignal, rsiSeries } from '@/lib/indicators/oscillators';
 
 export interface EMASignal {
   type: 'BUY' | 'SELL' | 'NEUTRAL';
@@ -19,17 +20,6 @@ export interface EMACrossResult {
   slowEMA: number[];
 }
 
-export function calculateEMA(prices: number[], period: number): number[] {
-  const k = 2 / (period + 1);
-  const ema: number[] = [prices[0]]; // Initialize with first price
-
-  for (let i = 1; i < prices.length; i++) {
-    ema.push(prices[i] * k + ema[i - 1] * (1 - k));
-  }
-
-  return ema;
-}
-
 export function detectEMACross(candles: Candle[]): EMACrossResult {
   if (candles.length < 22) { // Need at least 21 candles for EMA21
     return {
@@ -47,8 +37,8 @@ export function detectEMACross(candles: Candle[]): EMACrossResult {
   }
 
   const closes = candles.map(c => c.close);
-  const fastEMA = calculateEMA(closes, 9);
-  const slowEMA = calculateEMA(closes, 21);
+  const fastEMA = emaSeries(closes, 9);
+  const slowEMA = emaSeries(closes, 21);
   
   const currentCandle = candles[candles.length - 1];
   const prevCandle = candles[candles.length - 2];
@@ -78,7 +68,7 @@ export function detectEMACross(candles: Candle[]): EMACrossResult {
   let baseConfidence = Math.min(angleDiff / 5, 1); // Normalize to 0-1 range
   
   // Calculate RSI for confirmation
-  const rsiValues = calculateRSI(candles, 14);
+  const rsiValues = rsiSeries(candles, 14);
   const currentRSI = rsiValues[rsiValues.length - 1] || 50;
   const rsiSignal = getRSISignal(currentRSI);
   
@@ -0,0 +1,65 @@
+import { IndicatorDataSet } from '../agents/types';
+import type { Interval } from '../types';
+
+/**
+ * Higher-timeframe confirmation for base-timeframe signals: a BUY wants the 15m/1h trend up,
+ * a SELL wants it down. Trend is EMA fast vs slow on each higher timeframe.
+ */
+
+export type Trend = 'up' | 'down' | 'flat';
+
+export interface SignalDecision {
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  reason: string;
+}
+
+export interface TimeframeIndicators {
+  timeframe: Interval;
+  indicators: IndicatorDataSet;
+}
+
+const ALIGNED_BONUS = 10;
+const OPPOSED_PENALTY = 20;
+
+export function trendOf(indicators: IndicatorDataSet): Trend | null {
+  const { emaFast, emaSlow } = indicators;
+  if (emaFast === null || emaSlow === null) return null;
+  if (emaFast > emaSlow) return 'up';
+  if (emaFast < emaSlow) return 'down';
+  return 'flat';
+}
+
+/**
+ * Weight a decision by higher-timeframe trend: each aligned timeframe adds ALIGNED_BONUS confidence,
+ * each opposed one removes OPPOSED_PENALTY, and a BUY/SELL that every higher timeframe opposes
+ * becomes a HOLD. The per-timeframe trend is appended to the reason. Decisions are returned
+ * unchanged while no higher timeframe has indicators yet.
+ */
+export function applyTimeframeAlignment(decision: SignalDecision, higher: TimeframeIndicators[]): SignalDecision {
+  const trends = higher
+    .map(({ timeframe, indicators }) => ({ timeframe, trend: trendOf(indicators) }))
+    .filter((entry): entry is { timeframe: Interval; trend: Trend } => entry.trend !== null);
+  if (trends.length === 0) return decision;
+
+  if (decision.action === 'HOLD') {
+    const summary = trends.map(({ timeframe, trend }) => `${timeframe} ${trend}`).join(', ');
+    return { ...decision, reason: `${decision.reason}; ${summary}` };
+  }
+
+  const wanted: Trend = decision.action === 'BUY' ? 'up' : 'down';
+  const verdicts = trends.map(({ timeframe, trend }) => ({
+    timeframe,
+    trend,
+    verdict: trend === wanted ? 'aligned' : trend === 'flat' ? 'neutral' : 'opposed',
+  }));
+  const aligned = verdicts.filter(({ verdict }) => verdict === 'aligned').length;
+  const opposed = verdicts.filter(({ verdict }) => verdict === 'opposed').length;
+  const confidence = Math.min(100, Math.max(0, decision.confidence + aligned * ALIGNED_BONUS - opposed * OPPOSED_PENALTY));
+  const summary = verdicts.map(({ timeframe, trend, verdict }) => `${timeframe} ${trend} (${verdict})`).join(', ');
+
+  if (opposed === verdicts.length) {
+    return { action: 'HOLD', confidence, reason: `${decision.reason}; held, higher timeframes disagree: ${summary}` };
+  }
+  return { ...decision, confidence, reason: `${decision.reason}; ${summary}` };
+}
@@ -0,0 +1,33 @@
+/**
+ * Indicator Settings Storage
+ *
+ * Persists the user's indicator configuration (see indicators/catalog.ts) in localStorage
+ */
+
+import { IndicatorSetting, normalizeIndicatorSettings } from '../indicators/catalog';
+
+const STORAGE_KEY = 'bitdash3_indicator_settings';
+
+/**
+ * Load saved indicator settings; the defaults where nothing is saved or storage is unavailable (server)
+ */
+export function loadIndicatorSettings(): IndicatorSetting[] {
+  try {
+    const data = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return normalizeIndicatorSettings(data ? JSON.parse(data) : null);
+  } catch (error) {
+    console.error('Failed to load indicator settings from localStorage:', error);
+    return normalizeIndicatorSettings(null);
+  }
+}
+
+/**
+ * Save indicator settings
+ */
+export function saveIndicatorSettings(settings: IndicatorSetting[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save indicator settings to localStorage:', error);
+  }
+}
@@ -1,5 +1,8 @@
 export type TimeFrame = '1m' | '5m' | '15m' | '1h';
 
+/** Any candle interval, e.g. '3m', '4h', '1d'; TimeFrame is the subset fetched from Binance directly */
+export type Interval = `${number}${'m' | 'h' | 'd'}`;
+
 export interface Candle {
   time: number;
   open: number;